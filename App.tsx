@@ -1,7 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { AppData, ModuleType } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppData, ModuleType, StudentProfile } from './types';
 import { INITIAL_DATA } from './constants';
 import { PersistenceService } from './services/persistenceService';
+import { AuthService, AdminSession, MIN_PASSWORD_LENGTH, SetupRequirement } from './services/authService';
+import { createPoller } from './services/syncScheduler';
+import { Outbox, OutboxEntry, OutboxMutation, applyMutation } from './services/outboxService';
+import { studentTag } from './services/attendanceService';
 import FeatureCard from './components/FeatureCard';
 import VPai from './components/Modules/VPai';
 import Attendance from './components/Modules/Attendance';
@@ -14,44 +18,95 @@ import Internship from './components/Modules/Internship';
 import CampusMap from './components/Modules/CampusMap';
 import AdminPanel from './components/Admin/AdminPanel';
 import Logo from './components/Logo';
+import ProfileSetup from './components/ProfileSetup';
 
 const App: React.FC = () => {
   const [currentModule, setCurrentModule] = useState<ModuleType>('DASHBOARD');
   const [appData, setAppData] = useState<AppData>(INITIAL_DATA);
   const [isLoading, setIsLoading] = useState(true);
-  const [isAdminMode, setIsAdminMode] = useState(false);
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
   const [showAdminLogin, setShowAdminLogin] = useState(false);
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [needsBootstrap, setNeedsBootstrap] = useState(false);
+  const [setupSecret, setSetupSecret] = useState('');
+  const setupRequirement: SetupRequirement = AuthService.setupRequirement();
+  const [loginError, setLoginError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
+  const [showProfileSetup, setShowProfileSetup] = useState(false);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  // Public records (attendance, RSVPs, bookmarks) name the student by a hash of the roll number.
+  const student = useMemo(() => studentTag(profile?.rollNo), [profile?.rollNo]);
 
   const logoTaps = useRef<{ count: number; lastTime: number }>({ count: 0, lastTime: 0 });
+  const appDataRef = useRef(appData);
+  appDataRef.current = appData;
 
-  // Initial Data Load & Periodic Polling for Global Sync
+  // Initial Data Load & Adaptive Delta Polling for Global Sync
   useEffect(() => {
-    const fetchData = async (silent = false) => {
-      if (!silent) setIsLoading(true);
+    // Each poll also replays the student outbox, so queued writes go out as soon as the hub answers.
+    const poller = createPoller(async () => {
+      const { status, data } = await PersistenceService.syncChanges(appDataRef.current);
+      const flushed = status === 'OFFLINE' ? null : await Outbox.flush(data);
+      if (flushed) {
+        setAppData(await Outbox.overlay(flushed));
+        return 'CHANGED';
+      }
+      if (status === 'CHANGED') setAppData(await Outbox.overlay(data));
+      return status;
+    });
+
+    const fetchData = async () => {
+      setIsLoading(true);
       const data = await PersistenceService.loadData();
-      setAppData(data);
-      if (!silent) setIsLoading(false);
+      setAppData(await Outbox.overlay(data));
+      setIsLoading(false);
+      poller.start();
     };
 
     fetchData();
 
-    // Fast polling (15s) for real-time feel on all hosted devices
-    const pollInterval = setInterval(() => fetchData(true), 15000);
+    PersistenceService.loadProfile().then(saved => {
+      setProfile(saved);
+      if (!saved) setShowProfileSetup(true);
+    });
 
-    const handleSync = async () => {
-      const data = await PersistenceService.loadData();
-      setAppData(data);
-    };
+    // A write from this device means others may follow; catch up now instead of waiting out the backoff.
+    const handleSync = () => poller.trigger();
     window.addEventListener('quadx_data_sync', handleSync);
 
+    const refreshOutbox = () => Outbox.list().then(setOutboxEntries);
+    refreshOutbox();
+    window.addEventListener('quadx_outbox_change', refreshOutbox);
+
     return () => {
       window.removeEventListener('quadx_data_sync', handleSync);
-      clearInterval(pollInterval);
+      window.removeEventListener('quadx_outbox_change', refreshOutbox);
+      poller.stop();
     };
   }, []);
 
+  // Drop out of admin mode as soon as the session token lapses.
+  useEffect(() => {
+    if (!adminSession) return;
+    const timer = setInterval(() => {
+      if (!AuthService.isSessionValid(adminSession)) {
+        setAdminSession(null);
+        alert('Admin session expired. Please sign in again.');
+      }
+    }, 30000);
+    return () => clearInterval(timer);
+  }, [adminSession]);
+
+  // A hub that signs admins in only hands out the account records with a session, so reload once one starts.
+  useEffect(() => {
+    if (!adminSession || !PersistenceService.backend.auth) return;
+    PersistenceService.loadData().then(async data => setAppData(await Outbox.overlay(data)));
+  }, [adminSession?.token]);
+
   useEffect(() => {
     if (isDarkMode) {
       document.documentElement.classList.add('dark');
@@ -70,22 +125,86 @@ const App: React.FC = () => {
     logoTaps.current.lastTime = now;
 
     if (logoTaps.current.count === 3) {
-      setShowAdminLogin(true);
       logoTaps.current.count = 0;
+      openAdminLogin();
     }
   };
 
-  const handleAdminLogin = (e: React.FormEvent) => {
+  const openAdminLogin = async () => {
+    const existing = await AuthService.restoreSession();
+    if (existing) {
+      setAdminSession(existing);
+      return;
+    }
+    setLoginError('');
+    // An unreachable hub shows the sign-in form, which reports the error itself.
+    setNeedsBootstrap(!(await AuthService.hasAccounts().catch(() => true)));
+    setShowAdminLogin(true);
+  };
+
+  const closeAdminLogin = () => {
+    setShowAdminLogin(false);
+    setUsername('');
+    setPassword('');
+    setConfirmPassword('');
+    setSetupSecret('');
+    setLoginError('');
+  };
+
+  const handleAdminLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === 'VP@123') {
-      setIsAdminMode(true);
-      setShowAdminLogin(false);
+    if (isVerifying) return;
+    if (needsBootstrap && password !== confirmPassword) {
+      setLoginError('Passwords do not match');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const result = needsBootstrap
+        ? await AuthService.bootstrap(username, password, setupSecret)
+        : await AuthService.login(username, password);
+
+      if (result.ok) {
+        setAdminSession(result.session);
+        closeAdminLogin();
+      } else if (result.reason === 'LOCKED') {
+        setLoginError(`Too many attempts. Try again after ${new Date(result.retryAt!).toLocaleTimeString()}.`);
+      } else {
+        setLoginError(`Invalid credentials. ${result.attemptsLeft ?? 0} attempts left.`);
+      }
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
       setPassword('');
-    } else {
-      alert('Incorrect Password');
+      setConfirmPassword('');
+      setIsVerifying(false);
     }
   };
 
+  const handleAdminExit = async () => {
+    await AuthService.logout();
+    setAdminSession(null);
+  };
+
+  const handleProfileSave = async (next: StudentProfile) => {
+    setProfile(next);
+    setShowProfileSetup(false);
+    await PersistenceService.saveProfile(next);
+  };
+
+  // Student writes go through the outbox: shown immediately, sent now or whenever the hub is reachable.
+  const submitStudentAction = async (action: OutboxMutation): Promise<OutboxEntry> => {
+    // The hub only lets a student take back RSVPs and bookmarks their roll number proves are theirs.
+    const owned = action.type === 'REMOVE' && (action.collection === 'rsvps' || action.collection === 'bookmarks');
+    const mutation = owned && profile ? { ...action, owner: profile.rollNo } : action;
+    const entry = await Outbox.enqueue(mutation);
+    setAppData(prev => applyMutation(prev, mutation));
+    const saved = await Outbox.flush(applyMutation(appDataRef.current, mutation));
+    if (saved) setAppData(await Outbox.overlay(saved));
+    return entry;
+  };
+
   const updateAppDataAndSync = (newData: AppData) => {
     setAppData(newData);
     // Persistence handled directly in AdminPanel for granular control
@@ -100,24 +219,20 @@ const App: React.FC = () => {
     );
   }
 
-  if (isAdminMode) {
-    return <AdminPanel appData={appData} setAppData={updateAppDataAndSync} onExit={() => setIsAdminMode(false)} />;
+  if (adminSession) {
+    return <AdminPanel appData={appData} setAppData={updateAppDataAndSync} session={adminSession} onExit={handleAdminExit} />;
   }
 
   const renderModule = () => {
     switch (currentModule) {
-      case 'VPAI': return <VPai data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'ATTENDANCE': return <Attendance data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'TIMETABLE': return <Timetable data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'EXAM_INFO': return <ExamInfo data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'SCHOLARSHIP': return <Scholarship data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'EVENT_INFO': return <EventInfo data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'COMPLAINT_BOX': return <ComplaintBox setAppData={async (fn) => {
-        const newData = typeof fn === 'function' ? fn(appData) : fn;
-        setAppData(newData);
-        await PersistenceService.saveData(newData);
-      }} onBack={() => setCurrentModule('DASHBOARD')} />;
-      case 'INTERNSHIP': return <Internship data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'VPAI': return <VPai data={appData} student={student} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'ATTENDANCE': return <Attendance data={appData} profile={profile} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'TIMETABLE': return <Timetable data={appData} profile={profile} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'EXAM_INFO': return <ExamInfo data={appData} profile={profile} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'SCHOLARSHIP': return <Scholarship data={appData} student={student} outbox={outboxEntries} onAction={submitStudentAction} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'EVENT_INFO': return <EventInfo data={appData} student={student} outbox={outboxEntries} onAction={submitStudentAction} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'COMPLAINT_BOX': return <ComplaintBox data={appData} outbox={outboxEntries} onSubmit={submitStudentAction} onBack={() => setCurrentModule('DASHBOARD')} />;
+      case 'INTERNSHIP': return <Internship data={appData} profile={profile} student={student} outbox={outboxEntries} onAction={submitStudentAction} onBack={() => setCurrentModule('DASHBOARD')} />;
       case 'CAMPUS_MAP': return <CampusMap data={appData} onBack={() => setCurrentModule('DASHBOARD')} />;
       default: return null;
     }
@@ -142,6 +257,12 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex gap-2">
+            <button 
+              onClick={() => setShowProfileSetup(true)}
+              className="w-10 h-10 rounded-full bg-white dark:bg-slate-800 shadow-sm flex items-center justify-center text-slate-400 hover:text-blue-600 transition-all active:scale-90"
+            >
+              <i className="fa-solid fa-user-graduate text-lg"></i>
+            </button>
             <button 
               onClick={() => setIsDarkMode(!isDarkMode)}
               className="w-10 h-10 rounded-full bg-white dark:bg-slate-800 shadow-sm flex items-center justify-center text-slate-400 hover:text-blue-600 transition-all active:scale-90"
@@ -154,7 +275,9 @@ const App: React.FC = () => {
         {currentModule === 'DASHBOARD' && (
           <div className="mb-6 animate-fadeIn px-2">
             <h2 className="text-3xl font-black text-slate-800 dark:text-white tracking-tight">QuadX Campus ⚡</h2>
-            <p className="text-slate-500 dark:text-slate-400 font-medium">Synced with cloud hub.</p>
+            <p className="text-slate-500 dark:text-slate-400 font-medium">
+              {profile ? `${profile.rollNo} • ${profile.branch} • ${profile.year} • Div ${profile.division}` : 'Synced with cloud hub.'}
+            </p>
           </div>
         )}
       </header>
@@ -179,18 +302,41 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {showProfileSetup && (
+        <ProfileSetup initialProfile={profile} onSave={handleProfileSave} onCancel={profile ? () => setShowProfileSetup(false) : undefined} />
+      )}
+
       {showAdminLogin && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-6">
           <div className="bg-white dark:bg-slate-900 rounded-[3rem] w-full p-10 shadow-2xl animate-scaleIn border border-slate-100 dark:border-slate-800">
             <Logo className="w-24 h-24 mb-6 mx-auto" />
-            <h3 className="text-2xl font-black mb-2 text-center text-slate-800 dark:text-white uppercase tracking-tighter">Admin Access</h3>
-            <form onSubmit={handleAdminLogin}>
-              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="••••••••" className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-5 mb-6 text-center text-2xl text-slate-800 dark:text-white" autoFocus />
-              <div className="flex gap-4">
-                <button type="button" onClick={() => setShowAdminLogin(false)} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-bold">Cancel</button>
-                <button type="submit" className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-bold">Verify</button>
-              </div>
-            </form>
+            <h3 className="text-2xl font-black mb-2 text-center text-slate-800 dark:text-white uppercase tracking-tighter">{needsBootstrap ? 'Create First Admin' : 'Admin Access'}</h3>
+            {needsBootstrap && (
+              <p className="text-[9px] text-center text-slate-400 font-bold uppercase tracking-widest mb-4">
+                {setupRequirement === 'DISABLED'
+                  ? 'No admin accounts exist yet. Create the first one with the hub setup secret, or from a build made with ADMIN_BOOTSTRAP=true.'
+                  : `No admin accounts exist yet. Min ${MIN_PASSWORD_LENGTH} characters.`}
+              </p>
+            )}
+            {needsBootstrap && setupRequirement === 'DISABLED' ? (
+              <button type="button" onClick={closeAdminLogin} className="w-full py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-bold">Close</button>
+            ) : (
+              <form onSubmit={handleAdminLogin}>
+                <input type="text" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" autoComplete="username" className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-4 mb-3 text-center text-lg text-slate-800 dark:text-white" autoFocus />
+                <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="••••••••" autoComplete={needsBootstrap ? 'new-password' : 'current-password'} className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-5 mb-3 text-center text-2xl text-slate-800 dark:text-white" />
+                {needsBootstrap && (
+                  <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="Confirm" autoComplete="new-password" className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-5 mb-3 text-center text-2xl text-slate-800 dark:text-white" />
+                )}
+                {needsBootstrap && setupRequirement === 'SECRET' && (
+                  <input type="password" value={setupSecret} onChange={(e) => setSetupSecret(e.target.value)} placeholder="Hub setup secret" autoComplete="off" className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-4 mb-3 text-center text-lg text-slate-800 dark:text-white" />
+                )}
+                {loginError && <p className="text-[10px] text-rose-500 font-bold text-center mb-3">{loginError}</p>}
+                <div className="flex gap-4 mt-3">
+                  <button type="button" onClick={closeAdminLogin} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-bold">Cancel</button>
+                  <button type="submit" disabled={isVerifying || !username.trim() || !password} className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-bold disabled:opacity-50">{isVerifying ? 'Checking...' : needsBootstrap ? 'Create' : 'Verify'}</button>
+                </div>
+              </form>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { AdminAccount, AdminRole } from '../../types';
+import { BRANCHES } from '../../constants';
+import { AuthService, AdminSession, MIN_PASSWORD_LENGTH } from '../../services/authService';
+import { ROLE_DEFINITIONS, getRole } from '../../services/permissionService';
+import { wrapForPassword } from '../../services/complaintCrypto';
+
+interface AdminAccountsProps {
+  accounts: AdminAccount[];
+  session: AdminSession;
+  complaintKey?: CryptoKey | null; // when unlocked, new complaint handlers get their copy straight away
+  disabled?: boolean;
+  onSave: (accounts: AdminAccount[]) => Promise<void>;
+}
+
+const AdminAccounts: React.FC<AdminAccountsProps> = ({ accounts, session, complaintKey, disabled, onSave }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<AdminRole>('DEPT_COORDINATOR');
+  const [branch, setBranch] = useState(BRANCHES[0]);
+  const [error, setError] = useState('');
+  const [isHashing, setIsHashing] = useState(false);
+
+  const handleAdd = async () => {
+    setError('');
+    if (accounts.some(a => a.username === username.trim().toLowerCase())) {
+      setError('That username already exists');
+      return;
+    }
+    setIsHashing(true);
+    try {
+      const account = await AuthService.buildAccount(username, password, role, branch);
+      if (complaintKey && ROLE_DEFINITIONS[role].categories.includes('COMPLAINTS')) {
+        account.complaintKeyWrap = await wrapForPassword(complaintKey, password);
+      }
+      await onSave([...accounts, account]);
+      setUsername('');
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Could not create account');
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  const handleRemove = async (account: AdminAccount) => {
+    if (account.id === session.accountId || !confirm(`Remove admin ${account.username}?`)) return;
+    await onSave(accounts.filter(a => a.id !== account.id));
+  };
+
+  return (
+    <div className="bg-slate-900 p-8 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+      <h3 className="text-sm font-black text-white uppercase tracking-tighter">Admin Accounts</h3>
+      <div className="space-y-2">
+        {accounts.map(a => (
+          <div key={a.id} className="flex items-center justify-between bg-slate-800/50 rounded-2xl px-4 py-3">
+            <div className="flex flex-col">
+              <span className="text-[11px] font-black text-slate-300 uppercase">{a.username}</span>
+              <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">
+                {ROLE_DEFINITIONS[getRole(a)!].label}{a.branch ? ` • ${a.branch}` : ''} • Since {new Date(a.createdAt).toLocaleDateString()}
+              </span>
+            </div>
+            {a.id === session.accountId ? (
+              <span className="text-[8px] font-black text-blue-400 uppercase tracking-widest">You</span>
+            ) : (
+              <button onClick={() => handleRemove(a)} disabled={disabled} className="w-8 h-8 rounded-xl bg-rose-500/10 text-rose-500 hover:bg-rose-500 hover:text-white transition-all"><i className="fa-solid fa-user-minus text-xs"></i></button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" autoComplete="off"
+          className="bg-slate-800 rounded-2xl px-4 py-3 text-xs text-slate-200 outline-none border border-slate-700 focus:border-blue-500 font-bold" />
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder={`Password (${MIN_PASSWORD_LENGTH}+)`} autoComplete="new-password"
+          className="bg-slate-800 rounded-2xl px-4 py-3 text-xs text-slate-200 outline-none border border-slate-700 focus:border-blue-500 font-bold" />
+        <select value={role} onChange={(e) => setRole(e.target.value as AdminRole)} className={`${role === 'DEPT_COORDINATOR' ? '' : 'col-span-2 '}bg-slate-800 rounded-2xl px-3 py-3 text-[10px] text-slate-200 font-black outline-none border border-slate-700`}>
+          {(Object.keys(ROLE_DEFINITIONS) as AdminRole[]).map(r => <option key={r} value={r}>{ROLE_DEFINITIONS[r].label}</option>)}
+        </select>
+        {role === 'DEPT_COORDINATOR' && (
+          <select value={branch} onChange={(e) => setBranch(e.target.value)} className="bg-slate-800 rounded-2xl px-3 py-3 text-[10px] text-slate-200 font-black outline-none border border-slate-700">
+            {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+        )}
+      </div>
+      {error && <p className="text-[10px] text-rose-500 font-bold">{error}</p>}
+      <button onClick={handleAdd} disabled={disabled || isHashing || !username.trim() || password.length < MIN_PASSWORD_LENGTH}
+        className="w-full py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">
+        {isHashing ? 'Hashing...' : 'Add Admin'}
+      </button>
+    </div>
+  );
+};
+
+export default AdminAccounts;
@@ -1,20 +1,43 @@
 
-import React, { useState, useRef } from 'react';
-import { AppData } from '../../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AdminAccount, AdminCategory, AppData, Complaint, ComplaintMessage, RecordProvenance } from '../../types';
 import { extractCategoryData, stylizeMapImage } from '../../services/geminiService';
-import { PersistenceService } from '../../services/persistenceService';
+import { PersistenceService, SaveResult } from '../../services/persistenceService';
+import { ConflictChoice, applyResolutions } from '../../services/mergeService';
+import { RecordCollection } from '../../services/mergeService';
+import { StagingDraft, StagingDrafts, StagingStore, checkRecord, createDraft, publishableRecords } from '../../services/stagingService';
+import { changedFields, defaultImportMode, describeRecord, planImport } from '../../services/importService';
+import { LogEntry, appendLog, createLog, hashSource } from '../../services/auditService';
+import { RESTORABLE_KEYS, RestorableKey, SnapshotMeta, Snapshots, restoreFromSnapshot, revertChanges } from '../../services/snapshotService';
+import { BackupBundle, BackupKey, backupFileName } from '../../services/backupService';
+import { IMPORT_FIELDS, SheetGrid, readWorkbook } from '../../services/spreadsheetImporter';
+import { readPdfPages } from '../../services/pdfService';
 import Logo from '../Logo';
-import * as XLSX from 'xlsx';
+import AttendancePolicyEditor from './AttendancePolicyEditor';
+import AdminAccounts from './AdminAccounts';
+import ConflictResolver from './ConflictResolver';
+import QuarantineReport from './QuarantineReport';
+import StagingReview from './StagingReview';
+import UploadHistory from './UploadHistory';
+import SnapshotRestore from './SnapshotRestore';
+import BackupPanel from './BackupPanel';
+import SpreadsheetMapper from './SpreadsheetMapper';
+import RecordBrowser from './RecordBrowser';
+import ComplaintDesk from './ComplaintDesk';
+import ComplaintKeyPanel from './ComplaintKeyPanel';
+import { AdminSession, AuthService } from '../../services/authService';
+import { PINNED_PUBLIC_KEY, approveAccess, createGroupKey, sealExisting, unlockGroupKey, unsealedCount } from '../../services/complaintCrypto';
+import { canAccessCategory, canEditRecord, canManageAccounts, categoryOf, partitionByPermission, scopedBranch, ROLE_DEFINITIONS, getRole } from '../../services/permissionService';
 
 interface AdminPanelProps {
   appData: AppData;
   setAppData: (data: AppData) => void;
+  session: AdminSession;
   onExit: () => void;
 }
 
-type AdminCategory = 'TIMETABLE' | 'SCHOLARSHIP' | 'EVENT' | 'EXAM' | 'INTERNSHIP' | 'CAMPUS_MAP' | 'COMPLAINTS' | 'SYSTEM';
-
 const CATEGORY_MAP: Record<string, { label: string, icon: string, color: string, dataKey?: keyof AppData }> = {
+  ATTENDANCE: { label: 'Attendance', icon: 'fa-chart-pie', color: 'text-emerald-400', dataKey: 'attendance' },
   TIMETABLE: { label: 'Timetable', icon: 'fa-calendar-week', color: 'text-indigo-400', dataKey: 'timetable' },
   SCHOLARSHIP: { label: 'Scholarship', icon: 'fa-graduation-cap', color: 'text-amber-400', dataKey: 'scholarships' },
   EVENT: { label: 'Event Info', icon: 'fa-masks-theater', color: 'text-pink-400', dataKey: 'events' },
@@ -25,55 +48,229 @@ const CATEGORY_MAP: Record<string, { label: string, icon: string, color: string,
   SYSTEM: { label: 'Sync Hub', icon: 'fa-cloud-arrow-up', color: 'text-blue-400' },
 };
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit }) => {
+// The last destructive change, undoable from its snapshot for a few seconds.
+interface UndoAction {
+  label: string;
+  category: AdminCategory;
+  keys: RestorableKey[];
+  snapshot: SnapshotMeta;
+  written: AppData; // what the action wrote; records changed again since are left alone
+}
+
+const UNDO_WINDOW_MS = 10000;
+
+interface UploadOrigin {
+  fileName: string;
+  type: string;
+  hash: string; // SHA-256 of the raw upload
+}
+
+const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, session, onExit }) => {
   const [selectedCategory, setSelectedCategory] = useState<AdminCategory | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [statusMsg, setStatusMsg] = useState('');
   const [manualText, setManualText] = useState('');
   const [inputMode, setInputMode] = useState<'FILE' | 'TEXT'>('FILE');
+  const [pendingConflict, setPendingConflict] = useState<Extract<SaveResult, { status: 'CONFLICT' }> | null>(null);
+  const [drafts, setDrafts] = useState<StagingDrafts>({});
+  const [spreadsheet, setSpreadsheet] = useState<{ category: AdminCategory; fileName: string; type: string; hash: string; sheets: SheetGrid[] } | null>(null);
+  const [undo, setUndo] = useState<UndoAction | null>(null);
+  // Complaint decryption key, held in memory only while the hub is open.
+  const [complaintKey, setComplaintKey] = useState<CryptoKey | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const draftsLoaded = useRef(false);
+  // Log entries are saved after slow work (AI extraction), by which time `appData` may be stale.
+  const appDataRef = useRef(appData);
+  appDataRef.current = appData;
+
+  useEffect(() => {
+    StagingStore.load().then(stored => {
+      draftsLoaded.current = true;
+      setDrafts(stored);
+    });
+  }, []);
+
+  // Persist every change, but not the empty set we start with before the stored drafts are read.
+  useEffect(() => {
+    if (draftsLoaded.current) StagingStore.save(drafts);
+  }, [drafts]);
+
+  useEffect(() => {
+    if (!undo) return;
+    const timer = setTimeout(() => setUndo(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [undo]);
 
-  const performSync = async (newData: AppData) => {
+  // Permissions are read from the live account record so a role change applies on the next sync.
+  const account = appData.adminAccounts.find(a => a.id === session.accountId) || null;
+  const role = getRole(account);
+  const knownStudents = useMemo(() => [...new Set(appData.attendance.map(a => a.student).filter((s): s is string => !!s))], [appData.attendance]);
+  const adminNames = useMemo(() => appData.adminAccounts.map(a => a.username), [appData.adminAccounts]);
+
+  // The document being replaced is snapshotted first; `undoable` offers an undo toast for the touched collections.
+  const performSync = async (
+    newData: AppData,
+    label = 'Sync',
+    undoable?: { category: AdminCategory; keys: RestorableKey[] },
+  ): Promise<SaveResult['status']> => {
     setIsProcessing(true);
     setStatusMsg('Pushing updates to Cloud...');
+    const snapshot = await Snapshots.capture(appData, label);
     setAppData(newData);
-    const success = await PersistenceService.saveData(newData);
-    setStatusMsg(success ? 'SUCCESS: Data Live Globally! 🚀' : 'ERROR: Cloud Bin Unavailable');
+    const result = await PersistenceService.saveData(newData, label);
+    setAppData(result.data);
+    if (result.status === 'CONFLICT') {
+      setPendingConflict(result);
+      setStatusMsg('CONFLICT: Review changes from another admin');
+    } else {
+      setStatusMsg(result.status === 'FAILED' ? 'ERROR: Cloud Bin Unavailable'
+        : result.ignored?.length ? `PARTIAL: Hub refused ${result.ignored.length} change(s) outside your role`
+        : 'SUCCESS: Data Live Globally! 🚀');
+    }
     setIsProcessing(false);
     setTimeout(() => setStatusMsg(''), 4000);
+    setUndo(undoable && result.status !== 'FAILED' ? { label, snapshot, written: newData, ...undoable } : null);
+    return result.status;
+  };
+
+  // Reverts record by record, and only what this admin may edit, so a restore never reaches into other branches.
+  const restoreSnapshot = async (snapshot: AppData, keys: RestorableKey[], label: string, category: AdminCategory = 'SYSTEM', since?: AppData) => {
+    const canEdit = (key: RestorableKey, record: any) => canEditRecord(account, categoryOf(key === 'campusMap' ? 'campusMapImage' : key), record);
+    const { data, reverted, skipped } = revertChanges(appData, snapshot, keys, canEdit, since);
+    if (!reverted) {
+      setStatusMsg(skipped ? `Nothing restored: ${skipped} record(s) changed since or outside your role` : 'Nothing to restore.');
+      return;
+    }
+    await performSync(withLog(data, { action: 'RESTORE', category, counts: { updated: reverted, skipped }, message: `${label}: ${keys.join(', ')}` }), label);
+  };
+
+  const importBackup = async (incoming: AppData, keys: BackupKey[], bundle: BackupBundle) => {
+    // Only account managers may replace the account list, or an import could lock them out.
+    const allowed = keys.filter(k => k !== 'adminAccounts' || canManageAccounts(account));
+    const imported = restoreFromSnapshot(appData, incoming, allowed);
+    await performSync(
+      withLog(imported, { action: 'IMPORT', category: 'SYSTEM', fileName: backupFileName(bundle), counts: { updated: allowed.length }, message: allowed.join(', ') }),
+      `Import backup rev ${bundle.revision}`,
+      { category: 'SYSTEM', keys: RESTORABLE_KEYS.filter(k => allowed.includes(k)) },
+    );
+  };
+
+  const undoLast = async () => {
+    if (!undo) return;
+    setUndo(null);
+    const snapshot = await Snapshots.load(undo.snapshot).catch(() => null);
+    if (!snapshot) {
+      setStatusMsg('Undo unavailable: snapshot missing.');
+      return;
+    }
+    await restoreSnapshot(snapshot, undo.keys, `Undo ${undo.label}`, undo.category, undo.written);
+  };
+
+  const withLog = (data: AppData, entry: LogEntry) => appendLog(data, createLog(session.username, entry));
+
+  // Extraction outcomes change nothing else, so their log entry is saved on its own; the hub merges it by id.
+  // If the save fails the entry stays in the local copy and goes out with the next sync.
+  const saveLog = async (entry: LogEntry) => {
+    const result = await PersistenceService.saveData(withLog(appDataRef.current, entry));
+    setAppData(result.data);
+    if (result.status === 'CONFLICT') {
+      setPendingConflict(result);
+      setStatusMsg('CONFLICT: Review changes from another admin');
+    }
+  };
+
+  const updateDraft = (category: AdminCategory, draft: StagingDraft | null) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      if (draft) next[category] = draft;
+      else delete next[category];
+      return next;
+    });
+  };
+
+  // Re-checks scope (a branch may have been edited during review) and matches rows against live data.
+  const planDraft = (draft: StagingDraft) => {
+    const { allowed, denied } = partitionByPermission(account, draft.category, publishableRecords(draft));
+    const existing = (appData[draft.collection] as any[]) || [];
+    const mode = draft.mode ?? defaultImportMode(draft.collection);
+    return { denied, plan: planImport(draft.collection, existing, allowed, mode, r => canEditRecord(account, draft.category, r)) };
+  };
+
+  const publishDraft = async (draft: StagingDraft) => {
+    if (!canAccessCategory(account, draft.category)) return;
+    const { plan, denied } = planDraft(draft);
+    const allowed = plan.added.length + plan.updated.length;
+    if (!allowed && !plan.removed.length) {
+      setStatusMsg(denied.length ? `All ${denied.length} accepted rows are outside your ${account?.branch} scope.` : 'Nothing to change.');
+      return;
+    }
+    const skipped = draft.rows.length - publishableRecords(draft).length + denied.length;
+    const overwrites = plan.updated.length + plan.removed.length > 0;
+    const status = await performSync(withLog({ ...appData, [draft.collection]: plan.result }, {
+      action: 'PUBLISH', category: draft.category, fileName: draft.source, type: draft.sourceType, sourceHash: draft.sourceHash,
+      counts: { added: plan.added.length, updated: plan.updated.length, removed: plan.removed.length, skipped },
+    }), `Publish ${draft.source}`, overwrites ? { category: draft.category, keys: [draft.collection as RestorableKey] } : undefined);
+    if (status !== 'FAILED') updateDraft(draft.category, null);
+    if (status === 'SAVED' && denied.length) setStatusMsg(`Published ${allowed} rows • Skipped ${denied.length} outside your scope`);
+  };
+
+  const resolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!pendingConflict) return;
+    const resolved = applyResolutions(pendingConflict.data, pendingConflict.conflicts, choices);
+    setPendingConflict(null);
+    await performSync(resolved, 'Resolve conflicts');
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !selectedCategory) return;
+    // Clear the picker so choosing the same file again, e.g. after fixing it, fires another change.
+    e.target.value = '';
+    if (!file || !selectedCategory || !canAccessCategory(account, selectedCategory)) return;
 
     setIsProcessing(true);
     setStatusMsg(`Uploading ${file.name}...`);
 
     const reader = new FileReader();
     const isSpreadsheet = /\.(xlsx|xls|csv)$/i.test(file.name);
+    const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
     const isImage = file.type.startsWith('image/');
 
+    const origin = { fileName: file.name, type: file.type, hash: '' };
+
     reader.onload = async (event) => {
       try {
         let content = '';
         let mime = file.type || 'text/plain';
+        origin.hash = await hashSource(event.target?.result as string | ArrayBuffer);
 
         if (selectedCategory === 'CAMPUS_MAP' && isImage) {
           const base64 = event.target?.result as string;
           setStatusMsg('AI Redrawing Map...');
           const stylized = await stylizeMapImage(base64);
           const updated = { ...appData, campusMapImage: base64, stylizedMapImage: stylized || undefined };
-          await performSync(updated);
+          await performSync(withLog(updated, {
+            action: 'MAP_UPLOAD', category: selectedCategory, fileName: file.name, type: file.type, sourceHash: origin.hash,
+            counts: { updated: 1 }, status: stylized ? 'SUCCESS' : 'PARTIAL', message: stylized ? undefined : 'Stylized map could not be generated',
+          }), 'Campus map upload', { category: selectedCategory, keys: ['campusMap'] });
+          return;
+        }
+
+        if (isPdf) {
+          await processPdf(event.target?.result as ArrayBuffer, origin);
           return;
         }
 
         if (isSpreadsheet) {
-          const data = new Uint8Array(event.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: 'array' });
-          const sheet = workbook.Sheets[workbook.SheetNames[0]];
-          const json = XLSX.utils.sheet_to_json(sheet, { header: 1 });
-          content = JSON.stringify(json, null, 2);
+          const sheets = readWorkbook(event.target?.result as ArrayBuffer);
+          if (!sheets.length) throw new Error('Empty workbook');
+          // Categories with known columns are mapped locally; the rest still go through the model.
+          if (IMPORT_FIELDS[selectedCategory]) {
+            setSpreadsheet({ category: selectedCategory, fileName: file.name, type: file.type, hash: origin.hash, sheets });
+            setStatusMsg(`${file.name}: map columns to import`);
+            setIsProcessing(false);
+            return;
+          }
+          content = sheetsToJson(sheets);
           mime = 'application/json';
         } else if (isImage) {
           content = event.target?.result as string;
@@ -81,15 +278,23 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
           content = event.target?.result as string;
         }
 
-        await processAndSave(content, mime);
+        await processAndSave(content, mime, origin);
       } catch (err) {
         console.error("Reader Error:", err);
         setStatusMsg('Fail: Invalid File Type');
         setIsProcessing(false);
+        saveLog({ action: 'EXTRACT', category: selectedCategory, fileName: file.name, type: file.type, sourceHash: origin.hash, status: 'FAILED', message: 'Unreadable file' });
       }
     };
 
-    if (isSpreadsheet) reader.readAsArrayBuffer(file);
+    reader.onerror = () => {
+      console.error("Reader Error:", reader.error);
+      setStatusMsg(`Fail: Could not read ${file.name}`);
+      setIsProcessing(false);
+      saveLog({ action: 'EXTRACT', category: selectedCategory, fileName: file.name, type: file.type, sourceHash: '', status: 'FAILED', message: 'File could not be read' });
+    };
+
+    if (isSpreadsheet || isPdf) reader.readAsArrayBuffer(file);
     else if (isImage) reader.readAsDataURL(file);
     else reader.readAsText(file);
   };
@@ -98,50 +303,279 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
     if (!manualText.trim() || !selectedCategory) return;
     setIsProcessing(true);
     setStatusMsg('AI Parsing Text...');
-    await processAndSave(manualText, 'text/plain');
+    await processAndSave(manualText, 'text/plain', { fileName: 'Manual text', type: 'text/plain', hash: await hashSource(manualText) });
     setManualText('');
   };
 
-  const processAndSave = async (content: string, mime: string) => {
+  const sheetsToJson = (sheets: SheetGrid[]) => JSON.stringify(Object.fromEntries(sheets.map(s => [s.name, s.rows])), null, 2);
+
+  // Rows go to a staging draft for review; nothing is broadcast until the admin publishes.
+  const stageRecords = (category: AdminCategory, records: any[], origin: UploadOrigin, emptyMsg: string, note = '') => {
+    const key = CATEGORY_MAP[category].dataKey;
+    const { allowed, denied } = partitionByPermission(account, category, records);
+    const skipped = denied.length
+      ? `${denied.slice(0, 3).map(describeRecord).join(', ')}${denied.length > 3 ? ` +${denied.length - 3} more` : ''}`
+      : '';
+
+    let message: string;
+    if (allowed.length && key) {
+      updateDraft(category, { ...createDraft(category, key as RecordCollection, origin.fileName, allowed), sourceType: origin.type, sourceHash: origin.hash });
+      message = `${allowed.length} rows staged for review${denied.length ? ` • Skipped ${denied.length} outside your scope: ${skipped}` : ''}`;
+    } else if (denied.length) {
+      message = `All ${denied.length} rows are outside your ${account?.branch} scope: ${skipped}`;
+    } else {
+      message = emptyMsg;
+    }
+    if (note && message !== note) message = `${message} • ${note}`;
+    setStatusMsg(message);
+    saveLog({
+      action: 'EXTRACT', category, fileName: origin.fileName, type: origin.type, sourceHash: origin.hash,
+      // Staged rows aren't live yet; the PUBLISH entry counts what actually goes out.
+      counts: { skipped: denied.length }, message, status: allowed.length && key ? 'STAGED' : 'FAILED',
+    });
+  };
+
+  const importSpreadsheet = (records: any[], source: string) => {
+    if (!spreadsheet) return;
+    const { category, type, hash } = spreadsheet;
+    stageRecords(category, records, { fileName: source, type, hash }, 'No rows found under the header. Check the mapping.');
+    setSpreadsheet(null);
+  };
+
+  const extractSpreadsheetWithAI = async () => {
+    if (!spreadsheet) return;
+    const { fileName, type, hash, sheets } = spreadsheet;
+    setSpreadsheet(null);
+    setIsProcessing(true);
+    setStatusMsg('AI Parsing Spreadsheet...');
+    await processAndSave(sheetsToJson(sheets), 'application/json', { fileName, type, hash });
+  };
+
+  // Each page is extracted on its own so every record can point back to the page it came from.
+  const processPdf = async (data: ArrayBuffer, origin: UploadOrigin) => {
+    if (!selectedCategory || !canAccessCategory(account, selectedCategory)) return;
+    const category = selectedCategory;
+    const { fileName } = origin;
     try {
-      if (!selectedCategory) return;
-      const extracted = await extractCategoryData(selectedCategory, content, mime);
-      
-      if (extracted?.length) {
-        const key = CATEGORY_MAP[selectedCategory].dataKey;
-        if (key) {
-          const updated = { 
-            ...appData, 
-            [key]: [...(appData[key] as any[]), ...extracted] 
-          };
-          await performSync(updated);
+      setStatusMsg('Reading PDF...');
+      const { pages, pageCount } = await readPdfPages(data);
+      const records: any[] = [];
+      const failedPages: number[] = [];
+      // One unreadable page shouldn't cost the rest; stage what was read and name the pages that weren't.
+      for (const page of pages) {
+        setStatusMsg(`AI Reading page ${page.page}/${pages.length}${page.method === 'SCANNED' ? ' (scanned)' : ''}...`);
+        try {
+          const extracted = await extractCategoryData(category, page.content, page.mimeType);
+          const provenance: RecordProvenance = { fileName, page: page.page, method: page.method };
+          records.push(...extracted.map((record: any) => ({ ...record, provenance })));
+        } catch (e) {
+          console.error(`PDF page ${page.page} failed:`, e);
+          failedPages.push(page.page);
         }
-      } else {
-        setStatusMsg('AI found no records. Check file content.');
-        setIsProcessing(false);
       }
+      const source = pageCount > pages.length ? `${fileName} (first ${pages.length} of ${pageCount} pages)` : fileName;
+      const note = failedPages.length ? `Could not read page${failedPages.length > 1 ? 's' : ''} ${failedPages.join(', ')}` : '';
+      stageRecords(category, records, { ...origin, fileName: source }, note || 'AI found no records in this PDF.', note);
+    } catch (e) {
+      console.error("PDF Error:", e);
+      setStatusMsg('Could not read this PDF.');
+      saveLog({ action: 'EXTRACT', category, fileName, type: origin.type, sourceHash: origin.hash, status: 'FAILED', message: 'Could not read this PDF' });
+    }
+    setIsProcessing(false);
+  };
+
+  const processAndSave = async (content: string, mime: string, origin: UploadOrigin) => {
+    if (!selectedCategory || !canAccessCategory(account, selectedCategory)) return;
+    try {
+      const extracted = await extractCategoryData(selectedCategory, content, mime);
+      stageRecords(selectedCategory, extracted, origin, 'AI found no records. Check file content.');
+      setIsProcessing(false);
     } catch (e) {
       console.error("Processing Error:", e);
       setStatusMsg('AI failed to parse content.');
       setIsProcessing(false);
+      saveLog({ action: 'EXTRACT', category: selectedCategory, fileName: origin.fileName, type: origin.type, sourceHash: origin.hash, status: 'FAILED', message: 'AI failed to parse content' });
     }
   };
 
   const deleteItem = async (category: AdminCategory, id: string) => {
     const key = CATEGORY_MAP[category].dataKey;
     if (!key) return;
+    const target = (appData[key] as any[]).find(i => i.id === id);
+    if (!target || !canEditRecord(account, category, target)) {
+      setStatusMsg('Not permitted for your role.');
+      return;
+    }
     const updated = { ...appData, [key]: (appData[key] as any[]).filter(i => i.id !== id) };
-    await performSync(updated);
+    const label = `Delete ${describeRecord(target)}`;
+    await performSync(withLog(updated, { action: 'DELETE', category, fileName: describeRecord(target), counts: { removed: 1 } }), label, { category, keys: [key as RestorableKey] });
+  };
+
+  const saveEdit = async (category: AdminCategory, edited: any) => {
+    const key = CATEGORY_MAP[category].dataKey;
+    if (!key) return false;
+    const original = (appData[key] as any[]).find(i => i.id === edited.id);
+    // Both sides are checked so a scoped admin can't move a record out of their branch.
+    if (!original || !canEditRecord(account, category, original) || !canEditRecord(account, category, edited)) {
+      setStatusMsg('Not permitted for your role.');
+      return false;
+    }
+    const updated = { ...appData, [key]: (appData[key] as any[]).map(i => (i.id === edited.id ? edited : i)) };
+    const label = `Edit ${describeRecord(edited)}`;
+    const status = await performSync(
+      withLog(updated, { action: 'EDIT', category, fileName: describeRecord(edited), counts: { updated: 1 }, message: changedFields(original, edited).join(', ') }),
+      label,
+      { category, keys: [key as RestorableKey] },
+    );
+    return status !== 'FAILED';
+  };
+
+  const bulkDelete = async (category: AdminCategory, ids: string[]) => {
+    const key = CATEGORY_MAP[category].dataKey;
+    if (!key) return;
+    const doomed = new Set(ids);
+    const kept = (appData[key] as any[]).filter(i => !doomed.has(i.id) || !canEditRecord(account, category, i));
+    const removed = (appData[key] as any[]).length - kept.length;
+    await performSync(
+      withLog({ ...appData, [key]: kept }, { action: 'DELETE', category, fileName: `${removed} selected record(s)`, counts: { removed, skipped: ids.length - removed } }),
+      `Delete ${removed} ${CATEGORY_MAP[category].label} record(s)`,
+      { category, keys: [key as RestorableKey] },
+    );
+  };
+
+  // Each record is re-checked after the change; ones that would become invalid or leave the admin's scope are skipped.
+  const bulkEdit = async (category: AdminCategory, ids: string[], field: string, value: any) => {
+    const key = CATEGORY_MAP[category].dataKey;
+    if (!key) return;
+    const targets = new Set(ids);
+    let updatedCount = 0;
+    const records = (appData[key] as any[]).map(i => {
+      if (!targets.has(i.id) || !canEditRecord(account, category, i)) return i;
+      const { record, issues } = checkRecord({ category, collection: key as RecordCollection }, { ...i, [field]: value });
+      if (issues.length || !canEditRecord(account, category, record) || !changedFields(i, record).length) return i;
+      updatedCount++;
+      return record;
+    });
+    const skipped = ids.length - updatedCount;
+    if (!updatedCount) {
+      setStatusMsg(`Nothing to change: ${skipped} record(s) skipped.`);
+      return;
+    }
+    await performSync(
+      withLog({ ...appData, [key]: records }, { action: 'EDIT', category, fileName: `${ids.length} selected record(s)`, counts: { updated: updatedCount, skipped }, message: `${field} = ${value}` }),
+      `Set ${field} on ${updatedCount} record(s)`,
+      { category, keys: [key as RestorableKey] },
+    );
+  };
+
+  const saveComplaints = async (updated: Complaint[], label: string) => {
+    const byId = new Map(updated.map(c => [c.id, c]));
+    await performSync({ ...appData, complaints: appData.complaints.map(c => byId.get(c.id) ?? c) }, label);
+  };
+
+  const sendComplaintMessage = async (message: ComplaintMessage) => {
+    await performSync({ ...appData, complaintMessages: [...appData.complaintMessages, message] }, 'Complaint question');
+  };
+
+  // The thread goes with the complaint; undo brings both back.
+  const deleteComplaint = async (id: string) => {
+    await performSync(
+      withLog(
+        { ...appData, complaints: appData.complaints.filter(c => c.id !== id), complaintMessages: appData.complaintMessages.filter(m => m.complaintId !== id) },
+        { action: 'DELETE', category: 'COMPLAINTS', fileName: `Complaint ${id}`, counts: { removed: 1 } },
+      ),
+      'Delete complaint',
+      { category: 'COMPLAINTS', keys: ['complaints', 'complaintMessages'] },
+    );
+  };
+
+  const checkPassword = async (password: string) => {
+    if (!account || !(await AuthService.verifyPassword(account, password))) throw new Error('Wrong password');
+    return account;
+  };
+
+  const withAccount = (data: AppData, updated: AdminAccount) =>
+    ({ ...data, adminAccounts: data.adminAccounts.map(a => (a.id === updated.id ? updated : a)) });
+
+  const setupComplaintKey = async (password: string) => {
+    const self = await checkPassword(password);
+    const { publicKey, wrap, privateKey } = await createGroupKey(password);
+    const sealed = await sealExisting(appData, publicKey);
+    const status = await performSync(
+      withLog(
+        withAccount({ ...appData, ...sealed, complaintPublicKey: publicKey }, { ...self, complaintKeyWrap: wrap }),
+        { action: 'EDIT', category: 'COMPLAINTS', fileName: 'Complaint encryption', counts: { updated: unsealedCount(appData) }, message: 'Encryption enabled' },
+      ),
+      'Enable complaint encryption',
+    );
+    if (status === 'FAILED') throw new Error('Could not reach the hub; encryption is still off');
+    setComplaintKey(privateKey);
+    return sealSnapshots(publicKey);
+  };
+
+  // Older snapshots still hold what was just sealed; re-seal this device's and drop the hub's.
+  const sealSnapshots = async (publicKey: string) => {
+    const { hub } = await Snapshots.sealReadable(publicKey);
+    if (hub === null && PersistenceService.backend.purgeReadableSnapshots) return 'The hub kept its older snapshots, which may hold readable complaints. Try Encrypt snapshots again.';
+  };
+
+  const unlockComplaints = async (password: string) => {
+    const self = await checkPassword(password);
+    const result = await unlockGroupKey(self, password);
+    if (result.status === 'WAITING') return 'Still waiting for another admin to approve your access.';
+    // A redeemed grant or a new request changes the account, which has to reach the hub.
+    if (result.account !== self) await performSync(withAccount(appData, result.account), 'Complaint key access');
+    if (result.status === 'REQUESTED') return 'Access requested. Ask an admin who can read complaints to approve it.';
+    setComplaintKey(result.key);
+  };
+
+  const approveComplaintAccess = async (requester: AdminAccount, code: string) => {
+    if (!complaintKey || !requester.complaintAccessRequest) return;
+    const grant = await approveAccess(complaintKey, requester.complaintAccessRequest, code);
+    await performSync(withAccount(appData, { ...requester, complaintAccessGrant: grant }), `Complaint access for ${requester.username}`);
+  };
+
+  const sealExistingComplaints = async () => {
+    const publicKey = appData.complaintPublicKey;
+    if (!publicKey) return;
+    const count = unsealedCount(appData);
+    if (count) {
+      const status = await performSync(
+        withLog({ ...appData, ...(await sealExisting(appData, publicKey)) },
+          { action: 'EDIT', category: 'COMPLAINTS', fileName: 'Complaint encryption', counts: { updated: count }, message: 'Encrypted readable complaints' }),
+        'Encrypt complaints',
+      );
+      if (status === 'FAILED') throw new Error('Could not reach the hub; the complaints are still readable');
+    }
+    return sealSnapshots(publicKey);
   };
 
   const clearSection = async (category: AdminCategory) => {
     const key = CATEGORY_MAP[category].dataKey;
-    if (!key || !confirm(`Delete all data in ${CATEGORY_MAP[category].label}?`)) return;
-    const updated = { ...appData, [key]: [] };
-    await performSync(updated);
+    if (!key || !canAccessCategory(account, category)) return;
+    const branch = scopedBranch(account);
+    const scopeLabel = branch ? `${branch} records in ${CATEGORY_MAP[category].label}` : `all data in ${CATEGORY_MAP[category].label}`;
+    if (!confirm(`Delete ${scopeLabel}?`)) return;
+    // Scoped roles only clear what they could have deleted one by one.
+    const kept = (appData[key] as any[]).filter(i => !canEditRecord(account, category, i));
+    const removed = (appData[key] as any[]).length - kept.length;
+    await performSync(
+      withLog({ ...appData, [key]: kept }, { action: 'CLEAR', category, counts: { removed }, status: 'SUCCESS', message: scopeLabel }),
+      `Reset ${CATEGORY_MAP[category].label}`,
+      { category, keys: [key as RestorableKey] },
+    );
   };
 
   const renderView = (catKey: AdminCategory) => {
+    if (!canAccessCategory(account, catKey)) {
+      return (
+        <div className="space-y-6 animate-fadeIn">
+          <button onClick={() => setSelectedCategory(null)} className="w-12 h-12 rounded-2xl bg-slate-900 flex items-center justify-center text-blue-500 border border-slate-800"><i className="fa-solid fa-chevron-left"></i></button>
+          <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-600 font-black uppercase tracking-widest">Not available for your role</div>
+        </div>
+      );
+    }
+
     if (catKey === 'SYSTEM') {
       return (
         <div className="space-y-6 animate-fadeIn">
@@ -149,16 +583,72 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
           <div className="bg-slate-900 p-8 rounded-[3rem] text-center border border-slate-800 shadow-2xl">
             <h3 className="text-xl font-black text-white uppercase mb-4 tracking-tighter">Campus Sync Engine</h3>
             <p className="text-[10px] text-slate-500 font-bold uppercase mb-8 leading-relaxed">Broadcast local changes to every student device globally.</p>
-            <button onClick={() => performSync(appData)} disabled={isProcessing} className="w-full py-6 bg-blue-600 rounded-[2rem] font-black uppercase tracking-widest text-white shadow-xl shadow-blue-600/20 active:scale-95 transition-all">
+            <button onClick={() => performSync(appData, 'Force refresh')} disabled={isProcessing} className="w-full py-6 bg-blue-600 rounded-[2rem] font-black uppercase tracking-widest text-white shadow-xl shadow-blue-600/20 active:scale-95 transition-all">
               {isProcessing ? 'Syncing...' : 'Force Global Refresh'}
             </button>
           </div>
+          <SnapshotRestore
+            current={appData}
+            disabled={isProcessing}
+            onRestore={(snapshot, keys, meta) => restoreSnapshot(snapshot, keys, `Restore to before ${meta.label}`)}
+          />
+          <BackupPanel data={appData} exportedBy={session.username} disabled={isProcessing} onImport={importBackup} />
+          <UploadHistory logs={appData.uploadLogs} />
+          <QuarantineReport
+            records={appData.quarantine}
+            disabled={isProcessing}
+            onSave={(quarantine) => performSync({ ...appData, quarantine }, 'Quarantine review')}
+          />
+          {canManageAccounts(account) && (
+            <AdminAccounts
+              accounts={appData.adminAccounts}
+              session={session}
+              complaintKey={complaintKey}
+              disabled={isProcessing}
+              onSave={async (adminAccounts) => { await performSync({ ...appData, adminAccounts }, 'Admin accounts'); }}
+            />
+          )}
+        </div>
+      );
+    }
+
+    if (catKey === 'COMPLAINTS') {
+      return (
+        <div className="space-y-6 animate-fadeIn">
+          <button onClick={() => setSelectedCategory(null)} className="w-12 h-12 rounded-2xl bg-slate-900 flex items-center justify-center text-blue-500 border border-slate-800"><i className="fa-solid fa-chevron-left"></i></button>
+          <ComplaintKeyPanel
+            publicKey={appData.complaintPublicKey}
+            pinnedKey={PINNED_PUBLIC_KEY}
+            account={account}
+            accounts={appData.adminAccounts}
+            unlocked={!!complaintKey}
+            unsealed={unsealedCount(appData)}
+            disabled={isProcessing}
+            onSetup={setupComplaintKey}
+            onUnlock={unlockComplaints}
+            onLock={() => setComplaintKey(null)}
+            onApprove={approveComplaintAccess}
+            onSealExisting={sealExistingComplaints}
+          />
+          <ComplaintDesk
+            complaints={appData.complaints}
+            publicKey={appData.complaintPublicKey}
+            groupKey={complaintKey}
+            messages={appData.complaintMessages}
+            actor={session.username}
+            staff={adminNames}
+            knownStudents={knownStudents}
+            disabled={isProcessing}
+            onSave={saveComplaints}
+            onDelete={deleteComplaint}
+            onMessage={sendComplaintMessage}
+          />
         </div>
       );
     }
 
     const cat = CATEGORY_MAP[catKey];
-    const items = cat.dataKey ? (appData[cat.dataKey] as any[]) : [];
+    const items = cat.dataKey ? (appData[cat.dataKey] as any[]).filter(i => canEditRecord(account, catKey, i)) : [];
 
     return (
       <div className="space-y-6">
@@ -173,11 +663,30 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
           <button onClick={() => setInputMode('TEXT')} className={`flex-1 py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest transition-all ${inputMode === 'TEXT' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500'}`}>Manual Text</button>
         </div>
         
-        {inputMode === 'FILE' ? (
+        {drafts[catKey] ? (
+          <StagingReview
+            draft={drafts[catKey]!}
+            plan={planDraft(drafts[catKey]!).plan}
+            disabled={isProcessing}
+            onChange={(draft) => updateDraft(catKey, draft)}
+            onDiscard={() => updateDraft(catKey, null)}
+            onPublish={() => publishDraft(drafts[catKey]!)}
+          />
+        ) : spreadsheet?.category === catKey ? (
+          <SpreadsheetMapper
+            category={catKey}
+            fileName={spreadsheet.fileName}
+            sheets={spreadsheet.sheets}
+            disabled={isProcessing}
+            onImport={importSpreadsheet}
+            onUseAI={extractSpreadsheetWithAI}
+            onCancel={() => setSpreadsheet(null)}
+          />
+        ) : inputMode === 'FILE' ? (
           <div className="bg-slate-900 border-4 border-slate-800 border-dashed rounded-[3.5rem] p-12 text-center group cursor-pointer hover:border-blue-600/50 transition-colors">
             <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} accept=".txt,.xlsx,.xls,.csv,.pdf,image/*" />
             <button onClick={() => fileInputRef.current?.click()} className="w-20 h-20 rounded-3xl bg-blue-600/10 text-blue-500 flex items-center justify-center mx-auto mb-6 group-hover:scale-110 transition-transform"><i className="fa-solid fa-file-export text-4xl"></i></button>
-            <p className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">Deploy Spreadsheet or Image</p>
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">Deploy Spreadsheet, PDF or Image</p>
           </div>
         ) : (
           <div className="bg-slate-900 border border-slate-800 rounded-[3rem] p-6 space-y-4 shadow-xl">
@@ -191,24 +700,28 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
           </div>
         )}
 
-        <div className="space-y-3">
-          <h4 className="text-[10px] font-black text-slate-600 uppercase px-6 tracking-widest">Active Records ({items.length})</h4>
-          <div className="space-y-2 max-h-[40vh] overflow-y-auto no-scrollbar pb-10">
-            {items.length === 0 ? (
-              <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">Database Clear</div>
-            ) : (
-              items.map((item: any) => (
-                <div key={item.id} className="bg-slate-900/50 p-6 rounded-[2.5rem] border border-slate-800 flex justify-between items-center group hover:bg-slate-900 transition-colors">
-                  <div className="flex flex-col">
-                    <span className="text-[11px] font-black text-slate-300 uppercase truncate pr-4">{item.subject || item.name || item.title || item.day}</span>
-                    <span className="text-[8px] font-bold text-slate-600 uppercase mt-1 tracking-widest">{item.branch || item.category || 'GLOBAL'} • {item.year || 'ALL'}</span>
-                  </div>
-                  <button onClick={() => deleteItem(catKey, item.id)} className="w-10 h-10 rounded-xl bg-rose-500/10 text-rose-500 hover:bg-rose-500 hover:text-white transition-all"><i className="fa-solid fa-trash-can text-sm"></i></button>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
+        {catKey === 'ATTENDANCE' && (
+          <AttendancePolicyEditor
+            policies={appData.attendancePolicies}
+            lockedBranch={scopedBranch(account)}
+            disabled={isProcessing}
+            onSave={(attendancePolicies) => performSync({ ...appData, attendancePolicies }, 'Attendance policies')}
+          />
+        )}
+
+        {cat.dataKey && (
+          <RecordBrowser
+            key={catKey}
+            category={catKey}
+            collection={cat.dataKey as RecordCollection}
+            records={items}
+            disabled={isProcessing}
+            onDelete={(id) => deleteItem(catKey, id)}
+            onSaveEdit={(record) => saveEdit(catKey, record)}
+            onBulkDelete={(ids) => bulkDelete(catKey, ids)}
+            onBulkEdit={(ids, field, value) => bulkEdit(catKey, ids, field, value)}
+          />
+        )}
       </div>
     );
   };
@@ -220,7 +733,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
           <Logo className="w-14 h-14" />
           <div className="flex flex-col">
             <h1 className="text-xl font-black text-blue-500 tracking-tighter uppercase leading-none">Master Hub</h1>
-            <span className="text-[9px] font-bold text-slate-600 uppercase mt-1">Admin Privilege</span>
+            <span className="text-[9px] font-bold text-slate-600 uppercase mt-1">
+              {session.username} • {role ? ROLE_DEFINITIONS[role].label : 'No Access'}{account?.branch ? ` • ${account.branch}` : ''}
+            </span>
           </div>
         </div>
         <button onClick={onExit} className="bg-slate-900 w-12 h-12 rounded-2xl flex items-center justify-center text-rose-500 border border-slate-800 active:scale-90 transition-all"><i className="fa-solid fa-power-off"></i></button>
@@ -229,16 +744,19 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
       <main className="flex-1 p-8 overflow-y-auto no-scrollbar pb-32">
         {selectedCategory ? renderView(selectedCategory) : (
           <div className="space-y-6">
-            <button onClick={() => setSelectedCategory('SYSTEM')} className="w-full bg-gradient-to-br from-blue-600 to-indigo-900 p-12 rounded-[4rem] text-left relative overflow-hidden group shadow-2xl active:scale-95 transition-all">
+            {canAccessCategory(account, 'SYSTEM') && <button onClick={() => setSelectedCategory('SYSTEM')} className="w-full bg-gradient-to-br from-blue-600 to-indigo-900 p-12 rounded-[4rem] text-left relative overflow-hidden group shadow-2xl active:scale-95 transition-all">
               <div className="relative z-10">
                 <p className="text-blue-200 text-[10px] font-black uppercase tracking-[0.2em] mb-3">Live Network</p>
+                {appData.quarantine.length > 0 && (
+                  <span className="inline-block mb-3 text-[9px] font-black text-amber-300 bg-amber-500/20 px-3 py-1 rounded-full uppercase tracking-widest">{appData.quarantine.length} record(s) quarantined</span>
+                )}
                 <h2 className="text-4xl font-black text-white tracking-tighter leading-none">Broadcast<br/>Campus Sync</h2>
               </div>
               <i className="fa-solid fa-satellite-dish absolute -right-6 -bottom-6 text-[10rem] text-white/10 rotate-12 group-hover:scale-110 transition-transform"></i>
-            </button>
+            </button>}
             
             <div className="grid grid-cols-2 gap-5">
-              {(Object.keys(CATEGORY_MAP).filter(k => k !== 'SYSTEM') as AdminCategory[]).map(key => (
+              {(Object.keys(CATEGORY_MAP).filter(k => k !== 'SYSTEM' && canAccessCategory(account, k as AdminCategory)) as AdminCategory[]).map(key => (
                 <button key={key} onClick={() => setSelectedCategory(key)} className="bg-slate-900/40 backdrop-blur-md border border-slate-800 p-10 rounded-[3.5rem] flex flex-col items-center justify-center group hover:bg-slate-900 transition-all active:scale-95 shadow-xl">
                   <div className="w-16 h-16 rounded-3xl bg-slate-800 flex items-center justify-center mb-5 group-hover:bg-blue-600/10 transition-colors shadow-inner"><i className={`fa-solid ${CATEGORY_MAP[key].icon} text-2xl ${CATEGORY_MAP[key].color}`}></i></div>
                   <span className="text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 group-hover:text-white transition-colors">{CATEGORY_MAP[key].label}</span>
@@ -249,6 +767,18 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ appData, setAppData, onExit })
         )}
       </main>
       
+      {pendingConflict && (
+        <ConflictResolver conflicts={pendingConflict.conflicts} isProcessing={isProcessing} onResolve={resolveConflict} />
+      )}
+
+      {undo && !isProcessing && (
+        <div className="fixed bottom-32 left-1/2 -translate-x-1/2 w-[calc(100%-4rem)] max-w-md bg-slate-900 border border-slate-700 px-6 py-4 rounded-[2rem] shadow-2xl z-[100] flex items-center gap-4">
+          <span className="flex-1 text-[10px] font-black text-slate-300 uppercase tracking-widest truncate">{undo.label}</span>
+          <button onClick={undoLast} className="shrink-0 text-[10px] font-black text-amber-400 uppercase tracking-widest px-4 py-2 bg-amber-500/10 rounded-full">Undo</button>
+          <button onClick={() => setUndo(null)} className="shrink-0 text-slate-500"><i className="fa-solid fa-xmark"></i></button>
+        </div>
+      )}
+
       {statusMsg && (
         <div className="fixed bottom-12 left-1/2 -translate-x-1/2 bg-blue-600 text-white px-10 py-5 rounded-full font-black text-[11px] uppercase tracking-[0.2em] shadow-2xl z-[100] animate-bounce text-center border-4 border-white/20">
           {statusMsg}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AttendancePolicy } from '../../types';
+import { BRANCHES, YEARS, DEFAULT_ATTENDANCE_THRESHOLD } from '../../constants';
+
+interface AttendancePolicyEditorProps {
+  policies: AttendancePolicy[];
+  lockedBranch?: string | null; // coordinators may only set policies for their own branch
+  disabled?: boolean;
+  onSave: (policies: AttendancePolicy[]) => void;
+}
+
+const AttendancePolicyEditor: React.FC<AttendancePolicyEditorProps> = ({ policies, lockedBranch = null, disabled, onSave }) => {
+  const [subject, setSubject] = useState('');
+  const [branch, setBranch] = useState(lockedBranch ?? '');
+  const [year, setYear] = useState('');
+  const [threshold, setThreshold] = useState(String(DEFAULT_ATTENDANCE_THRESHOLD));
+
+  const visiblePolicies = lockedBranch !== null ? policies.filter(p => p.branch === lockedBranch) : policies;
+  const parsedThreshold = Number(threshold);
+  const isValid = subject.trim() && Number.isFinite(parsedThreshold) && parsedThreshold > 0 && parsedThreshold <= 100;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    const rest = policies.filter(p => !(p.subject.toLowerCase() === subject.trim().toLowerCase() && p.branch === branch && p.year === year));
+    onSave([...rest, { id: Math.random().toString(36).substr(2, 9), subject: subject.trim(), branch, year, threshold: parsedThreshold }]);
+    setSubject('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-[3rem] p-6 space-y-4 shadow-xl">
+      <div className="flex items-center justify-between px-2">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Attendance Policy</h4>
+        <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">Default {DEFAULT_ATTENDANCE_THRESHOLD}%</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="Subject"
+          className="col-span-2 bg-slate-800 rounded-2xl px-4 py-3 text-xs text-slate-200 outline-none border border-slate-700 focus:border-blue-500 font-bold" />
+        <select value={branch} onChange={(e) => setBranch(e.target.value)} disabled={lockedBranch !== null} className="bg-slate-800 rounded-2xl px-3 py-3 text-[10px] text-slate-200 font-black outline-none border border-slate-700">
+          <option value="">All Branches</option>
+          {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
+        </select>
+        <select value={year} onChange={(e) => setYear(e.target.value)} className="bg-slate-800 rounded-2xl px-3 py-3 text-[10px] text-slate-200 font-black outline-none border border-slate-700">
+          <option value="">All Years</option>
+          {YEARS.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <input type="number" min={1} max={100} value={threshold} onChange={(e) => setThreshold(e.target.value)}
+          className="bg-slate-800 rounded-2xl px-4 py-3 text-xs text-slate-200 outline-none border border-slate-700 focus:border-blue-500 font-bold" />
+        <button onClick={handleAdd} disabled={!isValid || disabled} className="bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50">Set Minimum</button>
+      </div>
+
+      {visiblePolicies.length > 0 && (
+        <div className="space-y-2">
+          {visiblePolicies.map(p => (
+            <div key={p.id} className="flex items-center justify-between bg-slate-800/50 rounded-2xl px-4 py-3">
+              <div className="flex flex-col">
+                <span className="text-[11px] font-black text-slate-300 uppercase">{p.subject} • {p.threshold}%</span>
+                <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{p.branch || 'All Branches'} • {p.year || 'All Years'}</span>
+              </div>
+              <button onClick={() => onSave(policies.filter(x => x.id !== p.id))} disabled={disabled} className="w-8 h-8 rounded-xl bg-rose-500/10 text-rose-500 hover:bg-rose-500 hover:text-white transition-all"><i className="fa-solid fa-xmark text-xs"></i></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttendancePolicyEditor;
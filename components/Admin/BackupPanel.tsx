@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { AppData } from '../../types';
+import { BackupBundle, BackupKey, MIN_PASSPHRASE_LENGTH, backupFileName, createBackup, readBackup, summarizeBackup } from '../../services/backupService';
+import { DATASET_LABELS } from '../../services/snapshotService';
+import { downloadFile } from '../../services/downloadService';
+
+interface BackupPanelProps {
+  data: AppData;
+  exportedBy: string;
+  disabled?: boolean;
+  onImport: (incoming: AppData, keys: BackupKey[], bundle: BackupBundle) => Promise<void>;
+}
+
+// Overwriting these is rarely what a restore means; the admin has to opt in.
+const OPT_IN_KEYS: BackupKey[] = ['adminAccounts', 'uploadLogs'];
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ data, exportedBy, disabled, onImport }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [includeImages, setIncludeImages] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [loaded, setLoaded] = useState<{ bundle: BackupBundle; data: AppData; quarantined: number } | null>(null);
+  const [keys, setKeys] = useState<Set<BackupKey>>(new Set());
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const inputClass = 'w-full bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold';
+
+  const handleExport = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const bundle = await createBackup(data, { passphrase, includeImages, exportedBy });
+      downloadFile(JSON.stringify(bundle), 'application/json', backupFileName(bundle));
+      setMessage('Backup downloaded. Keep the passphrase: it is needed to import.');
+    } catch (e) {
+      setMessage(e instanceof Error && e.message ? e.message : 'Export failed');
+    }
+    setBusy(false);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    setMessage('');
+    try {
+      const result = await readBackup(await file.text(), passphrase);
+      setLoaded(result);
+      setKeys(new Set(summarizeBackup(data, result.data, result.bundle.includesImages)
+        .filter(row => row.incoming > 0 && !OPT_IN_KEYS.includes(row.key))
+        .map(row => row.key)));
+    } catch (err) {
+      setMessage(err instanceof Error && err.message ? err.message : 'Could not read backup');
+    }
+    setBusy(false);
+  };
+
+  const toggle = (key: BackupKey) => setKeys(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const handleImport = async () => {
+    if (!loaded || !keys.size) return;
+    if (!confirm(`Overwrite ${keys.size} section(s) for everyone with the backup's contents?`)) return;
+    await onImport(loaded.data, [...keys], loaded.bundle);
+    setLoaded(null);
+  };
+
+  if (loaded) {
+    const { bundle } = loaded;
+    const rows = summarizeBackup(data, loaded.data, bundle.includesImages);
+    return (
+      <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h4 className="text-sm font-black text-white uppercase tracking-tighter">Verified Backup</h4>
+            <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+              rev {bundle.revision} • {new Date(bundle.exportedAt).toLocaleString()} • by {bundle.exportedBy || 'unknown'} • schema v{bundle.schemaVersion}
+            </p>
+          </div>
+          <button onClick={() => setLoaded(null)} className="shrink-0 text-[9px] font-black text-slate-400 uppercase px-3 py-1 bg-slate-800 rounded-full">Cancel</button>
+        </div>
+        {loaded.quarantined > 0 && (
+          <p className="text-[9px] text-amber-400 font-bold">{loaded.quarantined} invalid record(s) in the backup will go to quarantine.</p>
+        )}
+        {!bundle.includesImages && <p className="text-[9px] text-slate-500 font-bold">Exported without images; the campus map stays as it is.</p>}
+
+        <div className="space-y-2">
+          {rows.map(row => (
+            <label key={row.key} className={`flex items-center gap-3 p-3 rounded-2xl border ${keys.has(row.key) ? 'border-blue-600/60 bg-blue-600/10' : 'border-slate-800 bg-slate-800/40'}`}>
+              <input type="checkbox" checked={keys.has(row.key)} onChange={() => toggle(row.key)} />
+              <span className="flex-1 text-[10px] font-black text-slate-300 uppercase tracking-widest">
+                {DATASET_LABELS[row.key]}
+                {OPT_IN_KEYS.includes(row.key) && <span className="ml-2 text-[8px] text-amber-400">opt-in</span>}
+              </span>
+              <span className="text-[9px] font-bold text-slate-500">{row.current} → <span className="text-slate-300">{row.incoming}</span></span>
+            </label>
+          ))}
+        </div>
+
+        <button onClick={handleImport} disabled={disabled || busy || !keys.size} className="w-full py-4 bg-rose-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50 shadow-lg shadow-rose-600/20">
+          Overwrite {keys.size} Section(s)
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+      <div>
+        <h4 className="text-sm font-black text-white uppercase tracking-tighter">Backup & Import</h4>
+        <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">Signed JSON of the whole dataset</p>
+      </div>
+      <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={`Backup passphrase (min ${MIN_PASSPHRASE_LENGTH})`} className={inputClass} />
+      <label className="flex items-center gap-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+        <input type="checkbox" checked={includeImages} onChange={(e) => setIncludeImages(e.target.checked)} />
+        Include campus map images
+      </label>
+      {message && <p className="text-[9px] text-slate-400 font-bold">{message}</p>}
+      <input type="file" ref={fileRef} className="hidden" accept=".json,application/json" onChange={handleFile} />
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={handleExport} disabled={disabled || busy || passphrase.length < MIN_PASSPHRASE_LENGTH}
+          className="py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50 shadow-lg shadow-blue-600/20">Export</button>
+        <button onClick={() => fileRef.current?.click()} disabled={disabled || busy || !passphrase}
+          className="py-4 bg-slate-800 text-blue-400 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">Import…</button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Complaint, ComplaintCategory, ComplaintMessage, ComplaintStatus, ModerationFlag } from '../../types';
+import { verifyStudentMessage } from '../../services/trackingService';
+import { isSealed, seal, unseal } from '../../services/complaintCrypto';
+import { PersistenceService } from '../../services/persistenceService';
+import {
+  COMPLAINT_CATEGORIES, COMPLAINT_STATUSES, ComplaintFilter, SlaState,
+  addNote, ageHours, filterComplaints, isOpen, formatAge, respond, slaHoursOf, slaState, transition,
+} from '../../services/complaintService';
+import { PERSONAL_FLAGS, isTrustedModeration, moderationDecision, redact, reviewFlags, scanText } from '../../services/moderationService';
+import { ComplaintTriage, TriageStore, keywordTriage } from '../../services/triageService';
+import { triageComplaints } from '../../services/geminiService';
+import ModerationQueue, { HeldComplaint } from './ModerationQueue';
+import ComplaintInsights from './ComplaintInsights';
+
+interface ComplaintDeskProps {
+  complaints: Complaint[];
+  publicKey?: string; // set once encryption is enabled; staff notes are sealed to it too
+  groupKey: CryptoKey | null; // null while encryption is off or locked
+  messages: ComplaintMessage[]; // anonymous follow-up threads
+  actor: string; // the signed-in admin
+  staff: string[]; // admin usernames: assignment suggestions, and whose unsigned moderation decisions count while locked
+  knownStudents: string[]; // studentTags from attendance, for spotting roll numbers named in a complaint
+  disabled?: boolean;
+  onSave: (complaints: Complaint[], label: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onMessage: (message: ComplaintMessage) => Promise<void>;
+}
+
+const SLA_STYLES: Record<SlaState, string> = {
+  OK: 'text-emerald-400 bg-emerald-500/10',
+  DUE_SOON: 'text-amber-400 bg-amber-500/10',
+  BREACHED: 'text-rose-400 bg-rose-500/10',
+  CLOSED: 'text-slate-400 bg-slate-700/50',
+};
+
+const STATUS_STYLES: Record<ComplaintStatus, string> = {
+  PENDING: 'text-amber-400',
+  IN_PROGRESS: 'text-blue-400',
+  RESOLVED: 'text-emerald-400',
+  DISMISSED: 'text-slate-500',
+};
+
+// A hub that signs admins in (rest) refuses moderation set by anyone else.
+const HUB_ENFORCES_WRITES = !!PersistenceService.backend.auth;
+
+const ComplaintDesk: React.FC<ComplaintDeskProps> = ({ complaints, publicKey, groupKey, messages, actor, staff, knownStudents, disabled, onSave, onDelete, onMessage }) => {
+  const [view, setView] = useState<'TICKETS' | 'MODERATION' | 'INSIGHTS'>('TICKETS');
+  const [aiTriage, setAiTriage] = useState<Record<string, ComplaintTriage>>({});
+  const [held, setHeld] = useState<Map<string, ModerationFlag[]>>(new Map());
+  const [filter, setFilter] = useState<ComplaintFilter>({ status: 'OPEN', category: '', assignee: '', query: '' });
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [response, setResponse] = useState('');
+  const [error, setError] = useState('');
+  const [question, setQuestion] = useState('');
+  const [verified, setVerified] = useState<Set<string>>(new Set());
+  const [plain, setPlain] = useState<Map<string, string>>(new Map()); // sealed text -> plaintext
+
+  // Decrypted copies live only in this component; saves always write back the sealed original.
+  useEffect(() => {
+    if (!groupKey) {
+      setPlain(new Map());
+      return;
+    }
+    let cancelled = false;
+    const sealed = [...complaints.flatMap(c => [c.text, ...c.notes.map(n => n.text)]), ...messages.map(m => m.text)].filter(isSealed);
+    Promise.all(sealed.map(async text => [text, await unseal(groupKey, text).catch(() => null)] as const))
+      .then(pairs => { if (!cancelled) setPlain(new Map(pairs.filter((p): p is readonly [string, string] => p[1] !== null))); });
+    return () => { cancelled = true; };
+  }, [groupKey, complaints, messages]);
+
+  const reveal = (text: string) => (isSealed(text) ? plain.get(text) ?? null : text);
+
+  // Student messages only count as the reporter's when they verify against the complaint's tracking key.
+  // New replies are signed as sealed; ones sealed later, when encryption was enabled, were signed as plaintext.
+  useEffect(() => {
+    let cancelled = false;
+    const byId = new Map(complaints.map(c => [c.id, c]));
+    const check = async (m: ComplaintMessage) => {
+      const complaint = byId.get(m.complaintId);
+      if (await verifyStudentMessage(complaint, m)) return true;
+      return plain.has(m.text) && verifyStudentMessage(complaint, { ...m, text: plain.get(m.text)! });
+    };
+    Promise.all(messages.filter(m => m.author === 'STUDENT').map(async m => ((await check(m)) ? m.id : null)))
+      .then(ids => { if (!cancelled) setVerified(new Set(ids.filter((id): id is string => !!id))); });
+    return () => { cancelled = true; };
+  }, [complaints, messages, plain]);
+
+  const now = new Date();
+  const readable = useMemo(() => complaints.map(c => ({ ...c, text: reveal(c.text) ?? '', notes: c.notes.map(n => ({ ...n, text: reveal(n.text) ?? '' })) })), [complaints, plain]);
+
+  // Complaints wait in moderation while anything is flagged, until an admin releases or rejects them.
+  // Every complaint is re-checked, as more becomes readable, since a decision only counts when it can be trusted.
+  useEffect(() => {
+    let cancelled = false;
+    const texts = new Map(readable.filter(c => c.text).map(c => [c.id, c.text]));
+    const trust = { hubEnforcesWrites: HUB_ENFORCES_WRITES, groupKey, admins: staff };
+    Promise.all(complaints.map(async c => [c.id, (await isTrustedModeration(c, trust)) ? [] : await reviewFlags(c, texts, complaints, knownStudents)] as const))
+      .then(pairs => { if (!cancelled) setHeld(new Map(pairs.filter(([, flags]) => flags.length))); });
+    return () => { cancelled = true; };
+  }, [complaints, readable, knownStudents, staff, groupKey]);
+
+  const filtered = useMemo(() => filterComplaints(readable.filter(c => !held.has(c.id)), filter), [readable, held, filter]);
+  useEffect(() => { TriageStore.load().then(setAiTriage); }, []);
+
+  const triage = useMemo(
+    () => Object.fromEntries(readable.filter(c => c.text).map(c => [c.id, aiTriage[c.id] ?? keywordTriage(c.text)])),
+    [readable, aiTriage],
+  );
+
+  const queue = useMemo(() => readable.filter(c => held.has(c.id)).map((c): HeldComplaint => {
+    const flags = held.get(c.id)!;
+    const redacted = c.text && flags.some(f => PERSONAL_FLAGS.includes(f)) ? redact(c.text, knownStudents) : null;
+    return { complaint: c, flags, redacted: redacted !== c.text ? redacted : null };
+  }), [readable, held, knownStudents]);
+  const assignees = useMemo(() => [...new Set(complaints.map(c => c.assignee).filter((a): a is string => !!a))].sort(), [complaints]);
+  const breached = complaints.filter(c => slaState(c, now) === 'BREACHED').length;
+
+  const open = (c: Complaint) => {
+    setOpenId(openId === c.id ? null : c.id);
+    setNote('');
+    setQuestion('');
+    setResponse(c.response || '');
+    setError('');
+  };
+
+  // Edits are made on the readable copy; the stored text and notes go back on before saving.
+  const stored = (next: Complaint): Complaint | null => {
+    const original = complaints.find(c => c.id === next.id);
+    if (!original) return null;
+    const sealedNotes = new Map(original.notes.map(n => [n.id, n.text]));
+    return { ...next, text: original.text, notes: next.notes.map(n => ({ ...n, text: sealedNotes.get(n.id) ?? n.text })) };
+  };
+
+  // Every edit goes through here, so a refused transition, a failed seal and a failed sync all end up in `error`.
+  const save = async (next: Complaint | (() => Complaint | Promise<Complaint>), label: string) => {
+    setError('');
+    try {
+      const complaint = stored(typeof next === 'function' ? await next() : next);
+      if (complaint) await onSave([complaint], label);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `${label} could not be saved`);
+      return false;
+    }
+  };
+
+  const move = (c: Complaint, status: ComplaintStatus) =>
+    save(() => transition(c, status, actor), `Complaint ${COMPLAINT_STATUSES[status].label.toLowerCase()}`);
+
+  const moderated = (c: Complaint, status: 'RELEASED' | 'REJECTED') => moderationDecision(c.id, status, actor, groupKey);
+
+  const reject = (c: Complaint) => save(async () => {
+    const closed = COMPLAINT_STATUSES[c.status].next.includes('DISMISSED') ? transition(c, 'DISMISSED', actor) : c;
+    return { ...closed, moderation: await moderated(c, 'REJECTED') };
+  }, 'Complaint rejected');
+
+  // The only edit that replaces a student's text, so it is sealed again here.
+  const redactAndRelease = async (c: Complaint, text: string) => {
+    const original = complaints.find(o => o.id === c.id);
+    if (!original) return;
+    setError('');
+    try {
+      await onSave([{ ...original, text: publicKey ? await seal(publicKey, text) : text, moderation: await moderated(c, 'RELEASED') }], 'Complaint redacted');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Complaint redacted could not be saved');
+    }
+  };
+
+  // Redaction can miss a name, so anything that mentions a person or their details never leaves the device.
+  const runAiTriage = async () => {
+    const candidates = readable.filter(c => c.text && !aiTriage[c.id]);
+    const pending = candidates.filter(c => !scanText(c.text, knownStudents).flags.some(f => PERSONAL_FLAGS.includes(f))).map(c => ({ id: c.id, text: c.text }));
+    const withheld = candidates.length - pending.length;
+    const results = await triageComplaints(pending);
+    if (!results) return 'The model is unavailable; keyword triage is shown instead.';
+    // Results for deleted complaints are dropped as they're replaced.
+    const live = new Set(complaints.map(c => c.id));
+    const next = Object.fromEntries(Object.entries({ ...aiTriage, ...results }).filter(([id]) => live.has(id)));
+    setAiTriage(next);
+    await TriageStore.save(next);
+    const notices = [
+      withheld ? `${withheld} complaint(s) mention personal details and were not sent.` : '',
+      Object.keys(results).length < pending.length ? `${pending.length - Object.keys(results).length} complaint(s) came back unusable.` : '',
+    ].filter(Boolean);
+    if (notices.length) return `${notices.join(' ')} They keep their keyword triage.`;
+  };
+
+  const applyCategories = async (updates: { id: string; category: ComplaintCategory }[]) => {
+    const byId = new Map(readable.map(c => [c.id, c]));
+    const updated = updates.map(u => byId.get(u.id) && stored({ ...byId.get(u.id)!, category: u.category })).filter((c): c is Complaint => !!c);
+    await onSave(updated, `Triage ${updated.length} complaint(s)`);
+  };
+
+  // The note stays in the box until it is saved, so a failed seal or sync doesn't lose it.
+  const addStaffNote = async (c: Complaint) => {
+    const text = note.trim();
+    if (await save(async () => addNote(c, actor, publicKey ? await seal(publicKey, text) : text), 'Complaint note')) setNote('');
+  };
+
+  const ask = async (c: Complaint) => {
+    const message: ComplaintMessage = {
+      id: Math.random().toString(36).substr(2, 9),
+      complaintId: c.id,
+      author: 'ADMIN',
+      by: actor,
+      text: question.trim(),
+      timestamp: new Date().toISOString(),
+    };
+    setQuestion('');
+    await onMessage(message);
+  };
+
+  const selectClass = 'bg-slate-800 rounded-xl px-2 py-2 text-[10px] text-slate-200 font-bold outline-none border border-slate-700';
+  const inputClass = 'w-full bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold';
+  const label = 'text-[8px] font-black text-slate-500 uppercase tracking-widest';
+  const locked = <span className="italic text-slate-500"><i className="fa-solid fa-lock mr-1"></i>Encrypted — unlock to read</span>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center px-6">
+        <div className="flex gap-4">
+          <button onClick={() => setView('TICKETS')} className={`text-[10px] font-black uppercase tracking-widest ${view === 'TICKETS' ? 'text-white' : 'text-slate-600'}`}>
+            Tickets ({filtered.length} of {complaints.length - held.size})
+          </button>
+          <button onClick={() => setView('MODERATION')} className={`text-[10px] font-black uppercase tracking-widest ${view === 'MODERATION' ? 'text-white' : held.size ? 'text-amber-400' : 'text-slate-600'}`}>
+            Moderation ({held.size})
+          </button>
+          <button onClick={() => setView('INSIGHTS')} className={`text-[10px] font-black uppercase tracking-widest ${view === 'INSIGHTS' ? 'text-white' : 'text-slate-600'}`}>
+            Insights
+          </button>
+        </div>
+        {breached > 0 && <span className="text-[8px] font-black text-rose-400 bg-rose-500/10 px-2 py-0.5 rounded-full uppercase">{breached} past SLA</span>}
+      </div>
+
+      {view === 'INSIGHTS' ? (
+        <ComplaintInsights
+          complaints={readable.filter(c => !held.has(c.id))}
+          triage={triage}
+          disabled={disabled}
+          onRunAi={runAiTriage}
+          onApplyCategories={applyCategories}
+        />
+      ) : view === 'MODERATION' ? (
+        <ModerationQueue
+          items={queue}
+          disabled={disabled}
+          onRelease={(c) => save(async () => ({ ...c, moderation: await moderated(c, 'RELEASED') }), 'Complaint released')}
+          onRedact={redactAndRelease}
+          onReject={reject}
+          onDelete={onDelete}
+        />
+      ) : (
+        <>
+          <div className="bg-slate-900 p-4 rounded-[2rem] border border-slate-800 space-y-2">
+            <input value={filter.query} onChange={(e) => setFilter({ ...filter, query: e.target.value })} placeholder="Search text, notes, staff…" className={inputClass} />
+            <div className="grid grid-cols-3 gap-2">
+              <select value={filter.status} onChange={(e) => setFilter({ ...filter, status: e.target.value as ComplaintFilter['status'] })} className={selectClass}>
+                <option value="OPEN">Open</option>
+                <option value="">Any status</option>
+                {(Object.keys(COMPLAINT_STATUSES) as ComplaintStatus[]).map(s => <option key={s} value={s}>{COMPLAINT_STATUSES[s].label}</option>)}
+              </select>
+              <select value={filter.category} onChange={(e) => setFilter({ ...filter, category: e.target.value as ComplaintFilter['category'] })} className={selectClass}>
+                <option value="">All types</option>
+                <option value="UNTRIAGED">Untriaged</option>
+                {(Object.keys(COMPLAINT_CATEGORIES) as ComplaintCategory[]).map(c => <option key={c} value={c}>{COMPLAINT_CATEGORIES[c].label}</option>)}
+              </select>
+              <select value={filter.assignee} onChange={(e) => setFilter({ ...filter, assignee: e.target.value })} className={selectClass}>
+                <option value="">Anyone</option>
+                {assignees.map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <datalist id="complaint-staff">
+            {[...new Set([...staff, ...assignees])].map(s => <option key={s} value={s} />)}
+          </datalist>
+
+          <div className="space-y-2 pb-10">
+            {filtered.length === 0 ? (
+              <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">No Tickets</div>
+            ) : filtered.map(c => {
+              const sla = slaState(c, now);
+              const age = ageHours(c, now);
+              return (
+                <div key={c.id} className="bg-slate-900/50 p-6 rounded-[2.5rem] border border-slate-800 space-y-3">
+                  <button onClick={() => open(c)} className="w-full text-left space-y-2">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className={`text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[c.status]}`}>
+                        {COMPLAINT_STATUSES[c.status].label} • {c.category ? COMPLAINT_CATEGORIES[c.category].label : 'Untriaged'}
+                      </span>
+                      <span className="shrink-0 flex gap-1">
+                        {isOpen(c) && (triage[c.id]?.urgency === 'CRITICAL' || triage[c.id]?.urgency === 'HIGH') && (
+                          <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full text-rose-400 bg-rose-500/10">{triage[c.id].urgency.toLowerCase()}</span>
+                        )}
+                        <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${SLA_STYLES[sla]}`}>
+                          {age === null ? '—' : formatAge(age)}{sla !== 'CLOSED' ? ` / ${slaHoursOf(c)}h` : ''}
+                        </span>
+                      </span>
+                    </div>
+                    <p className={`text-[11px] text-slate-300 font-bold ${openId === c.id ? '' : 'line-clamp-2'}`}>{c.text || locked}</p>
+                    <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">
+                      {Number.isNaN(Date.parse(c.timestamp)) ? c.timestamp : new Date(c.timestamp).toLocaleString()}{c.assignee ? ` • ${c.assignee}` : ''}{c.notes.length ? ` • ${c.notes.length} note(s)` : ''}{c.response ? ' • answered' : ''}
+                    </p>
+                  </button>
+
+                  {openId === c.id && (
+                    <div className="space-y-4 pt-3 border-t border-slate-800">
+                      {error && <p className="text-[9px] text-rose-400 font-bold">{error}</p>}
+
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                          <span className={label}>Triage</span>
+                          <select value={c.category || ''} disabled={disabled} className={`${selectClass} w-full`}
+                            onChange={(e) => save({ ...c, category: (e.target.value || undefined) as ComplaintCategory | undefined }, 'Complaint triage')}>
+                            <option value="">Untriaged</option>
+                            {(Object.keys(COMPLAINT_CATEGORIES) as ComplaintCategory[]).map(k => <option key={k} value={k}>{COMPLAINT_CATEGORIES[k].label}</option>)}
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <span className={label}>Assigned to</span>
+                          <input key={`${c.id}:${c.assignee || ''}`} list="complaint-staff" defaultValue={c.assignee || ''} disabled={disabled} placeholder="Staff name" className={`${selectClass} w-full`}
+                            onBlur={(e) => e.target.value.trim() !== (c.assignee || '') && save({ ...c, assignee: e.target.value.trim() || undefined }, 'Complaint assignment')} />
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {COMPLAINT_STATUSES[c.status].next.map(s => (
+                          <button key={s} onClick={() => move(c, s)} disabled={disabled}
+                            className="px-3 py-2 bg-slate-800 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-300 disabled:opacity-50">
+                            {c.status === 'RESOLVED' || c.status === 'DISMISSED' ? 'Reopen' : `Mark ${COMPLAINT_STATUSES[s].label}`}
+                          </button>
+                        ))}
+                        <button onClick={() => confirm('Delete this complaint permanently?') && onDelete(c.id)} disabled={disabled}
+                          className="ml-auto px-3 py-2 bg-rose-500/10 rounded-xl text-[9px] font-black uppercase tracking-widest text-rose-500">Delete</button>
+                      </div>
+
+                      <div className="space-y-1">
+                        <span className={label}>Public response (visible to the student)</span>
+                        <textarea rows={3} value={response} disabled={disabled} onChange={(e) => setResponse(e.target.value)} className={inputClass} />
+                        <div className="flex justify-between items-center">
+                          <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{c.respondedAt ? `Sent ${new Date(c.respondedAt).toLocaleString()}` : 'Not answered yet'}</span>
+                          <button onClick={() => save(respond(c, response.trim()), 'Complaint response')} disabled={disabled || !response.trim() || response.trim() === c.response}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">Publish</button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <span className={label}>Thread with the student (anonymous)</span>
+                        {messages.filter(m => m.complaintId === c.id).sort((a, b) => a.timestamp.localeCompare(b.timestamp)).map(m => (
+                          <div key={m.id} className={`p-3 rounded-2xl max-w-[85%] ${m.author === 'ADMIN' ? 'ml-auto bg-blue-600/20' : 'bg-slate-800/50'}`}>
+                            <p className="text-[10px] text-slate-300">{reveal(m.text) ?? locked}</p>
+                            <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest mt-1">
+                              {m.author === 'ADMIN' ? m.by : verified.has(m.id) ? <span className="text-emerald-400">Reporter ✓</span> : <span className="text-rose-400">Unverified</span>} • {new Date(m.timestamp).toLocaleString()}
+                            </p>
+                          </div>
+                        ))}
+                        {c.trackingKey ? (
+                          <div className="flex gap-2">
+                            <input value={question} disabled={disabled} onChange={(e) => setQuestion(e.target.value)} placeholder="Ask the student… (not encrypted)" className={inputClass} />
+                            <button onClick={() => ask(c)} disabled={disabled || !question.trim()}
+                              className="shrink-0 px-4 bg-blue-600 text-white rounded-2xl text-[9px] font-black uppercase disabled:opacity-50">Send</button>
+                          </div>
+                        ) : (
+                          <p className="text-[9px] font-bold text-slate-600">Sent before tracking codes; the student can only see the public response.</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <span className={label}>Internal notes</span>
+                        {c.notes.map(n => (
+                          <div key={n.id} className="bg-slate-800/50 p-3 rounded-2xl">
+                            <p className="text-[10px] text-slate-300">{n.text || locked}</p>
+                            <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest mt-1">{n.author} • {new Date(n.timestamp).toLocaleString()}</p>
+                          </div>
+                        ))}
+                        <div className="flex gap-2">
+                          <input value={note} disabled={disabled} onChange={(e) => setNote(e.target.value)} placeholder="Add a note for staff…" className={inputClass} />
+                          <button onClick={() => addStaffNote(c)} disabled={disabled || !note.trim()}
+                            className="shrink-0 px-4 bg-slate-800 text-blue-400 rounded-2xl text-[9px] font-black uppercase disabled:opacity-50">Add</button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        <span className={label}>History</span>
+                        {c.history.map((h, i) => (
+                          <p key={i} className="text-[9px] font-bold text-slate-500">
+                            <span className={STATUS_STYLES[h.status]}>{COMPLAINT_STATUSES[h.status].label}</span> • {Number.isNaN(Date.parse(h.at)) ? h.at : new Date(h.at).toLocaleString()}{h.by ? ` • ${h.by}` : i === 0 ? ' • student' : ''}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComplaintDesk;
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { Complaint, ComplaintCategory } from '../../types';
+import { COMPLAINT_CATEGORIES, isOpen } from '../../services/complaintService';
+import { ComplaintTriage, ComplaintUrgency, URGENCY_RANK, clusterComplaints, weeklyCounts } from '../../services/triageService';
+
+interface ComplaintInsightsProps {
+  complaints: Complaint[]; // readable text, or '' where it couldn't be decrypted
+  triage: Record<string, ComplaintTriage>; // for every readable complaint
+  disabled?: boolean;
+  onRunAi: () => Promise<string | void>; // resolves to a notice when the model couldn't help
+  onApplyCategories: (updates: { id: string; category: ComplaintCategory }[]) => Promise<void>;
+}
+
+const WEEKS = 8;
+const TOP_ISSUES = 8;
+
+const URGENCY_STYLES: Record<ComplaintUrgency, string> = {
+  CRITICAL: 'text-rose-400 bg-rose-500/10',
+  HIGH: 'text-amber-400 bg-amber-500/10',
+  MEDIUM: 'text-blue-400 bg-blue-500/10',
+  LOW: 'text-slate-400 bg-slate-700/50',
+};
+
+const Bars: React.FC<{ counts: number[]; tall?: boolean }> = ({ counts, tall }) => {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className={`flex items-end gap-0.5 ${tall ? 'h-16' : 'h-6'}`}>
+      {counts.map((n, i) => (
+        <div key={i} title={`${n}`} className={`flex-1 rounded-sm ${n ? 'bg-blue-500/70' : 'bg-slate-800'}`} style={{ height: `${Math.max(8, (n / max) * 100)}%` }} />
+      ))}
+    </div>
+  );
+};
+
+const ComplaintInsights: React.FC<ComplaintInsightsProps> = ({ complaints, triage, disabled, onRunAi, onApplyCategories }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const readable = useMemo(() => complaints.filter(c => c.text), [complaints]);
+  const clusters = useMemo(() => clusterComplaints(readable, triage), [readable, triage]);
+  const byId = useMemo(() => new Map(readable.map(c => [c.id, c])), [readable]);
+  const now = new Date();
+  const aiCount = readable.filter(c => triage[c.id]?.method === 'AI').length;
+  const urgency = (Object.keys(URGENCY_RANK) as ComplaintUrgency[]).map(u => ({
+    urgency: u,
+    count: readable.filter(c => isOpen(c) && triage[c.id]?.urgency === u).length,
+  }));
+  const suggestions = readable.filter(c => !c.category && triage[c.id]).map(c => ({ id: c.id, category: triage[c.id].category }));
+
+  const runAi = async () => {
+    setIsRunning(true);
+    setNotice((await onRunAi()) || '');
+    setIsRunning(false);
+  };
+
+  const label = 'text-[8px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="space-y-3 pb-10">
+      <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 space-y-3">
+        <div className="flex justify-between items-center gap-3">
+          <span className={label}>{aiCount} by AI • {readable.length - aiCount} by keywords{complaints.length > readable.length ? ` • ${complaints.length - readable.length} locked` : ''}</span>
+          <button onClick={runAi} disabled={disabled || isRunning || aiCount === readable.length}
+            className="shrink-0 px-4 py-2 bg-blue-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">
+            {isRunning ? 'Analysing...' : 'Analyse with AI'}
+          </button>
+        </div>
+        <p className="text-[9px] font-bold text-slate-600 leading-relaxed">
+          AI analysis sends decrypted texts to Gemini. Complaints where a name, roll number, phone number or email is found are not sent, but a name the filter misses would be. Results are kept on this device only. Keyword triage runs locally.
+        </p>
+        {notice && <p className="text-[9px] font-bold text-amber-400">{notice}</p>}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {urgency.map(u => (
+          <div key={u.urgency} className={`p-3 rounded-2xl text-center ${URGENCY_STYLES[u.urgency]}`}>
+            <p className="text-lg font-black">{u.count}</p>
+            <p className="text-[8px] font-black uppercase tracking-widest">{u.urgency.toLowerCase()}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 space-y-2">
+        <span className={label}>Complaints per week (last {WEEKS})</span>
+        <Bars counts={weeklyCounts(readable, null, WEEKS, now)} tall />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex justify-between items-center gap-3 bg-slate-900 px-6 py-4 rounded-[2rem] border border-slate-800">
+          <span className="text-[9px] font-bold text-slate-400">{suggestions.length} untriaged complaint(s) have a suggested category</span>
+          <button onClick={() => onApplyCategories(suggestions)} disabled={disabled}
+            className="shrink-0 text-[9px] font-black text-blue-400 uppercase tracking-widest disabled:opacity-50">Apply</button>
+        </div>
+      )}
+
+      <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-widest px-6">Top issues</h4>
+      {clusters.length === 0 ? (
+        <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">Nothing to analyse</div>
+      ) : clusters.slice(0, TOP_ISSUES).map(cluster => {
+        const ids = new Set(cluster.complaintIds);
+        const open = cluster.complaintIds.filter(id => { const c = byId.get(id); return c && isOpen(c); }).length;
+        return (
+          <div key={cluster.id} className="bg-slate-900/50 p-5 rounded-[2rem] border border-slate-800 space-y-2">
+            <button onClick={() => setExpanded(expanded === cluster.id ? null : cluster.id)} className="w-full text-left space-y-2">
+              <div className="flex justify-between items-center gap-3">
+                <span className="text-[11px] font-black text-slate-200">{cluster.label || 'Unlabelled'}</span>
+                <span className="shrink-0 text-[9px] font-black text-white bg-slate-800 px-2 py-0.5 rounded-full">×{cluster.complaintIds.length}</span>
+              </div>
+              <Bars counts={weeklyCounts(readable, ids, WEEKS, now)} />
+              <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">
+                {COMPLAINT_CATEGORIES[cluster.category].label} • {open} open • last {new Date(cluster.last).toLocaleDateString()}
+              </p>
+            </button>
+            {expanded === cluster.id && (
+              <div className="space-y-1 pt-2 border-t border-slate-800">
+                {cluster.complaintIds.slice(-5).map(id => (
+                  <p key={id} className="text-[10px] text-slate-400 line-clamp-2">• {byId.get(id)?.text}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ComplaintInsights;
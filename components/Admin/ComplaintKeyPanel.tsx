@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { AdminAccount } from '../../types';
+import { keyFingerprint } from '../../services/complaintCrypto';
+
+interface ComplaintKeyPanelProps {
+  publicKey?: string; // the group key published in the dataset; encryption is off without one
+  pinnedKey: string; // the key built into the app, if any
+  account: AdminAccount | null;
+  accounts: AdminAccount[];
+  unlocked: boolean;
+  unsealed: number; // complaints and student replies still stored readable
+  disabled?: boolean;
+  // Actions may resolve to a notice, e.g. waiting for approval.
+  onSetup: (password: string) => Promise<string | void>;
+  onUnlock: (password: string) => Promise<string | void>;
+  onLock: () => void;
+  onApprove: (account: AdminAccount, code: string) => Promise<void>;
+  onSealExisting: () => Promise<string | void>;
+}
+
+const useFingerprint = (publicKey?: string) => {
+  const [code, setCode] = useState('');
+  useEffect(() => {
+    setCode('');
+    if (!publicKey) return;
+    let live = true;
+    keyFingerprint(publicKey).then(c => { if (live) setCode(c); });
+    return () => { live = false; };
+  }, [publicKey]);
+  return code;
+};
+
+const ComplaintKeyPanel: React.FC<ComplaintKeyPanelProps> = ({
+  publicKey, pinnedKey, account, accounts, unlocked, unsealed, disabled, onSetup, onUnlock, onLock, onApprove, onSealExisting,
+}) => {
+  const [password, setPassword] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const keyCode = useFingerprint(publicKey);
+  // Read out to the approving admin, who checks it against the request they see.
+  const requestCode = useFingerprint(account?.complaintAccessRequest?.publicKey);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setError('');
+    setNotice('');
+    setIsWorking(true);
+    try {
+      setNotice((await action()) || '');
+      setPassword('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    }
+    setIsWorking(false);
+  };
+
+  const requests = accounts.filter(a => a.complaintAccessRequest && !a.complaintAccessGrant && a.id !== account?.id);
+  const waiting = !!account?.complaintAccessRequest && !account.complaintKeyWrap;
+  const busy = disabled || isWorking;
+  const enabled = !!publicKey;
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="text-[10px] font-black text-white uppercase tracking-widest">
+          <i className={`fa-solid ${unlocked ? 'fa-lock-open text-emerald-400' : 'fa-lock text-blue-400'} mr-2`}></i>Complaint Encryption
+        </h4>
+        {unlocked && <button onClick={onLock} className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Lock</button>}
+      </div>
+
+      {!enabled ? (
+        <p className="text-[9px] font-bold text-amber-400 leading-relaxed">
+          Off. Complaints are stored readable on the hub. Enabling creates a key only admins hold, wrapped with your password, and encrypts what's already there.
+        </p>
+      ) : unlocked ? (
+        <p className="text-[9px] font-bold text-slate-500 leading-relaxed">Unlocked on this device until you lock it or leave the hub.</p>
+      ) : (
+        <p className="text-[9px] font-bold text-slate-500 leading-relaxed">
+          {waiting
+            ? `Access requested. Read code ${requestCode} to an admin who holds the key; once they approve, unlock again with your password.`
+            : account?.complaintKeyWrap
+              ? 'Complaints are encrypted. Unlock with your password to read them.'
+              : "You don't hold the complaint key yet. Unlocking sends an access request to the admins who do."}
+        </p>
+      )}
+
+      {(!enabled || !unlocked) && (
+        <div className="flex gap-2">
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Your password" autoComplete="current-password"
+            className="flex-1 min-w-0 bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold" />
+          <button onClick={() => run(() => (enabled ? onUnlock(password) : onSetup(password)))} disabled={busy || !password}
+            className="shrink-0 px-5 bg-blue-600 text-white rounded-2xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">
+            {isWorking ? 'Working...' : enabled ? 'Unlock' : 'Enable'}
+          </button>
+        </div>
+      )}
+
+      {publicKey && (
+        <div className="bg-slate-800/50 rounded-2xl px-4 py-3 space-y-1">
+          <div className="flex justify-between items-center gap-3">
+            <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">Key {keyCode}</span>
+            <button onClick={() => navigator.clipboard.writeText(publicKey)} className="shrink-0 text-[9px] font-black text-blue-400 uppercase tracking-widest">Copy key</button>
+          </div>
+          <p className={`text-[9px] font-bold leading-relaxed ${pinnedKey && pinnedKey !== publicKey ? 'text-rose-400' : 'text-slate-500'}`}>
+            {pinnedKey === publicKey
+              ? 'Built into the app, so students only seal to this key.'
+              : pinnedKey
+                ? "The app has a different key built in. Students seal to that one, which this key can't open."
+                : 'Not built into the app. Set COMPLAINT_PUBLIC_KEY to this key in the student build so a changed key on the hub is ignored.'}
+          </p>
+        </div>
+      )}
+
+      {unlocked && (unsealed > 0 ? (
+        <div className="flex justify-between items-center gap-3 bg-amber-500/10 rounded-2xl px-4 py-3">
+          <span className="text-[9px] font-bold text-amber-400">{unsealed} item(s) still stored readable</span>
+          <button onClick={() => run(onSealExisting)} disabled={busy} className="shrink-0 text-[9px] font-black text-amber-400 uppercase tracking-widest disabled:opacity-50">Encrypt now</button>
+        </div>
+      ) : (
+        <button onClick={() => run(onSealExisting)} disabled={busy} className="text-[9px] font-black text-slate-500 uppercase tracking-widest disabled:opacity-50">Encrypt snapshots</button>
+      ))}
+
+      {unlocked && requests.map(a => (
+        <div key={a.id} className="bg-slate-800/50 rounded-2xl px-4 py-3 space-y-2">
+          <span className="text-[10px] font-black text-slate-300 uppercase">{a.username} <span className="text-slate-600">wants access</span></span>
+          <div className="flex gap-2">
+            <input value={codes[a.id] || ''} onChange={(e) => setCodes(prev => ({ ...prev, [a.id]: e.target.value }))} placeholder="Code from their screen"
+              className="flex-1 min-w-0 bg-slate-800 rounded-2xl px-4 py-2 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold" />
+            <button onClick={() => run(() => onApprove(a, codes[a.id] || ''))} disabled={busy || !codes[a.id]} className="shrink-0 text-[9px] font-black text-emerald-400 uppercase tracking-widest disabled:opacity-50">Approve</button>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-[9px] text-rose-400 font-bold">{error}</p>}
+      {notice && <p className="text-[9px] text-blue-400 font-bold">{notice}</p>}
+    </div>
+  );
+};
+
+export default ComplaintKeyPanel;
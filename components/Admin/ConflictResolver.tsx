@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ConflictChoice, MergeConflict, stableStringify } from '../../services/mergeService';
+
+interface ConflictResolverProps {
+  conflicts: MergeConflict[];
+  isProcessing?: boolean;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+const recordLabel = (conflict: MergeConflict) => {
+  const record = conflict.local || conflict.remote || conflict.base;
+  if (!conflict.id) return conflict.collection;
+  return record?.subject || record?.name || record?.title || record?.company || record?.day || record?.username || conflict.id;
+};
+
+// Fields that differ between the two versions, so the admin isn't comparing whole JSON blobs.
+const changedFields = (local: any, remote: any): string[] => {
+  if (typeof local !== 'object' || typeof remote !== 'object' || !local || !remote) return [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  return [...keys].filter(k => k !== 'id' && stableStringify(local[k]) !== stableStringify(remote[k]));
+};
+
+const preview = (value: any) => {
+  if (value === undefined) return 'Deleted';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflicts, isProcessing, onResolve }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+    Object.fromEntries(conflicts.map(c => [c.key, 'REMOTE' as ConflictChoice]))
+  );
+
+  const choose = (key: string, choice: ConflictChoice) => setChoices(prev => ({ ...prev, [key]: choice }));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[110] p-6">
+      <div className="bg-slate-950 rounded-[3rem] w-full max-w-md p-8 shadow-2xl border border-slate-800 max-h-[85vh] flex flex-col">
+        <h3 className="text-xl font-black text-white uppercase tracking-tighter">Sync Conflict</h3>
+        <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1 mb-6">
+          Another admin changed {conflicts.length} record{conflicts.length === 1 ? '' : 's'} you edited. Everything else merged automatically.
+        </p>
+
+        <div className="space-y-3 overflow-y-auto no-scrollbar flex-1">
+          {conflicts.map(conflict => {
+            const fields = changedFields(conflict.local, conflict.remote);
+            return (
+              <div key={conflict.key} className="bg-slate-900 rounded-[2rem] p-5 border border-slate-800 space-y-3">
+                <div className="flex flex-col">
+                  <span className="text-[11px] font-black text-slate-300 uppercase truncate">{recordLabel(conflict)}</span>
+                  <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{conflict.collection}{fields.length ? ` • ${fields.join(', ')}` : ''}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['LOCAL', 'REMOTE'] as ConflictChoice[]).map(side => {
+                    const value = side === 'LOCAL' ? conflict.local : conflict.remote;
+                    const shown = fields.length && value ? fields.map(f => `${f}: ${preview(value[f])}`).join(' • ') : preview(value);
+                    return (
+                      <button key={side} onClick={() => choose(conflict.key, side)}
+                        className={`text-left p-3 rounded-2xl border transition-all ${choices[conflict.key] === side ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800'}`}>
+                        <span className="block text-[8px] font-black text-blue-400 uppercase tracking-widest mb-1">{side === 'LOCAL' ? 'Mine' : 'Theirs'}</span>
+                        <span className="block text-[9px] text-slate-400 font-bold break-words">{shown}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={() => onResolve(choices)} disabled={isProcessing}
+          className="mt-6 w-full py-5 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">
+          {isProcessing ? 'Syncing...' : 'Apply & Sync'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { RecordCollection } from '../../services/mergeService';
+import { IMPORT_MODES, ImportMode, ImportPlan, describeRecord, supportsMode } from '../../services/importService';
+
+interface ImportDiffPreviewProps {
+  collection: RecordCollection;
+  mode: ImportMode;
+  plan: ImportPlan;
+  disabled?: boolean;
+  onModeChange: (mode: ImportMode) => void;
+}
+
+type Section = 'added' | 'updated' | 'removed';
+
+const SECTION_STYLES: Record<Section, { label: string; color: string; icon: string }> = {
+  added: { label: 'Added', color: 'text-emerald-400', icon: 'fa-plus' },
+  updated: { label: 'Updated', color: 'text-amber-400', icon: 'fa-pen' },
+  removed: { label: 'Removed', color: 'text-rose-400', icon: 'fa-minus' },
+};
+
+const ImportDiffPreview: React.FC<ImportDiffPreviewProps> = ({ collection, mode, plan, disabled, onModeChange }) => {
+  const [open, setOpen] = useState<Section | null>(null);
+  const modes = (Object.keys(IMPORT_MODES) as ImportMode[]).filter(m => supportsMode(collection, m));
+
+  const renderSection = (section: Section) => {
+    if (section === 'updated') {
+      return plan.updated.map(change => (
+        <li key={change.after.id} className="text-[9px] text-slate-300 font-bold">
+          {describeRecord(change.after)}
+          {change.fields.map(f => (
+            <div key={f} className="pl-3 text-slate-500 font-mono truncate">
+              {f}: <span className="text-rose-400 line-through">{JSON.stringify(change.before[f])}</span> → <span className="text-emerald-400">{JSON.stringify(change.after[f])}</span>
+            </div>
+          ))}
+        </li>
+      ));
+    }
+    return plan[section].map(r => <li key={r.id} className="text-[9px] text-slate-300 font-bold truncate">{describeRecord(r)}</li>);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1 p-1 bg-slate-800 rounded-2xl">
+        {modes.map(m => (
+          <button key={m} onClick={() => onModeChange(m)} disabled={disabled} title={IMPORT_MODES[m].description}
+            className={`flex-1 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-blue-600 text-white' : 'text-slate-500'}`}>
+            {IMPORT_MODES[m].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[8px] text-slate-500 font-bold uppercase tracking-widest">{IMPORT_MODES[mode].description}</p>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(SECTION_STYLES) as Section[]).map(section => (
+          <button key={section} onClick={() => setOpen(open === section ? null : section)}
+            className={`bg-slate-800/60 rounded-2xl py-3 text-center border ${open === section ? 'border-slate-600' : 'border-transparent'}`}>
+            <div className={`text-lg font-black ${SECTION_STYLES[section].color}`}>{plan[section].length}</div>
+            <div className="text-[8px] font-black text-slate-500 uppercase tracking-widest"><i className={`fa-solid ${SECTION_STYLES[section].icon} mr-1`}></i>{SECTION_STYLES[section].label}</div>
+          </button>
+        ))}
+      </div>
+
+      {(plan.unchanged > 0 || plan.duplicatesInUpload > 0) && (
+        <p className="text-[8px] text-slate-500 font-bold uppercase tracking-widest">
+          {plan.unchanged > 0 && `${plan.unchanged} already up to date`}
+          {plan.unchanged > 0 && plan.duplicatesInUpload > 0 && ' • '}
+          {plan.duplicatesInUpload > 0 && `${plan.duplicatesInUpload} duplicate row(s) in upload, last one wins`}
+        </p>
+      )}
+
+      {open && plan[open].length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto no-scrollbar bg-slate-950 rounded-2xl p-3">{renderSection(open)}</ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportDiffPreview;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Complaint, ModerationFlag } from '../../types';
+import { FLAG_LABELS, PERSONAL_FLAGS } from '../../services/moderationService';
+
+export interface HeldComplaint {
+  complaint: Complaint; // with readable text, or '' while it can't be decrypted
+  flags: ModerationFlag[];
+  redacted: string | null; // the text with personal details removed, when there are any to remove
+}
+
+interface ModerationQueueProps {
+  items: HeldComplaint[];
+  disabled?: boolean;
+  onRelease: (complaint: Complaint) => void;
+  onRedact: (complaint: Complaint, text: string) => void;
+  onReject: (complaint: Complaint) => void;
+  onDelete: (id: string) => void;
+}
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ items, disabled, onRelease, onRedact, onReject, onDelete }) => {
+  const button = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50';
+
+  if (!items.length) {
+    return <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">Nothing to review</div>;
+  }
+
+  return (
+    <div className="space-y-2 pb-10">
+      {items.map(({ complaint: c, flags, redacted }) => (
+        <div key={c.id} className="bg-slate-900/50 p-6 rounded-[2.5rem] border border-slate-800 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {flags.map(f => (
+              <span key={f} className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${PERSONAL_FLAGS.includes(f) || f === 'PROFANITY' ? 'text-rose-400 bg-rose-500/10' : 'text-amber-400 bg-amber-500/10'}`}>
+                {FLAG_LABELS[f]}
+              </span>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-300 font-bold">
+            {c.text || <span className="italic text-slate-500"><i className="fa-solid fa-lock mr-1"></i>Encrypted — unlock to read</span>}
+          </p>
+          {redacted && (
+            <p className="text-[10px] text-slate-500 font-bold"><span className="text-[8px] font-black uppercase tracking-widest text-slate-600 mr-2">Redacted</span>{redacted}</p>
+          )}
+          <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{new Date(c.timestamp).toLocaleString()}</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => onRelease(c)} disabled={disabled} className={`${button} bg-emerald-500/10 text-emerald-400`}>Release</button>
+            {redacted && <button onClick={() => onRedact(c, redacted)} disabled={disabled} className={`${button} bg-blue-500/10 text-blue-400`}>Redact & Release</button>}
+            <button onClick={() => onReject(c)} disabled={disabled} className={`${button} bg-slate-800 text-slate-300`}>Reject</button>
+            <button onClick={() => confirm('Delete this complaint permanently?') && onDelete(c.id)} disabled={disabled}
+              className={`${button} ml-auto bg-rose-500/10 text-rose-500`}>Delete</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { QuarantinedRecord } from '../../types';
+
+interface QuarantineReportProps {
+  records: QuarantinedRecord[];
+  disabled?: boolean;
+  onSave: (records: QuarantinedRecord[]) => void;
+}
+
+const QuarantineReport: React.FC<QuarantineReportProps> = ({ records, disabled, onSave }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const discard = (id: string) => onSave(records.filter(r => r.id !== id));
+
+  return (
+    <div className="bg-slate-900 p-8 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-black text-white uppercase tracking-tighter">Quarantine ({records.length})</h3>
+        {records.length > 0 && (
+          <button onClick={() => confirm('Discard every quarantined record?') && onSave([])} disabled={disabled} className="text-[9px] font-black text-rose-500 uppercase px-3 py-1 bg-rose-500/10 rounded-full">Discard All</button>
+        )}
+      </div>
+      <p className="text-[9px] text-slate-500 font-bold uppercase leading-relaxed">Records that failed validation on load. They are hidden from students until re-uploaded in a valid form.</p>
+      {records.length === 0 ? (
+        <div className="p-6 border border-slate-800 rounded-[2rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">All Records Valid</div>
+      ) : (
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto no-scrollbar">
+          {records.map(r => (
+            <div key={r.id} className="bg-slate-800/50 rounded-2xl px-4 py-3 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <button onClick={() => setExpanded(expanded === r.id ? null : r.id)} className="flex flex-col text-left min-w-0">
+                  <span className="text-[10px] font-black text-amber-400 uppercase truncate">{r.collection} • {r.id.slice(r.collection.length + 1)}</span>
+                  <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{new Date(r.quarantinedAt).toLocaleString()}</span>
+                </button>
+                <button onClick={() => discard(r.id)} disabled={disabled} className="w-8 h-8 shrink-0 rounded-xl bg-rose-500/10 text-rose-500 hover:bg-rose-500 hover:text-white transition-all"><i className="fa-solid fa-trash-can text-xs"></i></button>
+              </div>
+              <ul className="space-y-0.5">
+                {r.errors.slice(0, expanded === r.id ? undefined : 3).map(err => (
+                  <li key={err} className="text-[9px] text-rose-400 font-bold">{err}</li>
+                ))}
+                {expanded !== r.id && r.errors.length > 3 && <li className="text-[9px] text-slate-500 font-bold">+{r.errors.length - 3} more</li>}
+              </ul>
+              {expanded === r.id && (
+                <pre className="text-[9px] text-slate-400 bg-slate-950 rounded-xl p-3 overflow-x-auto max-h-40">{JSON.stringify(r.record, null, 2)}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuarantineReport;
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { AdminCategory } from '../../types';
+import { BRANCHES, DIVISIONS, YEARS } from '../../constants';
+import { RecordCollection } from '../../services/mergeService';
+import { STAGING_COLUMNS } from '../../services/stagingService';
+import { EMPTY_FILTER, RecordFilter, RecordSort, dateFieldOf, filterableFields, queryRecords } from '../../services/recordQuery';
+import RecordEditor from './RecordEditor';
+
+interface RecordBrowserProps {
+  category: AdminCategory;
+  collection: RecordCollection;
+  records: any[]; // already limited to what the admin may edit
+  disabled?: boolean;
+  onDelete: (id: string) => void;
+  onSaveEdit: (record: any) => Promise<boolean>; // resolves true once synced
+  onBulkDelete: (ids: string[]) => void;
+  onBulkEdit: (ids: string[], field: string, value: any) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<RecordSort, string> = {
+  LABEL: 'A → Z',
+  SCOPE: 'Branch / Year',
+  DATE_ASC: 'Date ↑',
+  DATE_DESC: 'Date ↓',
+};
+
+const RecordBrowser: React.FC<RecordBrowserProps> = ({ category, collection, records, disabled, onDelete, onSaveEdit, onBulkDelete, onBulkEdit }) => {
+  const [filter, setFilter] = useState<RecordFilter>(EMPTY_FILTER);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [bulkField, setBulkField] = useState('');
+  const [bulkValue, setBulkValue] = useState('');
+
+  const fields = filterableFields(category);
+  const columns = STAGING_COLUMNS[category] || [];
+  const bulkColumns = columns.filter(c => c.kind !== 'slots');
+  const bulkColumn = bulkColumns.find(c => c.key === bulkField);
+
+  const filtered = useMemo(() => queryRecords(category, records, filter), [category, records, filter]);
+  const pages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const visible = filtered.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  // Records deleted or synced away since they were ticked drop out of the selection.
+  const selectedIds = records.filter(r => selected.has(r.id)).map(r => r.id);
+  const allFilteredSelected = filtered.length > 0 && filtered.every(r => selected.has(r.id));
+
+  const update = (patch: Partial<RecordFilter>) => {
+    setFilter(prev => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const toggleAll = () => setSelected(allFilteredSelected ? new Set() : new Set(filtered.map(r => r.id)));
+
+  const bulkDelete = () => {
+    if (!confirm(`Delete ${selectedIds.length} record(s)?`)) return;
+    onBulkDelete(selectedIds);
+    setSelected(new Set());
+  };
+
+  const bulkEdit = () => {
+    if (!bulkColumn) return;
+    const value = bulkColumn.kind === 'number' ? Number(bulkValue) : bulkValue;
+    if (!confirm(`Set ${bulkColumn.label} to "${bulkValue}" on ${selectedIds.length} record(s)?`)) return;
+    onBulkEdit(selectedIds, bulkColumn.key, value);
+  };
+
+  const selectClass = 'bg-slate-800 rounded-xl px-2 py-2 text-[10px] text-slate-200 font-bold outline-none border border-slate-700';
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-[10px] font-black text-slate-600 uppercase px-6 tracking-widest">Active Records ({filtered.length === records.length ? records.length : `${filtered.length} of ${records.length}`})</h4>
+
+      <div className="bg-slate-900 p-4 rounded-[2rem] border border-slate-800 space-y-2">
+        <input value={filter.query} onChange={(e) => update({ query: e.target.value })} placeholder="Search records…"
+          className="w-full bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold" />
+        <div className="grid grid-cols-2 gap-2">
+          {fields.branch && (
+            <select value={filter.branch} onChange={(e) => update({ branch: e.target.value })} className={selectClass}>
+              <option value="">All branches</option>
+              {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
+            </select>
+          )}
+          {fields.year && (
+            <select value={filter.year} onChange={(e) => update({ year: e.target.value })} className={selectClass}>
+              <option value="">All years</option>
+              {YEARS.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          )}
+          {fields.division && (
+            <select value={filter.division} onChange={(e) => update({ division: e.target.value })} className={selectClass}>
+              <option value="">All divisions</option>
+              {DIVISIONS.map(d => <option key={d} value={d}>Div {d}</option>)}
+            </select>
+          )}
+          <select value={filter.sort} onChange={(e) => update({ sort: e.target.value as RecordSort })} className={selectClass}>
+            {(Object.keys(SORT_LABELS) as RecordSort[])
+              .filter(s => fields.date || !s.startsWith('DATE'))
+              .map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+          </select>
+          {fields.date && (
+            <>
+              <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} title={`${dateFieldOf(category)} from`} className={selectClass} />
+              <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} title={`${dateFieldOf(category)} to`} className={selectClass} />
+            </>
+          )}
+        </div>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="bg-blue-600/10 p-4 rounded-[2rem] border border-blue-600/40 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-[9px] font-black text-blue-300 uppercase tracking-widest">{selectedIds.length} selected</span>
+            <div className="flex gap-2">
+              <button onClick={() => setSelected(new Set())} className="text-[9px] font-black text-slate-400 uppercase px-3 py-1 bg-slate-800 rounded-full">Clear</button>
+              <button onClick={bulkDelete} disabled={disabled} className="text-[9px] font-black text-rose-500 uppercase px-3 py-1 bg-rose-500/10 rounded-full disabled:opacity-50">Delete</button>
+            </div>
+          </div>
+          {bulkColumns.length > 0 && (
+            <div className="flex gap-2">
+              <select value={bulkField} onChange={(e) => { setBulkField(e.target.value); setBulkValue(''); }} className={`${selectClass} flex-1`}>
+                <option value="">Set field…</option>
+                {bulkColumns.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+              </select>
+              {bulkColumn?.kind === 'select' ? (
+                <select value={bulkValue} onChange={(e) => setBulkValue(e.target.value)} className={`${selectClass} flex-1`}>
+                  <option value="">—</option>
+                  {bulkColumn.options.map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+              ) : (
+                <input type={bulkColumn?.kind === 'number' ? 'number' : 'text'} value={bulkValue} disabled={!bulkColumn} onChange={(e) => setBulkValue(e.target.value)} className={`${selectClass} flex-1 min-w-0`} />
+              )}
+              <button onClick={bulkEdit} disabled={disabled || !bulkColumn || !bulkValue}
+                className="shrink-0 px-4 bg-blue-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">Apply</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 pb-4">
+        {filtered.length === 0 ? (
+          <div className="p-12 border border-slate-900 rounded-[2.5rem] text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">{records.length ? 'No Matches' : 'Database Clear'}</div>
+        ) : (
+          <>
+            <label className="flex items-center gap-3 px-6 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+              <input type="checkbox" checked={allFilteredSelected} onChange={toggleAll} />
+              Select all {filtered.length}
+            </label>
+            {visible.map((item: any) => (
+              <div key={item.id} className={`bg-slate-900/50 p-6 rounded-[2.5rem] border group hover:bg-slate-900 transition-colors ${selected.has(item.id) ? 'border-blue-600/60' : 'border-slate-800'}`}>
+                <div className="flex justify-between items-center gap-3">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="shrink-0" />
+                  <div className="flex flex-col min-w-0 flex-1">
+                    <span className="text-[11px] font-black text-slate-300 uppercase truncate pr-4">{item.subject || item.name || item.title || item.company || item.day}</span>
+                    <span className="text-[8px] font-bold text-slate-600 uppercase mt-1 tracking-widest truncate">
+                      {item.branch || item.category || 'GLOBAL'} • {item.year || 'ALL'}{item.division ? ` • Div ${item.division}` : ''}{item.student ? ` • #${item.student.slice(0, 6)}` : ''}{item.date ? ` • ${item.date}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {columns.length > 0 && (
+                      <button onClick={() => setEditingId(editingId === item.id ? null : item.id)} className={`w-10 h-10 rounded-xl transition-all ${editingId === item.id ? 'bg-blue-600 text-white' : 'bg-blue-500/10 text-blue-400 hover:bg-blue-600 hover:text-white'}`}><i className="fa-solid fa-pen text-sm"></i></button>
+                    )}
+                    <button onClick={() => onDelete(item.id)} className="w-10 h-10 rounded-xl bg-rose-500/10 text-rose-500 hover:bg-rose-500 hover:text-white transition-all"><i className="fa-solid fa-trash-can text-sm"></i></button>
+                  </div>
+                </div>
+                {editingId === item.id && (
+                  <RecordEditor
+                    category={category}
+                    collection={collection}
+                    record={item}
+                    disabled={disabled}
+                    onSave={async (record) => { if (await onSaveEdit(record)) setEditingId(null); }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between px-2">
+          <button onClick={() => setPage(current - 1)} disabled={current === 0} className="px-4 py-2 bg-slate-800 text-slate-400 rounded-xl text-[9px] font-black uppercase disabled:opacity-30">Prev</button>
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Page {current + 1} / {pages}</span>
+          <button onClick={() => setPage(current + 1)} disabled={current >= pages - 1} className="px-4 py-2 bg-slate-800 text-slate-400 rounded-xl text-[9px] font-black uppercase disabled:opacity-30">Next</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordBrowser;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AdminCategory, TimetableEntry } from '../../types';
+import { RecordCollection } from '../../services/mergeService';
+import { STAGING_COLUMNS, checkRecord } from '../../services/stagingService';
+import { changedFields } from '../../services/importService';
+
+interface RecordEditorProps {
+  category: AdminCategory;
+  collection: RecordCollection;
+  record: any;
+  disabled?: boolean;
+  onSave: (record: any) => void;
+  onCancel: () => void;
+}
+
+type Slot = TimetableEntry['slots'][number];
+
+const newSlot = (): Slot => ({ id: Math.random().toString(36).substr(2, 9), time: '', subject: '', room: '', color: '' });
+
+const RecordEditor: React.FC<RecordEditorProps> = ({ category, collection, record, disabled, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<any>(record);
+  const columns = STAGING_COLUMNS[category] || [];
+  const { record: normalized, issues } = checkRecord({ category, collection }, draft);
+  const issueFields = new Set(issues.map(issue => issue.field));
+  const changed = changedFields(record, normalized).length > 0;
+
+  const update = (key: string, value: any) => setDraft((prev: any) => ({ ...prev, [key]: value }));
+
+  const slots: Slot[] = draft.slots || [];
+  const updateSlot = (index: number, patch: Partial<Slot>) => update('slots', slots.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  const moveSlot = (index: number, by: number) => {
+    const next = [...slots];
+    const [slot] = next.splice(index, 1);
+    next.splice(index + by, 0, slot);
+    update('slots', next);
+  };
+
+  const fieldClass = (key: string) =>
+    `w-full rounded-xl px-3 py-2 text-[10px] text-slate-200 font-bold outline-none border ${issueFields.has(key) ? 'border-rose-500 bg-rose-500/10' : 'border-slate-700 bg-slate-800'}`;
+
+  return (
+    <div className="space-y-3 pt-3">
+      {columns.map(col => (
+        <div key={col.key} className="space-y-1">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{col.kind === 'slots' ? 'Slots' : col.label}</span>
+          {col.kind === 'slots' ? (
+            <div className="space-y-2">
+              {slots.map((slot, i) => (
+                <div key={slot.id} className="flex items-center gap-1">
+                  <input value={slot.time} placeholder="Time" disabled={disabled} onChange={(e) => updateSlot(i, { time: e.target.value })} className={`${fieldClass('slots')} w-20 shrink-0`} />
+                  <input value={slot.subject} placeholder="Subject" disabled={disabled} onChange={(e) => updateSlot(i, { subject: e.target.value })} className={fieldClass('slots')} />
+                  <input value={slot.room} placeholder="Room" disabled={disabled} onChange={(e) => updateSlot(i, { room: e.target.value })} className={`${fieldClass('slots')} w-16 shrink-0`} />
+                  <div className="flex flex-col shrink-0">
+                    <button type="button" onClick={() => moveSlot(i, -1)} disabled={disabled || i === 0} className="text-[8px] text-slate-400 disabled:opacity-20"><i className="fa-solid fa-chevron-up"></i></button>
+                    <button type="button" onClick={() => moveSlot(i, 1)} disabled={disabled || i === slots.length - 1} className="text-[8px] text-slate-400 disabled:opacity-20"><i className="fa-solid fa-chevron-down"></i></button>
+                  </div>
+                  <button type="button" onClick={() => update('slots', slots.filter((_, j) => j !== i))} disabled={disabled}
+                    className="shrink-0 w-7 h-7 rounded-lg bg-rose-500/10 text-rose-500 text-[10px]"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+              ))}
+              <button type="button" onClick={() => update('slots', [...slots, newSlot()])} disabled={disabled}
+                className="w-full py-2 bg-slate-800 text-blue-400 rounded-xl text-[9px] font-black uppercase tracking-widest">+ Add Slot</button>
+            </div>
+          ) : col.kind === 'select' ? (
+            <select value={draft[col.key] ?? ''} disabled={disabled} onChange={(e) => update(col.key, e.target.value)} className={fieldClass(col.key)}>
+              {!col.options.includes(draft[col.key]) && <option value={draft[col.key] ?? ''}>{draft[col.key] || '—'}</option>}
+              {col.options.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          ) : (
+            <input type={col.kind} value={draft[col.key] ?? ''} disabled={disabled}
+              onChange={(e) => update(col.key, col.kind === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+              className={fieldClass(col.key)} />
+          )}
+        </div>
+      ))}
+
+      {issues.length > 0 && <p className="text-[9px] text-rose-400 font-bold">{issues.map(issue => issue.message).join(' • ')}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onCancel} disabled={disabled} className="py-3 bg-slate-800 text-slate-400 rounded-2xl text-[9px] font-black uppercase tracking-widest">Cancel</button>
+        <button onClick={() => onSave(normalized)} disabled={disabled || issues.length > 0 || !changed}
+          className="py-3 bg-blue-600 text-white rounded-2xl text-[9px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">Save & Sync</button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordEditor;
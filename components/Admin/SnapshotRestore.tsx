@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { AppData } from '../../types';
+import { DATASET_LABELS, RestorableKey, SnapshotMeta, Snapshots, diffSnapshot } from '../../services/snapshotService';
+
+interface SnapshotRestoreProps {
+  current: AppData;
+  disabled?: boolean;
+  onRestore: (snapshot: AppData, keys: RestorableKey[], meta: SnapshotMeta) => Promise<void>;
+}
+
+const SnapshotRestore: React.FC<SnapshotRestoreProps> = ({ current, disabled, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [selected, setSelected] = useState<{ meta: SnapshotMeta; data: AppData } | null>(null);
+  const [keys, setKeys] = useState<Set<RestorableKey>>(new Set());
+  const [error, setError] = useState('');
+
+  const refresh = () => Snapshots.list().then(setSnapshots);
+
+  useEffect(() => { refresh(); }, [current.revision]);
+
+  const open = async (meta: SnapshotMeta) => {
+    setError('');
+    try {
+      const data = await Snapshots.load(meta);
+      if (!data) throw new Error('missing');
+      setSelected({ meta, data });
+      // Pre-select only what would actually change.
+      setKeys(new Set(diffSnapshot(current, data).filter(d => d.restored || d.changed || d.dropped).map(d => d.key)));
+    } catch (e) {
+      setError('Snapshot could not be loaded.');
+    }
+  };
+
+  const toggle = (key: RestorableKey) => setKeys(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const restore = async () => {
+    if (!selected || !keys.size) return;
+    if (!confirm(`Restore ${keys.size} section(s) to how they were before "${selected.meta.label}"?`)) return;
+    await onRestore(selected.data, [...keys], selected.meta);
+    setSelected(null);
+  };
+
+  if (selected) {
+    const diffs = diffSnapshot(current, selected.data);
+    return (
+      <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h4 className="text-sm font-black text-white uppercase tracking-tighter">Before “{selected.meta.label}”</h4>
+            <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+              {selected.meta.origin === 'HUB' ? 'Hub' : 'This device'} • rev {selected.meta.revision} • {new Date(selected.meta.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={() => setSelected(null)} className="shrink-0 text-[9px] font-black text-slate-400 uppercase px-3 py-1 bg-slate-800 rounded-full">Back</button>
+        </div>
+
+        <div className="space-y-2">
+          {diffs.map(d => {
+            const same = !d.restored && !d.changed && !d.dropped;
+            return (
+              <label key={d.key} className={`flex items-center gap-3 p-3 rounded-2xl border ${keys.has(d.key) ? 'border-blue-600/60 bg-blue-600/10' : 'border-slate-800 bg-slate-800/40'} ${same ? 'opacity-40' : ''}`}>
+                <input type="checkbox" checked={keys.has(d.key)} disabled={same} onChange={() => toggle(d.key)} />
+                <span className="flex-1 text-[10px] font-black text-slate-300 uppercase tracking-widest">{DATASET_LABELS[d.key]}</span>
+                <span className="text-[9px] font-bold text-slate-500">
+                  {same ? 'No change' : d.key === 'campusMap' ? 'Image differs' : (
+                    <>
+                      {d.restored > 0 && <span className="text-emerald-400">+{d.restored} back </span>}
+                      {d.changed > 0 && <span className="text-amber-400">~{d.changed} reverted </span>}
+                      {d.dropped > 0 && <span className="text-rose-400">−{d.dropped} newer</span>}
+                    </>
+                  )}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">Admin accounts and upload history are never restored.</p>
+        <button onClick={restore} disabled={disabled || !keys.size} className="w-full py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50 shadow-lg shadow-blue-600/20">
+          Restore {keys.size} Section(s)
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-black text-white uppercase tracking-tighter">Snapshots</h4>
+          <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">Taken before every sync</p>
+        </div>
+        <button onClick={refresh} className="text-[9px] font-black text-blue-400 uppercase px-3 py-1 bg-blue-500/10 rounded-full">Refresh</button>
+      </div>
+      {error && <p className="text-[9px] text-rose-400 font-bold">{error}</p>}
+      <div className="space-y-2 max-h-[40vh] overflow-y-auto no-scrollbar">
+        {snapshots.length === 0 ? (
+          <div className="p-8 text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">No snapshots yet</div>
+        ) : snapshots.map(meta => (
+          <button key={meta.id} onClick={() => open(meta)} disabled={disabled}
+            className="w-full text-left bg-slate-800/50 p-4 rounded-2xl border border-slate-800 hover:bg-slate-800 transition-colors">
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-[10px] font-black text-slate-300 uppercase truncate">Before {meta.label || 'sync'}</span>
+              <span className="shrink-0 text-[8px] font-black uppercase px-2 py-0.5 rounded-full text-slate-400 bg-slate-700/50">{meta.origin === 'HUB' ? 'Hub' : 'Device'}</span>
+            </div>
+            <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mt-1">rev {meta.revision} • {new Date(meta.createdAt).toLocaleString()}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotRestore;
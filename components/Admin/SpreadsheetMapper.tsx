@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AdminCategory } from '../../types';
+import {
+  ColumnMapping, IMPORT_FIELDS, ImportTemplate, SheetGrid, TemplateStore, applyMapping, detectHeaderRow,
+  headersOf, missingRequiredFields, suggestMapping, templateFits,
+} from '../../services/spreadsheetImporter';
+
+interface SpreadsheetMapperProps {
+  category: AdminCategory;
+  fileName: string;
+  sheets: SheetGrid[];
+  disabled?: boolean;
+  onImport: (records: any[], source: string) => void;
+  onUseAI: () => void;
+  onCancel: () => void;
+}
+
+interface SheetState {
+  include: boolean;
+  headerRow: number;
+  mapping: ColumnMapping;
+}
+
+const FIXED = '__fixed__';
+
+const SpreadsheetMapper: React.FC<SpreadsheetMapperProps> = ({ category, fileName, sheets, disabled, onImport, onUseAI, onCancel }) => {
+  const fields = IMPORT_FIELDS[category] || [];
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [active, setActive] = useState(0);
+  const [templateName, setTemplateName] = useState('');
+  const [states, setStates] = useState<SheetState[]>(() => sheets.map(sheet => {
+    const headerRow = detectHeaderRow(sheet.rows, category);
+    return { include: true, headerRow, mapping: suggestMapping(category, headersOf(sheet, headerRow)) };
+  }));
+
+  // A saved template that fits a sheet's headers beats the name-based guess.
+  useEffect(() => {
+    TemplateStore.list().then(all => {
+      const own = all.filter(t => t.category === category);
+      setTemplates(own);
+      setStates(prev => prev.map((state, i) => {
+        const fit = own.find(t => templateFits(t, headersOf(sheets[i], state.headerRow)));
+        return fit ? { ...state, mapping: { ...state.mapping, ...fit.mapping } } : state;
+      }));
+    });
+  }, [category]);
+
+  const sheet = sheets[active];
+  const state = states[active];
+  const headers = headersOf(sheet, state.headerRow);
+
+  const update = (patch: Partial<SheetState>) => setStates(prev => prev.map((s, i) => (i === active ? { ...s, ...patch } : s)));
+
+  const setHeaderRow = (headerRow: number) => update({ headerRow, mapping: suggestMapping(category, headersOf(sheet, headerRow)) });
+
+  const setSource = (field: string, choice: string) =>
+    update({ mapping: { ...state.mapping, [field]: choice === '' ? null : choice === FIXED ? { value: '' } : { column: choice } } });
+
+  const included = states.map((s, i) => ({ ...s, sheet: sheets[i] })).filter(s => s.include);
+  const blocking = included
+    .map(s => ({ name: s.sheet.name, missing: missingRequiredFields(category, s.mapping) }))
+    .filter(s => s.missing.length);
+
+  const preview = useMemo(() => applyMapping(category, sheet, state.headerRow, state.mapping).slice(0, 3), [sheet, state]);
+
+  const handleImport = () => {
+    const records = included.flatMap(s => applyMapping(category, s.sheet, s.headerRow, s.mapping));
+    onImport(records, `${fileName} (${included.map(s => s.sheet.name).join(', ')})`);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    setTemplates((await TemplateStore.save(templateName, category, state.mapping)).filter(t => t.category === category));
+    setTemplateName('');
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (template) update({ mapping: { ...suggestMapping(category, headers), ...template.mapping } });
+  };
+
+  const selectClass = 'w-full bg-slate-800 rounded-xl px-2 py-2 text-[10px] text-slate-200 font-bold outline-none border border-slate-700';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-[3rem] p-6 space-y-4 shadow-xl">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="text-sm font-black text-white uppercase tracking-tighter">Map Columns</h4>
+          <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest truncate">{fileName} • {sheets.length} sheet(s) • Imported locally</p>
+        </div>
+        <button onClick={onCancel} disabled={disabled} className="shrink-0 text-[9px] font-black text-slate-400 uppercase px-3 py-1 bg-slate-800 rounded-full">Cancel</button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {sheets.map((s, i) => (
+          <button key={s.name} onClick={() => setActive(i)}
+            className={`shrink-0 flex items-center gap-2 px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest ${i === active ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500'}`}>
+            <input type="checkbox" checked={states[i].include} onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setStates(prev => prev.map((st, j) => (j === i ? { ...st, include: e.target.checked } : st)))} />
+            {s.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest ml-1">Header Row</span>
+          <select value={state.headerRow} onChange={(e) => setHeaderRow(Number(e.target.value))} className={selectClass}>
+            {sheet.rows.slice(0, 15).map((row, i) => (
+              <option key={i} value={i}>{i + 1}: {row.filter(Boolean).slice(0, 3).join(' / ').slice(0, 30) || '(blank)'}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest ml-1">Template</span>
+          <select value="" onChange={(e) => applyTemplate(e.target.value)} className={selectClass}>
+            <option value="">{templates.length ? 'Apply saved…' : 'None saved'}</option>
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {fields.map(field => {
+          const source = state.mapping[field.key];
+          const choice = !source ? '' : 'value' in source ? FIXED : source.column;
+          return (
+            <div key={field.key} className="grid grid-cols-[6rem_1fr] gap-2 items-center">
+              <span className={`text-[9px] font-black uppercase tracking-widest ${field.required && !source ? 'text-rose-400' : 'text-slate-400'}`}>
+                {field.label}{field.required ? ' *' : ''}
+              </span>
+              <div className="flex gap-2">
+                <select value={choice} onChange={(e) => setSource(field.key, e.target.value)} className={selectClass}>
+                  <option value="">— Not in sheet —</option>
+                  {headers.filter(Boolean).map(h => <option key={h} value={h}>{h}</option>)}
+                  <option value={FIXED}>Same for every row…</option>
+                </select>
+                {source && 'value' in source && (
+                  <input value={source.value} placeholder="Value" onChange={(e) => update({ mapping: { ...state.mapping, [field.key]: { value: e.target.value } } })}
+                    className={`${selectClass} max-w-[6rem]`} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {preview.length > 0 && (
+        <pre className="text-[9px] text-slate-400 bg-slate-950 rounded-xl p-3 overflow-x-auto max-h-32">{JSON.stringify(preview.map(({ id, ...r }) => r), null, 1)}</pre>
+      )}
+
+      <div className="flex gap-2">
+        <input value={templateName} onChange={(e) => setTemplateName(e.target.value)} placeholder="Save mapping as template…"
+          className="flex-1 bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold" />
+        <button onClick={handleSaveTemplate} disabled={!templateName.trim()} className="px-4 bg-slate-800 text-blue-400 rounded-2xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">Save</button>
+      </div>
+
+      {blocking.length > 0 && (
+        <p className="text-[9px] text-rose-400 font-bold">{blocking.map(b => `${b.name}: map ${b.missing.join(', ')}`).join(' • ')}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onUseAI} disabled={disabled} className="py-4 bg-slate-800 text-violet-400 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">Use AI Instead</button>
+        <button onClick={handleImport} disabled={disabled || !included.length || blocking.length > 0}
+          className="py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50 shadow-lg shadow-blue-600/20">
+          Import {included.length} Sheet(s)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetMapper;
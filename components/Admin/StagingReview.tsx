@@ -0,0 +1,149 @@
+import React from 'react';
+import { STAGING_COLUMNS, StagedRow, StagedRowStatus, StagingDraft, checkRecord, publishableRecords, slotsToText, textToSlots } from '../../services/stagingService';
+import { ImportPlan, defaultImportMode } from '../../services/importService';
+import ImportDiffPreview from './ImportDiffPreview';
+
+interface StagingReviewProps {
+  draft: StagingDraft;
+  plan: ImportPlan; // what publishing the accepted rows would do to the live collection
+  disabled?: boolean;
+  onChange: (draft: StagingDraft) => void;
+  onDiscard: () => void;
+  onPublish: () => void;
+}
+
+const STATUS_STYLES: Record<StagedRowStatus, string> = {
+  PENDING: 'border-slate-800',
+  ACCEPTED: 'border-emerald-600/60',
+  REJECTED: 'border-rose-600/60',
+};
+
+const StagingReview: React.FC<StagingReviewProps> = ({ draft, plan, disabled, onChange, onDiscard, onPublish }) => {
+  const columns = STAGING_COLUMNS[draft.category] || [];
+  const checked = draft.rows.map(row => checkRecord(draft, row.record));
+  const publishable = publishableRecords(draft).length;
+  const acceptedWithIssues = draft.rows.filter((row, i) => row.status === 'ACCEPTED' && checked[i].issues.length).length;
+
+  const updateRow = (id: string, patch: Partial<StagedRow>) =>
+    onChange({ ...draft, rows: draft.rows.map(row => (row.id === id ? { ...row, ...patch } : row)) });
+
+  const updateField = (row: StagedRow, key: string, value: any) =>
+    // An edited field has been looked at, so it is no longer "uncertain".
+    updateRow(row.id, { record: { ...row.record, [key]: value }, uncertain: row.uncertain.filter(f => f !== key) });
+
+  const acceptAllValid = () =>
+    onChange({ ...draft, rows: draft.rows.map((row, i) => (row.status === 'PENDING' && !checked[i].issues.length ? { ...row, status: 'ACCEPTED' } : row)) });
+
+  const cellClass = (row: StagedRow, key: string, issueFields: Set<string | null>) => {
+    const tone = issueFields.has(key)
+      ? 'border-rose-500 bg-rose-500/10'
+      : row.uncertain.includes(key) ? 'border-amber-400 bg-amber-400/10' : 'border-slate-700 bg-slate-800';
+    return `w-full rounded-xl px-2 py-2 text-[10px] text-slate-200 font-bold outline-none border ${tone}`;
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-[3rem] p-6 space-y-4 shadow-xl">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="text-sm font-black text-white uppercase tracking-tighter">Review Before Publish</h4>
+          <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest truncate">{draft.source} • {draft.rows.length} rows • {new Date(draft.createdAt).toLocaleString()}</p>
+        </div>
+        <button onClick={() => confirm('Discard this draft?') && onDiscard()} disabled={disabled} className="shrink-0 text-[9px] font-black text-rose-500 uppercase px-3 py-1 bg-rose-500/10 rounded-full">Discard</button>
+      </div>
+
+      <div className="flex gap-3 text-[8px] font-black uppercase tracking-widest">
+        <span className="text-amber-400"><i className="fa-solid fa-circle-question mr-1"></i>AI unsure</span>
+        <span className="text-rose-400"><i className="fa-solid fa-triangle-exclamation mr-1"></i>Invalid</span>
+      </div>
+
+      <div className="overflow-x-auto no-scrollbar max-h-[50vh] overflow-y-auto">
+        <table className="min-w-full border-separate border-spacing-y-2">
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-slate-900"></th>
+              {columns.map(col => (
+                <th key={col.key} className="px-1 text-left text-[8px] font-black text-slate-500 uppercase tracking-widest whitespace-nowrap">{col.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {draft.rows.map((row, i) => {
+              const { issues } = checked[i];
+              const issueFields = new Set(issues.map(issue => issue.field));
+              return (
+                <React.Fragment key={row.id}>
+                  <tr className={`${row.status === 'REJECTED' ? 'opacity-40' : ''}`}>
+                    <td className={`sticky left-0 bg-slate-900 pr-2 align-top border-l-4 rounded-l-xl ${STATUS_STYLES[row.status]}`}>
+                      <div className="flex flex-col gap-1 pl-1">
+                        <button onClick={() => updateRow(row.id, { status: row.status === 'ACCEPTED' ? 'PENDING' : 'ACCEPTED' })} disabled={disabled}
+                          className={`w-7 h-7 rounded-lg text-[10px] ${row.status === 'ACCEPTED' ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-emerald-500'}`}>
+                          <i className="fa-solid fa-check"></i>
+                        </button>
+                        <button onClick={() => updateRow(row.id, { status: row.status === 'REJECTED' ? 'PENDING' : 'REJECTED' })} disabled={disabled}
+                          className={`w-7 h-7 rounded-lg text-[10px] ${row.status === 'REJECTED' ? 'bg-rose-600 text-white' : 'bg-slate-800 text-rose-500'}`}>
+                          <i className="fa-solid fa-xmark"></i>
+                        </button>
+                        {row.record.provenance && (
+                          <span className="text-[7px] font-black text-slate-500 uppercase text-center" title={`${row.record.provenance.fileName}${row.record.provenance.method === 'SCANNED' ? ' (scanned)' : ''}`}>
+                            p.{row.record.provenance.page}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    {columns.map(col => (
+                      <td key={col.key} className="px-1 align-top min-w-[7rem]">
+                        {col.kind === 'slots' ? (
+                          <textarea rows={3} value={slotsToText(row.record.slots)} disabled={disabled}
+                            onChange={(e) => updateField(row, 'slots', textToSlots(e.target.value, row.record.slots))}
+                            className={`${cellClass(row, col.key, issueFields)} min-w-[14rem] font-mono`} />
+                        ) : col.kind === 'select' ? (
+                          <select value={row.record[col.key] ?? ''} disabled={disabled} onChange={(e) => updateField(row, col.key, e.target.value)} className={cellClass(row, col.key, issueFields)}>
+                            {!col.options.includes(row.record[col.key]) && <option value={row.record[col.key] ?? ''}>{row.record[col.key] || '—'}</option>}
+                            {col.options.map(o => <option key={o} value={o}>{o}</option>)}
+                          </select>
+                        ) : (
+                          <input type={col.kind} value={row.record[col.key] ?? ''} disabled={disabled}
+                            onChange={(e) => updateField(row, col.key, col.kind === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+                            className={cellClass(row, col.key, issueFields)} />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                  {issues.length > 0 && row.status !== 'REJECTED' && (
+                    <tr>
+                      <td></td>
+                      <td colSpan={columns.length} className="px-1 text-[9px] text-rose-400 font-bold">{issues.map(issue => issue.message).join(' • ')}</td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {acceptedWithIssues > 0 && (
+        <p className="text-[9px] text-rose-400 font-bold uppercase tracking-widest">{acceptedWithIssues} accepted row(s) still invalid and won't be published</p>
+      )}
+
+      {publishable > 0 && (
+        <ImportDiffPreview
+          collection={draft.collection}
+          mode={draft.mode ?? defaultImportMode(draft.collection)}
+          plan={plan}
+          disabled={disabled}
+          onModeChange={(mode) => onChange({ ...draft, mode })}
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={acceptAllValid} disabled={disabled} className="py-4 bg-slate-800 text-emerald-400 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50">Accept All Valid</button>
+        <button onClick={onPublish} disabled={disabled || publishable === 0} className="py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 disabled:opacity-50 shadow-lg shadow-blue-600/20">
+          Publish {publishable}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StagingReview;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { UploadLog } from '../../types';
+import { LogFilter, filterLogs, logsToCsv } from '../../services/auditService';
+import { downloadFile } from '../../services/downloadService';
+
+interface UploadHistoryProps {
+  logs: UploadLog[];
+}
+
+const PAGE_SIZE = 25;
+
+const STATUS_STYLES: Record<UploadLog['status'], string> = {
+  SUCCESS: 'text-emerald-400 bg-emerald-500/10',
+  PARTIAL: 'text-amber-400 bg-amber-500/10',
+  FAILED: 'text-rose-400 bg-rose-500/10',
+  STAGED: 'text-blue-400 bg-blue-500/10',
+};
+
+const UploadHistory: React.FC<UploadHistoryProps> = ({ logs }) => {
+  const [filter, setFilter] = useState<LogFilter>({ category: '', status: '', actor: '', query: '' });
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const categories = useMemo(() => [...new Set(logs.map(l => l.category).filter(Boolean))].sort(), [logs]);
+  const actors = useMemo(() => [...new Set(logs.map(l => l.actor).filter(Boolean))].sort(), [logs]);
+  const filtered = useMemo(() => filterLogs(logs, filter), [logs, filter]);
+
+  const update = (patch: Partial<LogFilter>) => {
+    setFilter(prev => ({ ...prev, ...patch }));
+    setShown(PAGE_SIZE);
+  };
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const selectClass = 'bg-slate-800 rounded-xl px-2 py-2 text-[10px] text-slate-200 font-bold outline-none border border-slate-700';
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-[3rem] border border-slate-800 shadow-2xl space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-black text-white uppercase tracking-tighter">Upload History</h4>
+          <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">{filtered.length} of {logs.length} entries</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => downloadFile(logsToCsv(filtered), 'text/csv', `quadx-uploads-${stamp}.csv`)} disabled={!filtered.length}
+            className="text-[9px] font-black text-blue-400 uppercase px-3 py-1 bg-blue-500/10 rounded-full disabled:opacity-50">CSV</button>
+          <button onClick={() => downloadFile(JSON.stringify(filtered, null, 2), 'application/json', `quadx-uploads-${stamp}.json`)} disabled={!filtered.length}
+            className="text-[9px] font-black text-blue-400 uppercase px-3 py-1 bg-blue-500/10 rounded-full disabled:opacity-50">JSON</button>
+        </div>
+      </div>
+
+      <input value={filter.query} onChange={(e) => update({ query: e.target.value })} placeholder="Search file, message or hash…"
+        className="w-full bg-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-200 outline-none border border-slate-700 font-bold" />
+      <div className="grid grid-cols-3 gap-2">
+        <select value={filter.category} onChange={(e) => update({ category: e.target.value })} className={selectClass}>
+          <option value="">All sections</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={filter.status} onChange={(e) => update({ status: e.target.value as LogFilter['status'] })} className={selectClass}>
+          <option value="">Any status</option>
+          {Object.keys(STATUS_STYLES).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={filter.actor} onChange={(e) => update({ actor: e.target.value })} className={selectClass}>
+          <option value="">All admins</option>
+          {actors.map(a => <option key={a} value={a}>{a}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto no-scrollbar">
+        {filtered.length === 0 ? (
+          <div className="p-8 text-center text-[10px] text-slate-700 font-black uppercase tracking-widest">No entries</div>
+        ) : filtered.slice(0, shown).map(log => (
+          <div key={log.id} className="bg-slate-800/50 p-4 rounded-2xl border border-slate-800 space-y-1">
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-[10px] font-black text-slate-300 uppercase truncate">{log.action.replace('_', ' ')} • {log.category || '—'}</span>
+              <span className={`shrink-0 text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[log.status]}`}>{log.status}</span>
+            </div>
+            {log.fileName && <p className="text-[10px] text-slate-400 font-bold truncate">{log.fileName}</p>}
+            <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+              {log.actor || 'unknown'} • {new Date(log.timestamp).toLocaleString()} • +{log.counts.added} ~{log.counts.updated} −{log.counts.removed}{log.counts.skipped ? ` • ${log.counts.skipped} skipped` : ''}
+            </p>
+            {log.message && <p className="text-[9px] text-slate-400">{log.message}</p>}
+            {log.sourceHash && <p className="text-[8px] text-slate-600 font-mono truncate" title={log.sourceHash}>sha256 {log.sourceHash.slice(0, 16)}…</p>}
+          </div>
+        ))}
+      </div>
+
+      {filtered.length > shown && (
+        <button onClick={() => setShown(shown + PAGE_SIZE)} className="w-full py-3 bg-slate-800 text-slate-400 rounded-2xl text-[9px] font-black uppercase tracking-widest">Show More</button>
+      )}
+    </div>
+  );
+};
+
+export default UploadHistory;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { AppData, BookmarkKind } from '../types';
+import { OutboxEntry, OutboxMutation, bookmarkId, toggleBookmark } from '../services/outboxService';
+
+interface BookmarkButtonProps {
+  data: AppData;
+  kind: BookmarkKind;
+  itemId: string;
+  student: string; // see outboxService.studentTag
+  pending: Set<string>;
+  onAction: (mutation: OutboxMutation) => Promise<OutboxEntry>;
+  className?: string;
+}
+
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({ data, kind, itemId, student, pending, onAction, className = '' }) => {
+  const id = bookmarkId(kind, itemId, student);
+  const saved = data.bookmarks.some(b => b.id === id);
+  return (
+    <button onClick={() => onAction(toggleBookmark(data, kind, itemId, student))}
+      title={pending.has(id) ? 'Waiting to sync' : saved ? 'Remove bookmark' : 'Bookmark'}
+      className={`rounded-xl bg-slate-50 dark:bg-slate-800 active:scale-95 transition-all ${className}`}>
+      <i className={`fa-${saved ? 'solid' : 'regular'} fa-bookmark`}></i>
+      {pending.has(id) && <i className="fa-solid fa-clock text-[7px] ml-0.5 opacity-70"></i>}
+    </button>
+  );
+};
+
+export default BookmarkButton;
@@ -1,16 +1,48 @@
 
-import React from 'react';
-import { AppData } from '../../types';
+import React, { useMemo } from 'react';
+import { AppData, StudentProfile } from '../../types';
+import { planForStudent, studentTag, AttendancePlan } from '../../services/attendanceService';
+import { DEFAULT_ATTENDANCE_THRESHOLD } from '../../constants';
 
 interface AttendanceProps {
   data: AppData;
+  profile: StudentProfile | null;
   onBack: () => void;
 }
 
-const Attendance: React.FC<AttendanceProps> = ({ data, onBack }) => {
-  const hasData = data.attendance.length > 0;
+const Attendance: React.FC<AttendanceProps> = ({ data, profile, onBack }) => {
+  const myAttendance = useMemo(() => {
+    if (!profile) return [];
+    const student = studentTag(profile.rollNo);
+    return data.attendance.filter(a => a.student === student);
+  }, [data.attendance, profile]);
+
+  // Rows uploaded before attendance was per student describe the whole class, not this student.
+  const classAttendance = useMemo(() => profile ? data.attendance.filter(a =>
+    !a.student && (!a.branch || a.branch === profile.branch) && (!a.year || a.year === profile.year)
+  ) : [], [data.attendance, profile]);
+
+  const plans = useMemo(() => profile ? planForStudent(myAttendance, data, profile) : {}, [myAttendance, data, profile]);
+
+  const customPolicies = useMemo(() => data.attendancePolicies.filter(p =>
+    (!p.branch || p.branch === profile?.branch) && (!p.year || p.year === profile?.year)
+  ), [data.attendancePolicies, profile]);
+
+  const describePlan = (plan: AttendancePlan) => {
+    const examNote = plan.exam ? `${plan.remainingLectures} lectures left before exam on ${plan.exam.date}` : 'No exam scheduled yet';
+    if (plan.mustAttend > 0) {
+      return plan.reachable
+        ? { tone: 'rose', text: `Attend the next ${plan.mustAttend} in a row to reach ${plan.threshold}%. ${examNote}.` }
+        : { tone: 'rose', text: `Can't reach ${plan.threshold}% before the exam — best possible is ${plan.projectedMax}%. ${examNote}.` };
+    }
+    return plan.canSkip > 0
+      ? { tone: 'emerald', text: `You can skip ${plan.canSkip === Infinity ? 'any' : plan.canSkip} and stay above ${plan.threshold}%. ${examNote}.` }
+      : { tone: 'amber', text: `On the edge — don't miss the next lecture. ${examNote}.` };
+  };
+
+  const hasData = myAttendance.length > 0;
   const averageAttendance = hasData 
-    ? Math.round(data.attendance.reduce((acc, curr) => acc + curr.percentage, 0) / data.attendance.length)
+    ? Math.round(myAttendance.reduce((acc, curr) => acc + curr.percentage, 0) / myAttendance.length)
     : 0;
 
   return (
@@ -26,7 +58,9 @@ const Attendance: React.FC<AttendanceProps> = ({ data, onBack }) => {
         {!hasData ? (
           <div className="text-center py-10">
             <i className="fa-solid fa-chart-line text-4xl text-slate-200 mb-4"></i>
-            <p className="text-slate-400 text-sm">No attendance data uploaded by admin yet.</p>
+            <p className="text-slate-400 text-sm">
+              {profile ? `No attendance records for roll no. ${profile.rollNo} yet.` : 'Set up your profile to see your attendance.'}
+            </p>
           </div>
         ) : (
           <>
@@ -36,39 +70,72 @@ const Attendance: React.FC<AttendanceProps> = ({ data, onBack }) => {
             </div>
 
             <div className="space-y-6">
-              {data.attendance.map((a, i) => (
-                <div key={i} className="space-y-2">
-                  <div className="flex justify-between text-sm font-medium">
-                    <span className="text-slate-700">{a.subject}</span>
-                    <span className={a.percentage < 75 ? 'text-rose-500' : 'text-emerald-500'}>
-                      {a.percentage}%
-                    </span>
-                  </div>
-                  <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
-                    <div 
-                      className={`h-full transition-all duration-1000 ${a.percentage < 75 ? 'bg-rose-400' : 'bg-emerald-400'}`}
-                      style={{ width: `${a.percentage}%` }}
-                    ></div>
-                  </div>
-                  <div className="flex justify-between text-[10px] text-slate-400">
-                    <span>{a.attendedClasses} Attended</span>
-                    <span>{a.totalClasses} Total</span>
-                  </div>
-                  {a.percentage < 75 && (
-                    <div className="text-[10px] text-rose-500 bg-rose-50 px-2 py-1 rounded-md inline-block">
-                      ⚠️ Danger: Below 75% limit
+              {myAttendance.map((a) => {
+                const plan = plans[a.id];
+                const threshold = plan?.threshold ?? DEFAULT_ATTENDANCE_THRESHOLD;
+                const isBelow = a.percentage < threshold;
+                const advice = plan ? describePlan(plan) : null;
+                return (
+                  <div key={a.id} className="space-y-2">
+                    <div className="flex justify-between text-sm font-medium">
+                      <span className="text-slate-700">{a.subject}</span>
+                      <span className={isBelow ? 'text-rose-500' : 'text-emerald-500'}>
+                        {a.percentage}%
+                      </span>
+                    </div>
+                    <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                      <div 
+                        className={`h-full transition-all duration-1000 ${isBelow ? 'bg-rose-400' : 'bg-emerald-400'}`}
+                        style={{ width: `${a.percentage}%` }}
+                      ></div>
                     </div>
-                  )}
-                </div>
-              ))}
+                    <div className="flex justify-between text-[10px] text-slate-400">
+                      <span>{a.attendedClasses} Attended</span>
+                      <span>{a.totalClasses} Total</span>
+                    </div>
+                    {isBelow && (
+                      <div className="text-[10px] text-rose-500 bg-rose-50 px-2 py-1 rounded-md inline-block">
+                        ⚠️ Danger: Below {threshold}% limit
+                      </div>
+                    )}
+                    {advice && (
+                      <div className={`text-[10px] px-2 py-1 rounded-md ${advice.tone === 'rose' ? 'text-rose-600 bg-rose-50' : advice.tone === 'amber' ? 'text-amber-700 bg-amber-50' : 'text-emerald-700 bg-emerald-50'}`}>
+                        <i className="fa-solid fa-calculator mr-1"></i>{advice.text}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </>
         )}
       </div>
       
+      {classAttendance.length > 0 && (
+        <div className="bg-white rounded-3xl p-6 shadow-sm border border-slate-100">
+          <h4 className="text-slate-700 font-bold text-sm mb-1">Class Attendance</h4>
+          <p className="text-slate-400 text-[10px] mb-4">Older figures for your whole class, not for you personally.</p>
+          <div className="space-y-3">
+            {classAttendance.map(a => (
+              <div key={a.id} className="flex justify-between text-xs">
+                <span className="text-slate-600">{a.subject}</span>
+                <span className="text-slate-500">{a.percentage}% • {a.attendedClasses}/{a.totalClasses}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl">
         <h4 className="text-amber-800 font-bold text-sm mb-1">Attendance Policy</h4>
-        <p className="text-amber-700 text-xs">Minimum 75% attendance is required to be eligible for final examinations.</p>
+        <p className="text-amber-700 text-xs">Minimum {DEFAULT_ATTENDANCE_THRESHOLD}% attendance is required to be eligible for final examinations.</p>
+        {customPolicies.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {customPolicies.map(p => (
+              <li key={p.id} className="text-amber-700 text-xs">• {p.subject}: minimum {p.threshold}%</li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
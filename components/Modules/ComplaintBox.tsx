@@ -1,52 +1,121 @@
 
 import React, { useState } from 'react';
-import { AppData, Complaint } from '../../types';
+import { AppData, ModerationFlag } from '../../types';
+import { OutboxEntry, OutboxMutation } from '../../services/outboxService';
+import { createComplaint } from '../../services/complaintService';
+import { MyReports as TrackedReports, issueTrackingKey, trackingToken } from '../../services/trackingService';
+import { seal, sealingKey } from '../../services/complaintCrypto';
 import { PersistenceService } from '../../services/persistenceService';
+import { ComplaintLimiter, FLAG_LABELS, scanText, solveProof } from '../../services/moderationService';
+import MyReports from './MyReports';
 
 interface ComplaintBoxProps {
-  setAppData: (newData: AppData | ((prev: AppData) => AppData)) => Promise<void>;
+  data: AppData;
+  outbox: OutboxEntry[];
+  onSubmit: (mutation: OutboxMutation) => Promise<OutboxEntry>;
   onBack: () => void;
 }
 
-const ComplaintBox: React.FC<ComplaintBoxProps> = ({ setAppData, onBack }) => {
-  const [submitted, setSubmitted] = useState(false);
+const ComplaintBox: React.FC<ComplaintBoxProps> = ({ data, outbox, onSubmit, onBack }) => {
+  const [tab, setTab] = useState<'NEW' | 'MINE'>('NEW');
+  const [submittedEntry, setSubmittedEntry] = useState<OutboxEntry | null>(null);
+  const [token, setToken] = useState('');
+  const [copied, setCopied] = useState(false);
   const [complaintText, setComplaintText] = useState('');
   const [isSyncing, setIsSyncing] = useState(false);
+  const [warning, setWarning] = useState<ModerationFlag[] | null>(null);
+  const [blocked, setBlocked] = useState('');
+  const [acceptedKey, setAcceptedKey] = useState('');
+
+  const queuedReports = outbox.filter(e => e.status === 'PENDING' && e.mutation.collection === 'complaints');
+  const submitted = submittedEntry ? outbox.find(e => e.id === submittedEntry.id) ?? submittedEntry : null;
+  // A hub that checks who writes (rest) keeps students from being handed someone else's key.
+  const key = sealingKey(data, !!PersistenceService.backend.auth);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!complaintText.trim() || isSyncing) return;
 
+    setBlocked('');
+    const limit = await ComplaintLimiter.check(complaintText);
+    if (!limit.ok) {
+      setBlocked(limit.reason === 'DUPLICATE'
+        ? 'You already sent this report. Check My Reports for its status.'
+        : `Too many reports from this device. Try again after ${new Date(limit.retryAt).toLocaleTimeString()}.`);
+      return;
+    }
+    // Flagged text is shown back once; sending it anyway routes it through moderation first.
+    const scan = scanText(complaintText, data.attendance.map(a => a.student).filter((s): s is string => !!s));
+    if (scan.flags.length && !warning) {
+      setWarning(scan.flags);
+      return;
+    }
+
+    // Anyone may have swapped an unverified key, so the student sends to it only after being told once.
+    if (key && !key.verified && acceptedKey !== key.publicKey) {
+      setAcceptedKey(key.publicKey);
+      setBlocked("This hub's encryption key can't be verified, so someone other than the administration might be able to read your report. Send again to use it anyway.");
+      return;
+    }
+
     setIsSyncing(true);
-    const newComplaint: Complaint = {
-      id: Math.random().toString(36).substr(2, 9),
-      text: complaintText,
-      timestamp: new Date().toLocaleString(),
-      status: 'PENDING'
-    };
-
-    // Update local state and trigger global cloud sync
-    await setAppData(prev => ({
-      ...prev,
-      complaints: [newComplaint, ...prev.complaints]
-    }));
-
-    setSubmitted(true);
-    setIsSyncing(false);
-    
-    setTimeout(() => {
-      onBack();
-    }, 2500);
+    try {
+      // The tracking code is saved before anything is sent, so a report is never untraceable to its author's device.
+      const { publicKey, secret } = await issueTrackingKey();
+      // Sealed here, so the hub and every device in between only ever see ciphertext. Flags would describe
+      // the text beside it, so none are sent: admins re-run the same checks once they can read it.
+      const body = key ? await seal(key.publicKey, complaintText) : complaintText;
+      const draft = { ...createComplaint(body), trackingKey: publicKey };
+      const newComplaint = { ...draft, proof: await solveProof(draft) };
+      const code = trackingToken(newComplaint.id, secret);
+      await TrackedReports.add(code, complaintText);
+      await ComplaintLimiter.record(complaintText);
+      setToken(code);
+
+      // Queued on the device first; the outbox keeps retrying until the hub has it.
+      const entry = await onSubmit({ type: 'UPSERT', collection: 'complaints', record: newComplaint });
+      setSubmittedEntry(entry);
+      setComplaintText('');
+      setWarning(null);
+    } catch (e) {
+      setBlocked(e instanceof Error ? e.message : 'Could not send this report. Try again.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const copyToken = async () => {
+    try {
+      await navigator.clipboard.writeText(token);
+      setCopied(true);
+    } catch (e) {
+      setCopied(false);
+    }
   };
 
   if (submitted) {
+    const sent = submitted.status === 'SENT';
     return (
-      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fadeIn">
-        <div className="w-20 h-20 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 rounded-full flex items-center justify-center mb-6 animate-bounce">
-          <i className="fa-solid fa-check text-4xl"></i>
+      <div className="flex flex-col items-center justify-center min-h-[60vh] text-center animate-fadeIn">
+        <div className={`w-20 h-20 rounded-full flex items-center justify-center mb-6 ${sent ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 animate-bounce' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 animate-pulse'}`}>
+          <i className={`fa-solid ${sent ? 'fa-check' : 'fa-cloud-arrow-up'} text-4xl`}></i>
+        </div>
+        <h3 className="text-2xl font-black text-slate-800 dark:text-white mb-2 uppercase tracking-tighter">{sent ? 'Report Sent' : 'Saved Offline'}</h3>
+        <p className="text-slate-500 text-xs font-bold uppercase tracking-widest px-6">
+          {sent ? 'Successfully routed to admin hub.' : "Hub unreachable. Your report is queued on this device and will send automatically once you're back online."}
+        </p>
+        {token && (
+          <div className="mt-6 w-full bg-white dark:bg-slate-900 p-5 rounded-3xl border border-slate-100 dark:border-slate-800 text-left space-y-2">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Your tracking code</p>
+            <p className="text-[10px] font-mono break-all text-slate-700 dark:text-slate-200">{token}</p>
+            <p className="text-[9px] font-bold text-slate-500 leading-relaxed">Saved on this device only. Copy it to follow up from another phone; anyone holding it can reply as you.</p>
+            <button onClick={copyToken} className="text-[9px] font-black text-blue-600 uppercase tracking-widest">{copied ? 'Copied' : 'Copy code'}</button>
+          </div>
+        )}
+        <div className="mt-6 flex gap-3">
+          <button onClick={() => { setSubmittedEntry(null); setTab('MINE'); }} className="px-6 py-3 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest">My Reports</button>
+          <button onClick={onBack} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-2xl text-[10px] font-black uppercase tracking-widest">Done</button>
         </div>
-        <h3 className="text-2xl font-black text-slate-800 dark:text-white mb-2 uppercase tracking-tighter">Report Sent</h3>
-        <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">Successfully routed to admin hub.</p>
       </div>
     );
   }
@@ -60,36 +129,90 @@ const ComplaintBox: React.FC<ComplaintBoxProps> = ({ setAppData, onBack }) => {
         <h2 className="text-2xl font-black text-slate-800 dark:text-white tracking-tighter uppercase">Complaint Box</h2>
       </div>
 
-      <div className="bg-white dark:bg-slate-900 p-8 rounded-[3rem] shadow-xl border border-slate-100 dark:border-slate-800">
-        <div className="bg-blue-50 dark:bg-blue-900/20 p-5 rounded-3xl mb-8 border border-blue-100 dark:border-blue-800/50">
-          <div className="flex gap-4">
-            <i className="fa-solid fa-user-secret text-blue-600 text-2xl"></i>
+      <div className="flex gap-2 p-1.5 bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800">
+        {(['NEW', 'MINE'] as const).map(t => (
+          <button key={t} onClick={() => setTab(t)}
+            className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-slate-900 dark:bg-blue-600 text-white shadow-lg' : 'text-slate-400'}`}>
+            {t === 'NEW' ? 'New Report' : 'My Reports'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'MINE' ? <MyReports data={data} outbox={outbox} onSubmit={onSubmit} /> : (
+        <div className="bg-white dark:bg-slate-900 p-8 rounded-[3rem] shadow-xl border border-slate-100 dark:border-slate-800">
+          {key?.verified ? (
+            <div className="bg-blue-50 dark:bg-blue-900/20 p-5 rounded-3xl mb-8 border border-blue-100 dark:border-blue-800/50">
+              <div className="flex gap-4">
+                <i className="fa-solid fa-user-secret text-blue-600 text-2xl"></i>
+                <div>
+                  <h4 className="font-black text-blue-900 dark:text-blue-300 text-[10px] uppercase tracking-widest">End-to-End Encryption</h4>
+                  <p className="text-blue-700 dark:text-blue-400 text-[9px] font-bold uppercase leading-relaxed mt-1">Encrypted on this phone. Only the administration can read it, and your identity stays anonymous.</p>
+                </div>
+              </div>
+            </div>
+          ) : key ? (
+            <div className="bg-amber-50 dark:bg-amber-900/20 p-5 rounded-3xl mb-8 border border-amber-100 dark:border-amber-800/50">
+              <div className="flex gap-4">
+                <i className="fa-solid fa-lock text-amber-600 text-2xl"></i>
+                <div>
+                  <h4 className="font-black text-amber-900 dark:text-amber-300 text-[10px] uppercase tracking-widest">Encrypted, Key Unverified</h4>
+                  <p className="text-amber-700 dark:text-amber-400 text-[9px] font-bold uppercase leading-relaxed mt-1">Encrypted on this phone, but anyone can change the key on this hub, so this app can't confirm only the administration can read it. Your identity stays anonymous.</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-amber-50 dark:bg-amber-900/20 p-5 rounded-3xl mb-8 border border-amber-100 dark:border-amber-800/50">
+              <div className="flex gap-4">
+                <i className="fa-solid fa-lock-open text-amber-600 text-2xl"></i>
+                <div>
+                  <h4 className="font-black text-amber-900 dark:text-amber-300 text-[10px] uppercase tracking-widest">Not Encrypted</h4>
+                  <p className="text-amber-700 dark:text-amber-400 text-[9px] font-bold uppercase leading-relaxed mt-1">The administration hasn't enabled encryption yet. Your identity stays anonymous, but the text is stored readable on the campus hub.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {queuedReports.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-2xl mb-6 border border-amber-100 dark:border-amber-800/50 flex items-center gap-3">
+              <i className="fa-solid fa-clock-rotate-left text-amber-600"></i>
+              <p className="text-amber-700 dark:text-amber-400 text-[9px] font-black uppercase tracking-widest">
+                {queuedReports.length} report{queuedReports.length > 1 ? 's' : ''} waiting to send
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
             <div>
-              <h4 className="font-black text-blue-900 dark:text-blue-300 text-[10px] uppercase tracking-widest">End-to-End Encryption</h4>
-              <p className="text-blue-700 dark:text-blue-400 text-[9px] font-bold uppercase leading-relaxed mt-1">Your identity remains 100% anonymous. Only the content is shared with the administration.</p>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mb-2 block">State your concern</label>
+              <textarea 
+                rows={6}
+                value={complaintText}
+                onChange={(e) => { setComplaintText(e.target.value); setWarning(null); setBlocked(''); }}
+                className="w-full bg-slate-50 dark:bg-slate-800 rounded-[2rem] p-6 outline-none focus:ring-4 focus:ring-blue-100 dark:focus:ring-blue-500/10 transition-all border border-slate-100 dark:border-slate-700 dark:text-white text-sm font-medium placeholder:text-slate-300 dark:placeholder:text-slate-600"
+                placeholder="Describe the issue clearly..."
+              ></textarea>
             </div>
-          </div>
+            {warning && (
+              <div className="bg-rose-50 dark:bg-rose-900/20 p-4 rounded-2xl border border-rose-100 dark:border-rose-800/50">
+                <p className="text-rose-700 dark:text-rose-400 text-[9px] font-black uppercase tracking-widest">Found: {warning.map(f => FLAG_LABELS[f]).join(', ')}</p>
+                <p className="text-rose-700 dark:text-rose-400 text-[9px] font-bold leading-relaxed mt-1">
+                  Please don't post names, numbers or contact details of other students. Edit them out, or send anyway and an admin will review it before it is handled.
+                </p>
+              </div>
+            )}
+            {blocked && <p className="text-[9px] font-bold text-rose-500 ml-1">{blocked}</p>}
+            <p className="text-[9px] font-bold text-slate-400 leading-relaxed ml-1">
+              Admins may have Google's Gemini AI sort reports by topic. It sees the text but not who sent it. Reports where names or contact details are found are never sent to it, so leave out anything that identifies someone.
+            </p>
+            <button 
+              disabled={!complaintText.trim() || isSyncing}
+              className="w-full py-5 bg-slate-900 dark:bg-blue-600 text-white rounded-[2rem] font-black uppercase tracking-widest hover:bg-black dark:hover:bg-blue-700 transition-all shadow-2xl active:scale-95 disabled:opacity-50"
+            >
+              {isSyncing ? 'Routing...' : warning || (blocked && key?.publicKey === acceptedKey) ? 'Send Anyway' : 'Broadcast to Admin'}
+            </button>
+          </form>
         </div>
-
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mb-2 block">State your concern</label>
-            <textarea 
-              rows={6}
-              value={complaintText}
-              onChange={(e) => setComplaintText(e.target.value)}
-              className="w-full bg-slate-50 dark:bg-slate-800 rounded-[2rem] p-6 outline-none focus:ring-4 focus:ring-blue-100 dark:focus:ring-blue-500/10 transition-all border border-slate-100 dark:border-slate-700 dark:text-white text-sm font-medium placeholder:text-slate-300 dark:placeholder:text-slate-600"
-              placeholder="Describe the issue clearly..."
-            ></textarea>
-          </div>
-          <button 
-            disabled={!complaintText.trim() || isSyncing}
-            className="w-full py-5 bg-slate-900 dark:bg-blue-600 text-white rounded-[2rem] font-black uppercase tracking-widest hover:bg-black dark:hover:bg-blue-700 transition-all shadow-2xl active:scale-95 disabled:opacity-50"
-          >
-            {isSyncing ? 'Routing...' : 'Broadcast to Admin'}
-          </button>
-        </form>
-      </div>
+      )}
     </div>
   );
 };
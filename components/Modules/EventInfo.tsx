@@ -1,20 +1,40 @@
 
 import React, { useState, useMemo } from 'react';
 import { AppData } from '../../types';
+import { OutboxEntry, OutboxMutation, pendingRecordIds, rsvpId, toggleRsvp } from '../../services/outboxService';
+import BookmarkButton from '../BookmarkButton';
 
 interface EventInfoProps {
   data: AppData;
+  student: string; // studentTag of the profile's roll number, '' without a profile
+  outbox: OutboxEntry[];
+  onAction: (mutation: OutboxMutation) => Promise<OutboxEntry>;
   onBack: () => void;
 }
 
-const EventInfo: React.FC<EventInfoProps> = ({ data, onBack }) => {
+const EventInfo: React.FC<EventInfoProps> = ({ data, student, outbox, onAction, onBack }) => {
   const categories = ['General', 'Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC'];
   const [activeCat, setActiveCat] = useState('General');
+  const pending = useMemo(() => pendingRecordIds(outbox), [outbox]);
 
   const filteredEvents = useMemo(() => {
     return data.events.filter(e => e.category === activeCat);
   }, [data.events, activeCat]);
 
+  const renderActions = (eventId: string) => {
+    const going = data.rsvps.some(r => r.id === rsvpId(eventId, student));
+    return (
+      <div className="flex gap-2 mt-4">
+        <button onClick={() => onAction(toggleRsvp(data, eventId, student))}
+          className={`flex-1 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${going ? 'bg-pink-600 text-white shadow-lg' : 'bg-pink-50 dark:bg-pink-900/20 text-pink-600'}`}>
+          {going ? "I'm Going" : 'RSVP'}
+          {pending.has(rsvpId(eventId, student)) && <i className="fa-solid fa-clock ml-2 opacity-70" title="Waiting to sync"></i>}
+        </button>
+        <BookmarkButton data={data} kind="EVENT" itemId={eventId} student={student} pending={pending} onAction={onAction} className="w-10 text-pink-600" />
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6 animate-fadeIn">
       <div className="flex items-center gap-4">
@@ -54,7 +74,9 @@ const EventInfo: React.FC<EventInfoProps> = ({ data, onBack }) => {
                 <p className="text-[10px] text-slate-500 mb-4 font-bold uppercase leading-relaxed tracking-tight">{ev.description}</p>
                 <div className="flex items-center gap-2 text-slate-400 text-[9px] font-black uppercase">
                   <i className="fa-solid fa-location-dot"></i> {ev.venue}
+                  <span className="ml-auto">{data.rsvps.filter(r => r.eventId === ev.id).length} going</span>
                 </div>
+                {student && renderActions(ev.id)}
               </div>
             </div>
           ))
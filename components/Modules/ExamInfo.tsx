@@ -1,20 +1,19 @@
 
 import React, { useState, useMemo } from 'react';
-import { AppData } from '../../types';
+import { AppData, StudentProfile } from '../../types';
+import { BRANCHES, YEARS, DIVISIONS } from '../../constants';
 
 interface ExamInfoProps {
   data: AppData;
+  profile: StudentProfile | null;
   onBack: () => void;
 }
 
-const ExamInfo: React.FC<ExamInfoProps> = ({ data, onBack }) => {
-  const branches = ['Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC'];
-  const years = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
-  const divisions = ['A', 'B'];
+const ExamInfo: React.FC<ExamInfoProps> = ({ data, profile, onBack }) => {
 
-  const [selBranch, setSelBranch] = useState(branches[0]);
-  const [selYear, setSelYear] = useState(years[0]);
-  const [selDiv, setSelDiv] = useState(divisions[0]);
+  const [selBranch, setSelBranch] = useState(profile?.branch || BRANCHES[0]);
+  const [selYear, setSelYear] = useState(profile?.year || YEARS[0]);
+  const [selDiv, setSelDiv] = useState(profile?.division || DIVISIONS[0]);
 
   const filteredExams = useMemo(() => {
     return data.exams.filter(exam => 
@@ -38,21 +37,21 @@ const ExamInfo: React.FC<ExamInfoProps> = ({ data, onBack }) => {
           <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Branch</label>
           <select value={selBranch} onChange={(e) => setSelBranch(e.target.value)}
             className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
-            {branches.map(b => <option key={b} value={b}>{b}</option>)}
+            {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
           </select>
         </div>
         <div className="space-y-1">
           <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Year</label>
           <select value={selYear} onChange={(e) => setSelYear(e.target.value)}
             className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
-            {years.map(y => <option key={y} value={y}>{y}</option>)}
+            {YEARS.map(y => <option key={y} value={y}>{y}</option>)}
           </select>
         </div>
         <div className="space-y-1">
           <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Div</label>
           <select value={selDiv} onChange={(e) => setSelDiv(e.target.value)}
             className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
-            {divisions.map(d => <option key={d} value={d}>{d}</option>)}
+            {DIVISIONS.map(d => <option key={d} value={d}>{d}</option>)}
           </select>
         </div>
       </div>
@@ -1,18 +1,24 @@
 
 import React, { useState, useMemo } from 'react';
-import { AppData } from '../../types';
+import { AppData, StudentProfile } from '../../types';
+import { BRANCHES, YEARS } from '../../constants';
+import { OutboxEntry, OutboxMutation, pendingRecordIds } from '../../services/outboxService';
+import BookmarkButton from '../BookmarkButton';
 
 interface InternshipProps {
   data: AppData;
+  profile: StudentProfile | null;
+  student: string; // studentTag of the profile's roll number, '' without a profile
+  outbox: OutboxEntry[];
+  onAction: (mutation: OutboxMutation) => Promise<OutboxEntry>;
   onBack: () => void;
 }
 
-const Internship: React.FC<InternshipProps> = ({ data, onBack }) => {
-  const branches = ['Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC'];
-  const years = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
+const Internship: React.FC<InternshipProps> = ({ data, profile, student, outbox, onAction, onBack }) => {
+  const pending = useMemo(() => pendingRecordIds(outbox), [outbox]);
 
-  const [selBranch, setSelBranch] = useState(branches[0]);
-  const [selYear, setSelYear] = useState(years[0]);
+  const [selBranch, setSelBranch] = useState(profile?.branch || BRANCHES[0]);
+  const [selYear, setSelYear] = useState(profile?.year || YEARS[0]);
 
   const filteredInternships = useMemo(() => {
     return data.internships.filter(job => 
@@ -34,14 +40,14 @@ const Internship: React.FC<InternshipProps> = ({ data, onBack }) => {
           <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Branch</label>
           <select value={selBranch} onChange={(e) => setSelBranch(e.target.value)}
             className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
-            {branches.map(b => <option key={b} value={b}>{b}</option>)}
+            {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
           </select>
         </div>
         <div className="space-y-1">
           <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Year</label>
           <select value={selYear} onChange={(e) => setSelYear(e.target.value)}
             className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
-            {years.map(y => <option key={y} value={y}>{y}</option>)}
+            {YEARS.map(y => <option key={y} value={y}>{y}</option>)}
           </select>
         </div>
       </div>
@@ -69,9 +75,12 @@ const Internship: React.FC<InternshipProps> = ({ data, onBack }) => {
                   <span className="text-[9px] text-slate-400 flex items-center gap-1 font-black uppercase">
                     <i className="fa-solid fa-location-dot text-cyan-500"></i> {job.location}
                   </span>
-                  <button className="text-[8px] font-black uppercase tracking-widest text-white bg-cyan-600 px-4 py-1.5 rounded-xl hover:bg-cyan-700 transition-all shadow-lg shadow-cyan-100 dark:shadow-none">
-                    Apply
-                  </button>
+                  <div className="flex gap-2">
+                    {student && <BookmarkButton data={data} kind="INTERNSHIP" itemId={job.id} student={student} pending={pending} onAction={onAction} className="px-3 py-1.5 text-cyan-600 text-[10px]" />}
+                    <button className="text-[8px] font-black uppercase tracking-widest text-white bg-cyan-600 px-4 py-1.5 rounded-xl hover:bg-cyan-700 transition-all shadow-lg shadow-cyan-100 dark:shadow-none">
+                      Apply
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { AppData, Complaint, ComplaintStatus } from '../../types';
+import { OutboxEntry, OutboxMutation, pendingRecordIds } from '../../services/outboxService';
+import { COMPLAINT_CATEGORIES, COMPLAINT_STATUSES } from '../../services/complaintService';
+import { MyReports as TrackedReports, TrackedReport, studentMessage } from '../../services/trackingService';
+import { isSealed, seal, sealingKey } from '../../services/complaintCrypto';
+import { PersistenceService } from '../../services/persistenceService';
+import { scanText } from '../../services/moderationService';
+
+interface MyReportsProps {
+  data: AppData;
+  outbox: OutboxEntry[];
+  onSubmit: (mutation: OutboxMutation) => Promise<OutboxEntry>;
+}
+
+const STATUS_STYLES: Record<ComplaintStatus, string> = {
+  PENDING: 'text-amber-600 bg-amber-100 dark:bg-amber-900/30',
+  IN_PROGRESS: 'text-blue-600 bg-blue-100 dark:bg-blue-900/30',
+  RESOLVED: 'text-emerald-600 bg-emerald-100 dark:bg-emerald-900/30',
+  DISMISSED: 'text-slate-500 bg-slate-100 dark:bg-slate-800',
+};
+
+// Only a hub that signs admins in (rest) stops others from posting as the administration; elsewhere anyone can.
+const ADMIN_VERIFIED = !!PersistenceService.backend.auth;
+const ADMIN_LABEL = ADMIN_VERIFIED ? 'Admin' : 'Admin (unverified)';
+const UNVERIFIED_HINT = 'This hub does not check who writes admin replies, so anyone could have posted this.';
+
+const MyReports: React.FC<MyReportsProps> = ({ data, outbox, onSubmit }) => {
+  const [reports, setReports] = useState<TrackedReport[]>([]);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState<string | null>(null);
+
+  const refresh = () => TrackedReports.list().then(setReports);
+
+  useEffect(() => { refresh(); }, []);
+
+  const pending = pendingRecordIds(outbox);
+  const students = data.attendance.map(a => a.student).filter((s): s is string => !!s);
+  // Flags never leave the device, so whether a report is held is worked out again from the saved text.
+  const isHeld = (report: TrackedReport, complaint: Complaint) =>
+    !complaint.moderation && (report.text !== undefined ? scanText(report.text, students).flags : complaint.flags || []).length > 0;
+
+  const addCode = async () => {
+    setError('');
+    try {
+      await TrackedReports.add(code);
+      setCode('');
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not add this code');
+    }
+  };
+
+  const forget = async (complaintId: string) => {
+    if (!confirm('Remove this report from this device? You will need the tracking code to see it again.')) return;
+    await TrackedReports.remove(complaintId);
+    refresh();
+  };
+
+  const reply = async (report: TrackedReport) => {
+    const complaint = data.complaints.find(c => c.id === report.complaintId);
+    const text = (replies[report.complaintId] || '').trim();
+    if (!complaint || !text) return;
+    setSending(report.complaintId);
+    setError('');
+    try {
+      const key = sealingKey(data, ADMIN_VERIFIED);
+      const body = key ? await seal(key.publicKey, text) : text;
+      const record = await studentMessage(complaint, report.token, body);
+      await TrackedReports.remember(report.complaintId, record.id, text);
+      await onSubmit({ type: 'UPSERT', collection: 'complaintMessages', record });
+      refresh();
+      setReplies(prev => ({ ...prev, [report.complaintId]: '' }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not send the reply');
+    }
+    setSending(null);
+  };
+
+  // Sealed text can't be read back here; fall back to the copy this device kept when it was sent.
+  const readable = (text: string, local?: string) => local ?? (isSealed(text) ? null : text);
+  const locked = <span className="italic opacity-70"><i className="fa-solid fa-lock mr-1"></i>Encrypted for the administration</span>;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white dark:bg-slate-900 p-5 rounded-[2rem] border border-slate-100 dark:border-slate-800 space-y-2">
+        <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1 block">Have a tracking code?</label>
+        <div className="flex gap-2">
+          <input value={code} onChange={(e) => setCode(e.target.value)} placeholder="Paste it here"
+            className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-2xl px-4 py-3 text-[10px] font-mono outline-none border border-slate-100 dark:border-slate-700 dark:text-white" />
+          <button onClick={addCode} disabled={!code.trim()} className="shrink-0 px-5 bg-slate-900 dark:bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50">Add</button>
+        </div>
+        {error && <p className="text-[9px] font-bold text-rose-500 ml-1">{error}</p>}
+      </div>
+
+      {reports.length === 0 ? (
+        <div className="p-12 text-center text-[10px] text-slate-400 font-black uppercase tracking-widest">No reports on this device</div>
+      ) : reports.map(report => {
+        const complaint = data.complaints.find(c => c.id === report.complaintId);
+        const thread = data.complaintMessages
+          .filter(m => m.complaintId === report.complaintId)
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        return (
+          <div key={report.complaintId} className="bg-white dark:bg-slate-900 p-6 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-3">
+            {!complaint ? (
+              <div className="flex justify-between items-center gap-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {pending.has(report.complaintId) ? 'Waiting to send…' : 'Not found on the hub'}
+                </p>
+                <button onClick={() => forget(report.complaintId)} className="text-[9px] font-black text-slate-400 uppercase">Forget</button>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between items-center gap-2">
+                  <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${STATUS_STYLES[complaint.status]}`}>
+                    {COMPLAINT_STATUSES[complaint.status].label}
+                  </span>
+                  <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                    {isHeld(report, complaint) ? 'Held for review' : complaint.category ? COMPLAINT_CATEGORIES[complaint.category].label : 'Awaiting triage'}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-700 dark:text-slate-200 font-medium">{readable(complaint.text, report.text) ?? locked}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Sent {new Date(complaint.timestamp).toLocaleString()}</p>
+
+                {complaint.response && (
+                  <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-2xl border border-emerald-100 dark:border-emerald-800/50">
+                    <p className="text-[9px] font-black text-emerald-700 dark:text-emerald-400 uppercase tracking-widest mb-1" title={ADMIN_VERIFIED ? undefined : UNVERIFIED_HINT}>{ADMIN_LABEL} response</p>
+                    <p className="text-xs text-slate-700 dark:text-slate-200">{complaint.response}</p>
+                  </div>
+                )}
+
+                {thread.length > 0 && (
+                  <div className="space-y-2">
+                    {thread.map(m => (
+                      <div key={m.id} className={`p-3 rounded-2xl max-w-[85%] ${m.author === 'STUDENT' ? 'ml-auto bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200'}`}>
+                        <p className="text-xs">{readable(m.text, report.sent?.[m.id]) ?? locked}</p>
+                        <p className="text-[8px] font-bold uppercase tracking-widest opacity-60 mt-1" title={m.author === 'ADMIN' && !ADMIN_VERIFIED ? UNVERIFIED_HINT : undefined}>
+                          {m.author === 'STUDENT' ? 'You' : ADMIN_LABEL} • {new Date(m.timestamp).toLocaleString()}{pending.has(m.id) ? ' • queued' : ''}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {complaint.trackingKey && (
+                  <div className="flex gap-2">
+                    <input value={replies[report.complaintId] || ''} onChange={(e) => setReplies(prev => ({ ...prev, [report.complaintId]: e.target.value }))}
+                      placeholder="Reply anonymously…"
+                      className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-2xl px-4 py-3 text-xs outline-none border border-slate-100 dark:border-slate-700 dark:text-white" />
+                    <button onClick={() => reply(report)} disabled={sending === report.complaintId || !(replies[report.complaintId] || '').trim()}
+                      className="shrink-0 w-12 bg-slate-900 dark:bg-blue-600 text-white rounded-2xl disabled:opacity-50"><i className="fa-solid fa-paper-plane text-xs"></i></button>
+                  </div>
+                )}
+                <button onClick={() => forget(report.complaintId)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Forget on this device</button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MyReports;
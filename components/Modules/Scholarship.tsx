@@ -1,12 +1,18 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { AppData, ScholarshipItem } from '../../types';
+import { OutboxEntry, OutboxMutation, pendingRecordIds } from '../../services/outboxService';
+import BookmarkButton from '../BookmarkButton';
 
 interface ScholarshipProps {
   data: AppData;
+  student: string; // studentTag of the profile's roll number, '' without a profile
+  outbox: OutboxEntry[];
+  onAction: (mutation: OutboxMutation) => Promise<OutboxEntry>;
   onBack: () => void;
 }
 
-const Scholarship: React.FC<ScholarshipProps> = ({ data, onBack }) => {
+const Scholarship: React.FC<ScholarshipProps> = ({ data, student, outbox, onAction, onBack }) => {
+  const pending = useMemo(() => pendingRecordIds(outbox), [outbox]);
   const girlsList = data.scholarships.filter(s => s.category === 'GIRLS');
   const generalList = data.scholarships.filter(s => s.category === 'GENERAL' || !s.category);
 
@@ -25,9 +31,12 @@ const Scholarship: React.FC<ScholarshipProps> = ({ data, onBack }) => {
       <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tight mb-4">{s.eligibility}</p>
       <div className="flex justify-between items-center pt-4 border-t border-slate-50 dark:border-slate-800">
         <span className="text-[9px] text-rose-500 font-black uppercase tracking-tighter">Ends: {s.deadline}</span>
-        <button className="bg-amber-500 text-white px-4 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-600 transition-all">
-          Apply
-        </button>
+        <div className="flex gap-2">
+          {student && <BookmarkButton data={data} kind="SCHOLARSHIP" itemId={s.id} student={student} pending={pending} onAction={onAction} className="px-3 py-1.5 text-amber-600 text-[10px]" />}
+          <button className="bg-amber-500 text-white px-4 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-600 transition-all">
+            Apply
+          </button>
+        </div>
       </div>
     </div>
   );
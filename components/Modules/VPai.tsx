@@ -1,43 +1,114 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { AppData } from '../../types';
-import { askVPai } from '../../services/geminiService';
+import { askVPai, summarizeVPaiChat } from '../../services/geminiService';
+import { ChatSession, ChatSessions, chatHistory, newSession, pendingSummary, withMessage } from '../../services/chatService';
 
 interface VPaiProps {
   data: AppData;
+  student: string; // studentTag of the profile's roll number, '' without a profile
   onBack: () => void;
 }
 
-const VPai: React.FC<VPaiProps> = ({ data, onBack }) => {
-  const [messages, setMessages] = useState<{ text: string; sender: 'USER' | 'AI' }[]>([
-    { text: "Hi! I'm VPai, your campus companion. What's on your mind?", sender: 'AI' }
-  ]);
+const GREETING = "Hi! I'm VPai, your campus companion. What's on your mind?";
+
+const VPai: React.FC<VPaiProps> = ({ data, student, onBack }) => {
+  const [session, setSession] = useState<ChatSession>(newSession);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [failure, setFailure] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const messages = [{ text: GREETING, sender: 'AI' as const }, ...session.messages];
+  // Nothing new is sent while the summary is written, so it can't overwrite a newer message.
+  const busy = isTyping || isSummarizing;
+
+  useEffect(() => {
+    ChatSessions.list().then(saved => {
+      setSessions(saved);
+      if (saved.length) setSession(saved[0]);
+    });
+  }, []);
+
   useEffect(() => {
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [session, isTyping, failure]);
+
+  // Replies can arrive after the student has moved to another chat; only show them in their own.
+  const update = async (next: ChatSession) => {
+    setSession(prev => (prev.id === next.id ? next : prev));
+    await ChatSessions.save(next);
+    setSessions(await ChatSessions.list());
+  };
 
   const handleSend = async () => {
-    if (!input.trim() || isTyping) return;
+    if (!input.trim() || busy) return;
     
-    const userMsg = input;
-    setMessages(prev => [...prev, { text: userMsg, sender: 'USER' }]);
+    const userMsg = input.trim();
+    const history = chatHistory(session);
+    const asked = withMessage(session, { text: userMsg, sender: 'USER' });
     setInput('');
+    setFailure('');
+    setShowHistory(false);
     setIsTyping(true);
+    // Shown while VPai answers, but only saved together with the answer.
+    setSession(prev => (prev.id === asked.id ? asked : prev));
+
+    const aiResponse = await askVPai(userMsg, data, student, history).catch(() => null);
+    setIsTyping(false);
+    if (!aiResponse) {
+      // The question goes back in the box; a failed exchange never becomes part of the chat.
+      setSession(prev => (prev.id === session.id ? session : prev));
+      setInput(prev => prev || userMsg);
+      setFailure('Connection issues! Please try again in a bit.');
+      return;
+    }
+    const current = withMessage(asked, { text: aiResponse, sender: 'AI' });
+    await update(current);
 
+    const pending = pendingSummary(current);
+    if (!pending.length) return;
+    setIsSummarizing(true);
     try {
-      const aiResponse = await askVPai(userMsg, data);
-      setMessages(prev => [...prev, { text: aiResponse || "I couldn't process that.", sender: 'AI' }]);
-    } catch (e) {
-      setMessages(prev => [...prev, { text: "Connection issues! Please try again in a bit.", sender: 'AI' }]);
+      const summary = await summarizeVPaiChat(current.summary, pending);
+      if (summary) await update({ ...current, summary, summarizedCount: current.summarizedCount + pending.length });
     } finally {
-      setIsTyping(false);
+      setIsSummarizing(false);
+    }
+  };
+
+  const startChat = () => {
+    setSession(newSession());
+    setFailure('');
+    setShowHistory(false);
+  };
+
+  const openChat = (chat: ChatSession) => {
+    setSession(chat);
+    setFailure('');
+    setShowHistory(false);
+  };
+
+  const deleteChat = async (chat: ChatSession) => {
+    if (!confirm(`Delete "${chat.title || 'Untitled chat'}" from this device?`)) return;
+    await ChatSessions.remove(chat.id);
+    setSessions(await ChatSessions.list());
+    if (chat.id === session.id) {
+      setSession(newSession());
+      setFailure('');
     }
   };
 
+  const clearHistory = async () => {
+    if (!confirm('Delete all VPai chats saved on this device?')) return;
+    await ChatSessions.clear();
+    setSessions([]);
+    startChat();
+  };
+
   return (
     <div className="flex flex-col h-[78vh] animate-fadeIn">
       <div className="flex items-center gap-4 mb-6">
@@ -48,32 +119,77 @@ const VPai: React.FC<VPaiProps> = ({ data, onBack }) => {
           <h2 className="text-xl font-black bg-gradient-to-r from-violet-600 to-fuchsia-600 bg-clip-text text-transparent leading-none">VPai Assistant</h2>
           <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">Always Online</span>
         </div>
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => setShowHistory(!showHistory)} title="Chat history"
+            className={`w-10 h-10 rounded-full flex items-center justify-center shadow-sm active:scale-90 transition-all ${showHistory ? 'bg-violet-600 text-white' : 'bg-white dark:bg-slate-800'}`}>
+            <i className="fa-solid fa-clock-rotate-left"></i>
+          </button>
+          <button onClick={startChat} disabled={!session.messages.length || busy} title="New chat"
+            className="w-10 h-10 rounded-full bg-white dark:bg-slate-800 flex items-center justify-center shadow-sm active:scale-90 transition-all disabled:opacity-50">
+            <i className="fa-solid fa-plus"></i>
+          </button>
+        </div>
       </div>
 
-      <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-4 pr-2 pb-6 custom-scrollbar">
-        {messages.map((m, i) => (
-          <div key={i} className={`flex ${m.sender === 'USER' ? 'justify-end' : 'justify-start'} animate-slideUp`}>
-            <div className={`max-w-[85%] p-4 rounded-3xl ${
-              m.sender === 'USER' 
-                ? 'bg-blue-600 text-white rounded-br-none shadow-lg shadow-blue-500/10' 
-                : 'bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 shadow-sm border border-slate-100 dark:border-slate-800 rounded-bl-none'
-            }`}>
-              <p className="text-sm font-medium leading-relaxed whitespace-pre-wrap">{m.text}</p>
-            </div>
+      {showHistory ? (
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2 pb-6 custom-scrollbar">
+          <div className="flex justify-between items-center px-2 mb-2">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Saved on this device</span>
+            {sessions.length > 0 && (
+              <button onClick={clearHistory} disabled={busy} className="text-[9px] font-black text-rose-500 uppercase tracking-widest disabled:opacity-50">Clear history</button>
+            )}
           </div>
-        ))}
-        {isTyping && (
-          <div className="flex justify-start animate-fadeIn">
-            <div className="bg-white dark:bg-slate-900 p-4 rounded-3xl rounded-bl-none shadow-sm border border-slate-100 dark:border-slate-800">
-              <div className="flex gap-1.5 px-2">
-                <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce"></div>
-                <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce [animation-delay:0.2s]"></div>
-                <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce [animation-delay:0.4s]"></div>
+          {sessions.length === 0 ? (
+            <p className="p-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">No saved chats</p>
+          ) : sessions.map(chat => (
+            <div key={chat.id}
+              className={`flex items-center gap-2 p-4 rounded-3xl bg-white dark:bg-slate-900 border shadow-sm ${chat.id === session.id ? 'border-violet-500' : 'border-slate-100 dark:border-slate-800'}`}>
+              <button onClick={() => openChat(chat)} disabled={busy} className="flex-1 min-w-0 text-left">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{chat.title || 'Untitled chat'}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {chat.messages.length} messages • {new Date(chat.updatedAt).toLocaleString()}
+                </p>
+              </button>
+              <button onClick={() => deleteChat(chat)} disabled={busy} title="Delete chat"
+                className="shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-rose-500 disabled:opacity-50">
+                <i className="fa-solid fa-trash-can text-xs"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-4 pr-2 pb-6 custom-scrollbar">
+          {messages.map((m, i) => (
+            <div key={i} className={`flex ${m.sender === 'USER' ? 'justify-end' : 'justify-start'} animate-slideUp`}>
+              <div className={`max-w-[85%] p-4 rounded-3xl ${
+                m.sender === 'USER' 
+                  ? 'bg-blue-600 text-white rounded-br-none shadow-lg shadow-blue-500/10' 
+                  : 'bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 shadow-sm border border-slate-100 dark:border-slate-800 rounded-bl-none'
+              }`}>
+                <p className="text-sm font-medium leading-relaxed whitespace-pre-wrap">{m.text}</p>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          ))}
+          {failure && (
+            <div className="flex justify-start animate-fadeIn">
+              <div className="max-w-[85%] p-4 rounded-3xl rounded-bl-none bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-800/50">
+                <p className="text-sm font-medium text-rose-600 dark:text-rose-400">{failure}</p>
+              </div>
+            </div>
+          )}
+          {isTyping && (
+            <div className="flex justify-start animate-fadeIn">
+              <div className="bg-white dark:bg-slate-900 p-4 rounded-3xl rounded-bl-none shadow-sm border border-slate-100 dark:border-slate-800">
+                <div className="flex gap-1.5 px-2">
+                  <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce"></div>
+                  <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce [animation-delay:0.2s]"></div>
+                  <div className="w-1.5 h-1.5 bg-slate-400 dark:bg-slate-600 rounded-full animate-bounce [animation-delay:0.4s]"></div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
 
       <div className="mt-4 flex gap-2">
         <input 
@@ -86,7 +202,7 @@ const VPai: React.FC<VPaiProps> = ({ data, onBack }) => {
         />
         <button 
           onClick={handleSend}
-          disabled={!input.trim() || isTyping}
+          disabled={!input.trim() || busy}
           className="w-16 h-16 bg-blue-600 text-white rounded-3xl shadow-xl shadow-blue-500/20 flex items-center justify-center hover:bg-blue-700 disabled:opacity-50 disabled:grayscale transition-all active:scale-90"
         >
           <i className="fa-solid fa-paper-plane text-xl"></i>
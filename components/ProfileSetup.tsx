@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { StudentProfile } from '../types';
+import { BRANCHES, YEARS, DIVISIONS } from '../constants';
+import Logo from './Logo';
+
+interface ProfileSetupProps {
+  initialProfile?: StudentProfile | null;
+  onSave: (profile: StudentProfile) => void;
+  onCancel?: () => void;
+}
+
+const ProfileSetup: React.FC<ProfileSetupProps> = ({ initialProfile, onSave, onCancel }) => {
+  const [rollNo, setRollNo] = useState(initialProfile?.rollNo || '');
+  const [branch, setBranch] = useState(initialProfile?.branch || BRANCHES[0]);
+  const [year, setYear] = useState(initialProfile?.year || YEARS[0]);
+  const [division, setDivision] = useState(initialProfile?.division || DIVISIONS[0]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rollNo.trim()) return;
+    onSave({ rollNo: rollNo.trim(), branch, year, division });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-6">
+      <div className="bg-white dark:bg-slate-900 rounded-[3rem] w-full max-w-md p-10 shadow-2xl animate-scaleIn border border-slate-100 dark:border-slate-800">
+        <Logo className="w-20 h-20 mb-4 mx-auto" />
+        <h3 className="text-2xl font-black mb-1 text-center text-slate-800 dark:text-white uppercase tracking-tighter">Your Profile</h3>
+        <p className="text-[9px] text-center text-slate-400 font-bold uppercase tracking-widest mb-6">Stored only on this device</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Roll Number</label>
+            <input value={rollNo} onChange={(e) => setRollNo(e.target.value)} placeholder="e.g. TE-A-42" autoFocus
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl p-4 text-center text-lg font-black text-slate-800 dark:text-white uppercase" />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Branch</label>
+              <select value={branch} onChange={(e) => setBranch(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
+                {BRANCHES.map(b => <option key={b} value={b}>{b}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Year</label>
+              <select value={year} onChange={(e) => setYear(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
+                {YEARS.map(y => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Div</label>
+              <select value={division} onChange={(e) => setDivision(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none border-none">
+                {DIVISIONS.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex gap-4 pt-2">
+            {onCancel && (
+              <button type="button" onClick={onCancel} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-bold">Cancel</button>
+            )}
+            <button type="submit" disabled={!rollNo.trim()} className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-bold disabled:opacity-50">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSetup;
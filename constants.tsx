@@ -1,20 +1,35 @@
 
 import React from 'react';
 import { AppData } from './types';
+import { CURRENT_SCHEMA_VERSION } from './services/migrations';
 
 export const INITIAL_DATA: AppData = {
+  revision: 0,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   attendance: [],
+  attendancePolicies: [],
   timetable: [],
   exams: [],
   scholarships: [],
   internships: [],
   events: [],
   complaints: [],
+  complaintMessages: [],
+  rsvps: [],
+  bookmarks: [],
   rawKnowledge: [],
   campusMapImage: undefined,
-  uploadLogs: []
+  uploadLogs: [],
+  adminAccounts: [],
+  quarantine: []
 };
 
+export const BRANCHES = ['Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC'];
+export const YEARS = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
+export const DIVISIONS = ['A', 'B'];
+
+export const DEFAULT_ATTENDANCE_THRESHOLD = 75;
+
 export const GRADIENTS = {
   vpai: 'from-violet-500 to-fuchsia-500',
   attendance: 'from-emerald-400 to-teal-600',
@@ -0,0 +1,323 @@
+/**
+ * QuadX self-hosted sync hub.
+ * A dependency-free Node server that stores the shared campus document on disk.
+ *
+ *   PORT                 default 8787
+ *   SYNC_DATA_FILE       default server/data/quadx.json
+ *   SYNC_SETUP_SECRET    required to create the first admin account; setup is refused while unset
+ *   SYNC_ALLOWED_ORIGIN  CORS origin, default *
+ *   SYNC_SNAPSHOT_LIMIT  previous documents kept for restore, default 50
+ *
+ * Writes are compare-and-swap: PUT must send `If-Match: "<revision>"` of the document it was based on,
+ * and gets 412 with the current document when someone else wrote first.
+ * `GET /changes?since=<revision>` returns only the records and fields written after that revision
+ * (see shared/changeLog.js, shared with the app's in-memory backend).
+ * Every write first keeps the document it replaces: `GET /snapshots` lists them (labelled from the
+ * writer's `X-Change-Label`) and `GET /snapshots/<revision>` returns one. Both need an admin session,
+ * since old copies can hold complaints from before encryption. `DELETE /snapshots?readable=complaints`,
+ * sent once encryption is on by an admin who handles complaints, drops the copies that still do.
+ * Admins sign in here, not on their device: `POST /session` checks the password against the account
+ * hashes in the document and returns a bearer token, `GET /session` validates one, `DELETE /session`
+ * ends it. `POST /setup` creates the first account and needs SYNC_SETUP_SECRET; `GET /setup` says
+ * whether it exists. Reads without a session get the document with `adminAccounts` emptied, so the
+ * salts and hashes can't be taken away and guessed at offline.
+ * Each PUT is checked against the writer's session (see shared/writePolicy.js): without one it may
+ * only add complaints, follow-up messages, RSVPs and bookmarks, and remove the RSVPs and bookmarks
+ * of the student whose roll number it sends in `X-Student`; with one, only what the admin's role
+ * and branch allow. Anything else is left as stored and listed in the response's `ignored`.
+ *
+ * Run with `npm run sync-server`, then build the app with SYNC_BACKEND=rest SYNC_URL=http://host:8787.
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { stableStringify } from '../shared/stableStringify.js';
+import { authorizeWrite } from '../shared/writePolicy.js';
+import { studentTag } from '../shared/studentTag.js';
+import { canAccessCategory } from '../shared/permissions.js';
+import { changesSince, emptyLog, recordChanges } from '../shared/changeLog.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(__dirname, 'data', 'quadx.json');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // base64 campus maps are large
+const SNAPSHOT_DIR = path.join(path.dirname(DATA_FILE), 'snapshots');
+const SNAPSHOT_LIMIT = Number(process.env.SYNC_SNAPSHOT_LIMIT || 50);
+const SETUP_SECRET = process.env.SYNC_SETUP_SECRET || '';
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 5 * 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+const readState = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch {
+    return { revision: 0, data: null };
+  }
+};
+
+// Write to a temp file and rename so a crash never leaves a half-written document.
+const writeState = (state) => {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+let state = readState();
+
+/*
+ * Snapshots: one file per replaced revision, listed in `state.snapshots` (newest first) so the
+ * index can be served without reading every copy.
+ */
+const snapshotFile = (revision) => path.join(SNAPSHOT_DIR, `${revision}.json`);
+
+const keepSnapshot = (label) => {
+  if (!state.data) return state.snapshots || [];
+  fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+  fs.writeFileSync(snapshotFile(state.revision), JSON.stringify({ ...state.data, revision: state.revision }));
+  const snapshots = [{ revision: state.revision, label, createdAt: new Date().toISOString() }, ...(state.snapshots || [])];
+  for (const old of snapshots.splice(SNAPSHOT_LIMIT)) fs.rmSync(snapshotFile(old.revision), { force: true });
+  return snapshots;
+};
+
+// Same rule as unsealedCount in services/complaintCrypto.ts: student-written text without the sealed prefix.
+const SEALED_PREFIX = 'e2e1.';
+const readable = (text) => typeof text === 'string' && !text.startsWith(SEALED_PREFIX);
+const holdsReadableComplaints = (doc) =>
+  (doc.complaints || []).some(c => readable(c.text) || (c.notes || []).some(n => readable(n.text)))
+  || (doc.complaintMessages || []).some(m => m.author !== 'ADMIN' && readable(m.text));
+
+const readHeader = (header) => {
+  try {
+    return decodeURIComponent(String(header || '')).slice(0, 200);
+  } catch {
+    return '';
+  }
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, X-Change-Label, X-Student',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'ETag',
+    ...headers,
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+/*
+ * Admin sessions. Tokens live in memory only, so restarting the hub signs everyone out.
+ * Failed sign-ins are counted per username here, where a client can't reset them.
+ */
+const sessions = new Map(); // token -> { accountId, username, expiresAt }
+const lockouts = new Map(); // username -> { failures, lockouts, lockedUntil }
+
+const accounts = () => (Array.isArray(state.data?.adminAccounts) ? state.data.adminAccounts : []);
+
+const pbkdf2 = (password, saltHex, iterations) => new Promise((resolve, reject) => {
+  crypto.pbkdf2(password, Buffer.from(saltHex, 'hex'), iterations, 32, 'sha256', (err, key) => (err ? reject(err) : resolve(key)));
+});
+
+const sameText = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const bearer = (req) => /^Bearer (.+)$/.exec(String(req.headers.authorization || ''))?.[1] || '';
+
+/** The account behind the request's session token, or null. Sessions of removed accounts end. */
+const sessionAccount = (req) => {
+  const token = bearer(req);
+  const session = sessions.get(token);
+  if (!session) return null;
+  const account = accounts().find(a => a.id === session.accountId);
+  if (!account || session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return account;
+};
+
+const openSession = async (username, password) => {
+  const name = String(username || '').trim().toLowerCase();
+  const lockout = lockouts.get(name) || { failures: 0, lockouts: 0, lockedUntil: 0 };
+  if (lockout.lockedUntil > Date.now()) return { status: 429, body: { ok: false, reason: 'LOCKED', retryAt: lockout.lockedUntil } };
+
+  const account = accounts().find(a => a.username === name);
+  // Hash even for unknown usernames so response time doesn't reveal which accounts exist.
+  const candidate = await pbkdf2(String(password || ''), account?.salt || crypto.randomBytes(16).toString('hex'), account?.iterations || 310000);
+  if (!account || !sameText(candidate.toString('hex'), account.passwordHash)) {
+    const failures = lockout.failures + 1;
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** lockout.lockouts, MAX_LOCKOUT_MS);
+      lockouts.set(name, { failures: 0, lockouts: lockout.lockouts + 1, lockedUntil });
+      return { status: 429, body: { ok: false, reason: 'LOCKED', retryAt: lockedUntil } };
+    }
+    lockouts.set(name, { ...lockout, failures });
+    return { status: 401, body: { ok: false, reason: 'INVALID', attemptsLeft: MAX_FAILED_ATTEMPTS - failures } };
+  }
+
+  lockouts.delete(name);
+  const session = { token: crypto.randomBytes(32).toString('hex'), accountId: account.id, username: account.username, expiresAt: Date.now() + SESSION_TTL_MS };
+  sessions.set(session.token, { accountId: session.accountId, username: session.username, expiresAt: session.expiresAt });
+  return { status: 200, body: { ok: true, ...session } };
+};
+
+const etag = () => `"${state.revision}"`;
+
+// The document as `req` may read it: account hashes only go to signed-in admins.
+const readableBy = (req, doc) => (sessionAccount(req) ? doc : { ...doc, adminAccounts: [] });
+
+const parseIfMatch = (header) => {
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(String(header || '').trim());
+  return match ? Number(match[1]) : null;
+};
+
+// Stores `data` as the next revision, keeping a snapshot of the one it replaces.
+const commit = (data, label) => {
+  const revision = state.revision + 1;
+  // Documents written before the log existed have no stamps; start it from this write, and send
+  // clients from before it the whole document.
+  const log = state.log || emptyLog(state.data ? state.revision : 0);
+  recordChanges(log, state.data, data, revision);
+  const snapshots = keepSnapshot(label);
+  state = { ...state, revision, data: { ...data, revision }, log, snapshots };
+  writeState(state);
+  return revision;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (url.pathname === '/data' && req.method === 'GET') {
+      return state.data
+        ? send(res, 200, readableBy(req, { ...state.data, revision: state.revision }), { ETag: etag() })
+        : send(res, 404, { error: 'No data yet' });
+    }
+
+    if (url.pathname === '/data' && req.method === 'PUT') {
+      const baseRevision = parseIfMatch(req.headers['if-match']);
+      if (baseRevision === null) return send(res, 428, { error: 'If-Match revision required' });
+      const data = JSON.parse(await readBody(req));
+      if (!data || typeof data !== 'object' || !Array.isArray(data.timetable)) {
+        return send(res, 400, { error: 'Body must be a full AppData document' });
+      }
+      if (baseRevision !== state.revision) {
+        return send(res, 412, readableBy(req, { ...(state.data || {}), revision: state.revision }), { ETag: etag() });
+      }
+      // Students write anonymously; what either side may change is decided in shared/writePolicy.js.
+      // Anonymous writers never saw the accounts, so their empty copy is not an attempt to change them.
+      const writer = sessionAccount(req);
+      const incoming = writer || !state.data ? data : { ...data, adminAccounts: state.data.adminAccounts };
+      const student = writer ? '' : studentTag(readHeader(req.headers['x-student']));
+      const { data: allowed, ignored } = authorizeWrite(state.data || { timetable: [] }, incoming, writer, student);
+      if (state.data && stableStringify({ ...allowed, revision: 0 }) === stableStringify({ ...state.data, revision: 0 })) {
+        return send(res, 200, { ok: true, revision: state.revision, ignored }, { ETag: etag() });
+      }
+      const revision = commit(allowed, readHeader(req.headers['x-change-label']));
+      return send(res, 200, { ok: true, revision, ignored }, { ETag: `"${revision}"` });
+    }
+
+    if (url.pathname === '/session' && req.method === 'POST') {
+      const { username, password } = JSON.parse(await readBody(req));
+      const result = await openSession(username, password);
+      return send(res, result.status, result.body);
+    }
+
+    if (url.pathname === '/session' && req.method === 'GET') {
+      const account = sessionAccount(req);
+      if (!account) return send(res, 401, { error: 'No session' });
+      const { expiresAt } = sessions.get(bearer(req));
+      return send(res, 200, { accountId: account.id, username: account.username, expiresAt });
+    }
+
+    if (url.pathname === '/session' && req.method === 'DELETE') {
+      sessions.delete(bearer(req));
+      return send(res, 204);
+    }
+
+    if (url.pathname === '/setup' && req.method === 'GET') {
+      return send(res, 200, { done: accounts().length > 0 });
+    }
+
+    // The first account only: later ones are added by a signed-in super admin through PUT /data.
+    if (url.pathname === '/setup' && req.method === 'POST') {
+      const { secret, account } = JSON.parse(await readBody(req));
+      if (!SETUP_SECRET || !sameText(secret || '', SETUP_SECRET)) return send(res, 403, { error: 'Wrong setup secret' });
+      if (accounts().length) return send(res, 409, { error: 'Already set up' });
+      if (!account || typeof account.id !== 'string' || typeof account.username !== 'string' || typeof account.passwordHash !== 'string' || typeof account.salt !== 'string') {
+        return send(res, 400, { error: 'Body must carry an account' });
+      }
+      const base = state.data || { timetable: [] };
+      const revision = commit({ ...base, adminAccounts: [{ ...account, role: 'SUPER_ADMIN' }] }, 'First admin account');
+      return send(res, 200, { ok: true, revision }, { ETag: `"${revision}"` });
+    }
+
+    if (url.pathname === '/changes' && req.method === 'GET') {
+      if (!state.data) return send(res, 404, { error: 'No data yet' });
+      const since = Number(url.searchParams.get('since') || 0);
+      return send(res, 200, changesSince(state.log, readableBy(req, { ...state.data, revision: state.revision }), Number.isFinite(since) ? since : 0), { ETag: etag() });
+    }
+
+    if (url.pathname === '/snapshots' && req.method === 'GET') {
+      if (!sessionAccount(req)) return send(res, 401, { error: 'Admin session required' });
+      return send(res, 200, state.snapshots || []);
+    }
+
+    if (url.pathname === '/snapshots' && req.method === 'DELETE' && url.searchParams.get('readable') === 'complaints') {
+      if (!canAccessCategory(sessionAccount(req), 'COMPLAINTS')) return send(res, 403, { error: 'Complaints access required' });
+      const purged = (state.snapshots || []).filter(s => holdsReadableComplaints(JSON.parse(fs.readFileSync(snapshotFile(s.revision), 'utf8'))));
+      for (const s of purged) fs.rmSync(snapshotFile(s.revision), { force: true });
+      state = { ...state, snapshots: (state.snapshots || []).filter(s => !purged.includes(s)) };
+      writeState(state);
+      return send(res, 200, { ok: true, removed: purged.length });
+    }
+
+    const snapshotMatch = /^\/snapshots\/(\d+)$/.exec(url.pathname);
+    if (snapshotMatch && req.method === 'GET') {
+      if (!sessionAccount(req)) return send(res, 401, { error: 'Admin session required' });
+      const revision = Number(snapshotMatch[1]);
+      if (!(state.snapshots || []).some(s => s.revision === revision)) return send(res, 404, { error: 'No such snapshot' });
+      return send(res, 200, JSON.parse(fs.readFileSync(snapshotFile(revision), 'utf8')));
+    }
+
+    if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+    return send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    const status = err.status || (err instanceof SyntaxError ? 400 : 500);
+    if (status === 500) console.error(err);
+    return send(res, status, { error: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`QuadX sync hub listening on :${PORT} (data: ${DATA_FILE}${SETUP_SECRET ? ', setup enabled' : ''})`);
+});
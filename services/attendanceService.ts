@@ -0,0 +1,184 @@
+import { AttendancePolicy, AttendanceRecord, ExamSchedule, StudentProfile, TimetableEntry } from "../types";
+import { DEFAULT_ATTENDANCE_THRESHOLD } from "../constants";
+import { studentTag } from "../shared/studentTag";
+
+export { normalizeRollNo, studentTag } from "../shared/studentTag";
+
+export interface RejectedAttendanceRow {
+  row: any;
+  reason: string;
+  field: 'rollNo' | keyof AttendanceRecord; // the field to point the admin at
+}
+
+const toCount = (value: any): number | null => {
+  const n = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof n === 'number' && Number.isInteger(n) ? n : null;
+};
+
+/**
+ * Attendance Normaliser
+ * Turns rows extracted from a muster roll into AttendanceRecords.
+ * The percentage is always recomputed here; whatever the model returned is ignored.
+ * The roll number is replaced by its studentTag, since the published records are public; a row
+ * edited after publishing keeps its tag unless a new roll number is typed in.
+ * Rows whose counts are missing or contradict each other are rejected with a reason.
+ */
+export function buildAttendanceRecords(rows: any[]): { records: AttendanceRecord[]; rejected: RejectedAttendanceRow[] } {
+  const records: AttendanceRecord[] = [];
+  const rejected: RejectedAttendanceRow[] = [];
+
+  for (const row of rows) {
+    const student = studentTag(row?.rollNo) || (typeof row?.student === 'string' ? row.student : '');
+    const subject = String(row?.subject ?? '').trim();
+    const totalClasses = toCount(row?.totalClasses);
+    const attendedClasses = toCount(row?.attendedClasses);
+
+    const reject = (reason: string, field: RejectedAttendanceRow['field']) => rejected.push({ row, reason, field });
+    if (!student) reject('Missing roll number', 'rollNo');
+    else if (!subject) reject('Missing subject', 'subject');
+    else if (totalClasses === null) reject('Class counts are not whole numbers', 'totalClasses');
+    else if (attendedClasses === null) reject('Class counts are not whole numbers', 'attendedClasses');
+    else if (totalClasses <= 0) reject('Total classes must be greater than zero', 'totalClasses');
+    else if (attendedClasses < 0) reject('Attended classes cannot be negative', 'attendedClasses');
+    else if (attendedClasses > totalClasses) reject('Attended classes exceed total classes', 'attendedClasses');
+    else {
+      records.push({
+        id: row.id,
+        student,
+        subject,
+        totalClasses,
+        attendedClasses,
+        percentage: Math.round((attendedClasses / totalClasses) * 1000) / 10,
+        branch: String(row.branch ?? '').trim(),
+        year: String(row.year ?? '').trim(),
+        ...(row.provenance ? { provenance: row.provenance } : {}),
+      });
+    }
+  }
+
+  return { records, rejected };
+}
+
+export interface AttendancePlan {
+  threshold: number;
+  exam: ExamSchedule | null;
+  remainingLectures: number | null; // null when there is no exam date or timetable to project against
+  canSkip: number; // lectures that can still be missed while staying at or above the threshold
+  mustAttend: number; // consecutive lectures needed to get back to the threshold
+  reachable: boolean; // false when the threshold can't be reached before the exam
+  projectedMax: number; // best possible percentage by exam day
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const EPSILON = 1e-9;
+
+const subjectKey = (subject?: string) => (subject || '').trim().toLowerCase();
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Picks the most specific policy for a subject: subject+branch+year, then subject+branch, subject+year, subject alone.
+ */
+export function resolveThreshold(policies: AttendancePolicy[], subject: string, branch: string, year: string): number {
+  const candidates = policies.filter(p =>
+    subjectKey(p.subject) === subjectKey(subject) &&
+    (!p.branch || p.branch === branch) &&
+    (!p.year || p.year === year)
+  );
+  if (!candidates.length) return DEFAULT_ATTENDANCE_THRESHOLD;
+  const specificity = (p: AttendancePolicy) => (p.branch ? 2 : 0) + (p.year ? 1 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0].threshold;
+}
+
+/**
+ * The next exam for this subject in the student's branch/year/division, if its date can be parsed.
+ */
+export function findNextExam(subject: string, exams: ExamSchedule[], profile: StudentProfile, today: Date): ExamSchedule | null {
+  const from = startOfDay(today).getTime();
+  return exams
+    .filter(e =>
+      subjectKey(e.subject) === subjectKey(subject) &&
+      e.branch === profile.branch &&
+      e.year === profile.year &&
+      e.division === profile.division &&
+      !isNaN(Date.parse(e.date)) &&
+      startOfDay(new Date(e.date)).getTime() >= from
+    )
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))[0] || null;
+}
+
+/**
+ * Counts lectures of a subject in the student's timetable strictly between today and the exam day.
+ */
+export function countRemainingLectures(subject: string, timetable: TimetableEntry[], profile: StudentProfile, today: Date, examDate: Date): number {
+  const perDay: Record<string, number> = {};
+  timetable
+    .filter(t => t.branch === profile.branch && t.year === profile.year && t.division === profile.division)
+    .forEach(t => {
+      const count = (t.slots || []).filter(s => subjectKey(s.subject) === subjectKey(subject)).length;
+      perDay[t.day] = Math.max(perDay[t.day] || 0, count);
+    });
+
+  let remaining = 0;
+  const cursor = startOfDay(today);
+  const end = startOfDay(examDate).getTime();
+  cursor.setDate(cursor.getDate() + 1);
+  while (cursor.getTime() < end) {
+    remaining += perDay[DAY_NAMES[cursor.getDay()]] || 0;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return remaining;
+}
+
+/**
+ * Bunk Planner
+ * With A attended of T held, threshold t and R lectures left before the exam:
+ *   canSkip    = floor(A + R - t(T + R))          (capped to R)
+ *   mustAttend = ceil((tT - A) / (1 - t))         (consecutive lectures from now)
+ */
+export function planAttendance(record: AttendanceRecord, threshold: number, remainingLectures: number | null, exam: ExamSchedule | null = null): AttendancePlan {
+  const t = threshold / 100;
+  const A = record.attendedClasses;
+  const T = record.totalClasses;
+
+  let mustAttend = 0;
+  if (A < t * T - EPSILON) {
+    mustAttend = t >= 1 ? Infinity : Math.ceil((t * T - A) / (1 - t) - EPSILON);
+  }
+
+  let canSkip: number;
+  if (remainingLectures === null) {
+    canSkip = t > 0 ? Math.max(0, Math.floor((A - t * T) / t + EPSILON)) : Infinity;
+  } else {
+    const R = remainingLectures;
+    canSkip = Math.min(R, Math.max(0, Math.floor(A + R - t * (T + R) + EPSILON)));
+  }
+
+  const projectedMax = remainingLectures === null
+    ? record.percentage
+    : Math.round(((A + remainingLectures) / (T + remainingLectures)) * 1000) / 10;
+
+  return {
+    threshold,
+    exam,
+    remainingLectures,
+    canSkip,
+    mustAttend,
+    reachable: remainingLectures === null ? mustAttend !== Infinity : mustAttend <= remainingLectures,
+    projectedMax,
+  };
+}
+
+/**
+ * Builds a plan per subject for the student using the admin policies, their timetable and the exam calendar.
+ */
+export function planForStudent(records: AttendanceRecord[], data: { attendancePolicies: AttendancePolicy[]; timetable: TimetableEntry[]; exams: ExamSchedule[] }, profile: StudentProfile, today: Date = new Date()): Record<string, AttendancePlan> {
+  const plans: Record<string, AttendancePlan> = {};
+  for (const record of records) {
+    const threshold = resolveThreshold(data.attendancePolicies, record.subject, profile.branch, profile.year);
+    const exam = findNextExam(record.subject, data.exams, profile, today);
+    const remaining = exam ? countRemainingLectures(record.subject, data.timetable, profile, today, new Date(exam.date)) : null;
+    plans[record.id] = planAttendance(record, threshold, remaining, exam);
+  }
+  return plans;
+}
@@ -0,0 +1,84 @@
+import { AppData, UploadAction, UploadCounts, UploadLog } from "../types";
+
+/**
+ * UPLOAD AUDIT LOG
+ * Every extraction, publish, deletion, reset and map upload is recorded in the shared `uploadLogs`
+ * with who did it, what changed and a hash of the source, so a bad import can be traced to its file.
+ */
+const MAX_UPLOAD_LOGS = 500;
+
+export const NO_COUNTS: UploadCounts = { added: 0, updated: 0, removed: 0, skipped: 0 };
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/** SHA-256 of the uploaded content as hex; the same file always hashes the same. */
+export async function hashSource(content: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+export interface LogEntry {
+  action: UploadAction;
+  category: string;
+  fileName?: string;
+  type?: string;
+  counts?: Partial<UploadCounts>;
+  sourceHash?: string;
+  message?: string;
+  status?: UploadLog['status']; // derived from counts when omitted
+}
+
+/** FAILED when nothing was applied, PARTIAL when some rows were skipped. */
+export const statusFor = (counts: UploadCounts): UploadLog['status'] =>
+  !counts.added && !counts.updated && !counts.removed ? 'FAILED' : counts.skipped ? 'PARTIAL' : 'SUCCESS';
+
+export function createLog(actor: string, entry: LogEntry): UploadLog {
+  const counts = { ...NO_COUNTS, ...entry.counts };
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    action: entry.action,
+    actor,
+    category: entry.category,
+    fileName: entry.fileName ?? '',
+    type: entry.type ?? '',
+    counts,
+    sourceHash: entry.sourceHash ?? '',
+    ...(entry.message ? { message: entry.message } : {}),
+    timestamp: new Date().toISOString(),
+    status: entry.status ?? statusFor(counts),
+  };
+}
+
+/** Newest first; the oldest entries fall off past MAX_UPLOAD_LOGS. */
+export const appendLog = (data: AppData, log: UploadLog): AppData =>
+  ({ ...data, uploadLogs: [log, ...data.uploadLogs].slice(0, MAX_UPLOAD_LOGS) });
+
+export interface LogFilter {
+  category: string; // '' for all
+  status: UploadLog['status'] | '';
+  actor: string;
+  query: string; // matched against file name, message and hash
+}
+
+export const filterLogs = (logs: UploadLog[], filter: LogFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  return logs
+    .filter(l => (!filter.category || l.category === filter.category)
+      && (!filter.status || l.status === filter.status)
+      && (!filter.actor || l.actor === filter.actor)
+      && (!query || [l.fileName, l.message, l.sourceHash].some(v => v?.toLowerCase().includes(query))))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+const CSV_COLUMNS = ['timestamp', 'action', 'actor', 'category', 'fileName', 'type', 'added', 'updated', 'removed', 'skipped', 'status', 'sourceHash', 'message'];
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (l: UploadLog): Record<string, unknown> => ({ ...l, ...l.counts });
+
+export const logsToCsv = (logs: UploadLog[]) =>
+  [CSV_COLUMNS.join(','), ...logs.map(csvRow).map(row => CSV_COLUMNS.map(c => csvCell(row[c])).join(','))].join('\n');
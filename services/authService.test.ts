@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createAuthService, createMemoryAuthStore } from './authService';
+import { HubAuth, HubLoginResult } from './syncBackends';
+
+const fakeHub = (secret: string) => {
+  const accounts: string[] = [];
+  const tokens = new Set<string>();
+  const hub: HubAuth = {
+    async hasAccounts() { return accounts.length > 0; },
+    async setup(given, account) {
+      if (given !== secret || accounts.length) return false;
+      accounts.push(account.username);
+      return true;
+    },
+    async openSession(username): Promise<HubLoginResult> {
+      if (!accounts.includes(username)) return { ok: false, reason: 'INVALID', attemptsLeft: 4 };
+      tokens.add('hub-token');
+      return { ok: true, token: 'hub-token', accountId: 'hub-id', username, expiresAt: Date.now() + 60000 };
+    },
+    async resumeSession(token) { return tokens.has(token); },
+    async closeSession() { tokens.clear(); },
+  };
+  return hub;
+};
+
+describe('AuthService', () => {
+  it('creates the first account as super admin and signs it in', async () => {
+    const store = createMemoryAuthStore();
+    const auth = createAuthService(store);
+    const result = await auth.bootstrap('Root', 'correct horse');
+    expect(result.ok).toBe(true);
+    const [account] = await store.loadAccounts();
+    expect(account).toMatchObject({ username: 'root', role: 'SUPER_ADMIN' });
+    expect(account.passwordHash).not.toContain('correct');
+    expect((await auth.bootstrap('other', 'correct horse')).ok).toBe(false);
+  });
+
+  it('refuses first-time setup without a hub unless the build allows it', async () => {
+    const auth = createAuthService(createMemoryAuthStore([], { bootstrapAllowed: false }));
+    expect(auth.setupRequirement()).toBe('DISABLED');
+    await expect(auth.bootstrap('root', 'correct horse')).rejects.toThrow();
+    expect(await auth.hasAccounts()).toBe(false);
+  });
+
+  it('locks the device out after repeated failures', async () => {
+    let clock = 1_000_000;
+    const auth = createAuthService(createMemoryAuthStore(), () => clock);
+    await auth.bootstrap('root', 'correct horse');
+    for (let i = 0; i < 4; i++) expect(await auth.login('root', 'wrong')).toMatchObject({ ok: false, reason: 'INVALID' });
+    const locked = await auth.login('root', 'wrong');
+    expect(locked).toMatchObject({ ok: false, reason: 'LOCKED' });
+    expect(await auth.login('root', 'correct horse')).toMatchObject({ ok: false, reason: 'LOCKED' });
+    clock += 5 * 60 * 1000 + 1;
+    expect((await auth.login('root', 'correct horse')).ok).toBe(true);
+  });
+
+  it('expires sessions', async () => {
+    let clock = 1_000_000;
+    const store = createMemoryAuthStore();
+    const auth = createAuthService(store, () => clock);
+    const result = await auth.bootstrap('root', 'correct horse');
+    if (!result.ok) throw new Error('bootstrap failed');
+    expect(await auth.restoreSession()).toEqual(result.session);
+    clock += 31 * 60 * 1000;
+    expect(auth.isSessionValid(result.session)).toBe(false);
+    expect(await auth.restoreSession()).toBeNull();
+  });
+
+  it('leaves setup, sign-in and session checks to the hub when there is one', async () => {
+    const auth = createAuthService(createMemoryAuthStore([], { hub: fakeHub('s3cret'), bootstrapAllowed: false }));
+    expect(auth.setupRequirement()).toBe('SECRET');
+    expect(await auth.hasAccounts()).toBe(false);
+    await expect(auth.bootstrap('root', 'correct horse', 'guess')).rejects.toThrow(/setup secret/);
+    const result = await auth.bootstrap('root', 'correct horse', 's3cret');
+    expect(result).toMatchObject({ ok: true, session: { token: 'hub-token', accountId: 'hub-id' } });
+    expect(await auth.hasAccounts()).toBe(true);
+    expect(await auth.restoreSession()).not.toBeNull();
+    await auth.logout();
+    expect(await auth.restoreSession()).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { AdminAccount, AdminRole } from "../types";
+import { PersistenceService } from "./persistenceService";
+import { HubAuth } from "./syncBackends";
+
+declare var process: { env: { [key: string]: string | undefined } };
+
+/**
+ * ADMIN AUTHENTICATION
+ * Accounts live in the shared dataset as salted PBKDF2-SHA256 hashes, so the hub never holds a usable password.
+ * When the hub authenticates admins itself (the rest backend), it checks passwords, counts failures and
+ * issues the session token, and every write is checked against that session. Other backends can only
+ * check on the device, which keeps honest users out but stops nobody who edits the hub directly.
+ */
+const SESSION_KEY = 'QUADX_ADMIN_SESSION';
+const LOCKOUT_KEY = 'QUADX_ADMIN_LOCKOUT';
+const PBKDF2_ITERATIONS = 310000;
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 5 * 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface AdminSession {
+  token: string;
+  accountId: string;
+  username: string;
+  expiresAt: number;
+}
+
+interface LockoutState {
+  failures: number;
+  lockouts: number;
+  lockedUntil: number;
+}
+
+export type LoginResult =
+  | { ok: true; session: AdminSession }
+  | { ok: false; reason: 'INVALID' | 'LOCKED'; retryAt?: number; attemptsLeft?: number };
+
+/**
+ * How the first account may be created: with the hub's setup secret, freely in a build made with
+ * ADMIN_BOOTSTRAP=true, or not at all.
+ */
+export type SetupRequirement = 'SECRET' | 'OPEN' | 'DISABLED';
+
+/**
+ * Where accounts and device-local auth state are read from.
+ * The default store goes through PersistenceService; tests can pass createMemoryAuthStore().
+ */
+export interface AuthStore {
+  loadAccounts(): Promise<AdminAccount[]>;
+  /** Saves the first account directly; only used without a hub, and only when `bootstrapAllowed`. */
+  saveFirstAccount(account: AdminAccount): Promise<boolean>;
+  bootstrapAllowed: boolean;
+  hub?: HubAuth;
+  getLocal<T>(key: string): Promise<T | null>;
+  setLocal(key: string, value: any): Promise<void>;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+const randomHex = (byteLength: number) => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+async function derivePasswordHash(password: string, saltHex: string, iterations: number): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations }, material, 256);
+  return toHex(bits);
+}
+
+// Compares every character so timing doesn't reveal how much of the hash matched.
+const constantTimeEquals = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const createAuthService = (store: AuthStore, now: () => number = Date.now) => {
+  const readLockout = async (): Promise<LockoutState> =>
+    (await store.getLocal<LockoutState>(LOCKOUT_KEY)) || { failures: 0, lockouts: 0, lockedUntil: 0 };
+
+  const service = {
+    async hasAccounts(): Promise<boolean> {
+      if (store.hub) return store.hub.hasAccounts();
+      return (await store.loadAccounts()).length > 0;
+    },
+
+    setupRequirement(): SetupRequirement {
+      if (store.hub) return 'SECRET';
+      return store.bootstrapAllowed ? 'OPEN' : 'DISABLED';
+    },
+
+    /**
+     * Hashes a new password into an account record. The caller decides where it is saved.
+     */
+    async buildAccount(username: string, password: string, role: AdminRole = 'SUPER_ADMIN', branch?: string): Promise<AdminAccount> {
+      if (!normalizeUsername(username)) throw new Error('Username is required');
+      if (role === 'DEPT_COORDINATOR' && !branch) throw new Error('Coordinators need a branch');
+      if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      const salt = randomHex(16);
+      return {
+        id: randomHex(8),
+        username: normalizeUsername(username),
+        salt,
+        passwordHash: await derivePasswordHash(password, salt, PBKDF2_ITERATIONS),
+        iterations: PBKDF2_ITERATIONS,
+        createdAt: new Date(now()).toISOString(),
+        role,
+        ...(role === 'DEPT_COORDINATOR' ? { branch } : {}),
+      };
+    },
+
+    /**
+     * Creates the very first admin as SUPER_ADMIN. Refused once any account exists, and unless the
+     * hub accepts `setupSecret` (or, without a hub, the build allows it).
+     */
+    async bootstrap(username: string, password: string, setupSecret = ''): Promise<LoginResult> {
+      if (await service.hasAccounts()) return { ok: false, reason: 'INVALID' };
+      const requirement = service.setupRequirement();
+      if (requirement === 'DISABLED') throw new Error('First-time setup is disabled in this build');
+      const account = await service.buildAccount(username, password);
+      const saved = store.hub ? await store.hub.setup(setupSecret, account) : await store.saveFirstAccount(account);
+      if (!saved) throw new Error(store.hub ? 'The hub refused the setup secret' : 'Could not reach the hub to save the account');
+      return service.login(username, password);
+    },
+
+    async getLockout(): Promise<number | null> {
+      const state = await readLockout();
+      return state.lockedUntil > now() ? state.lockedUntil : null;
+    },
+
+    /**
+     * Verifies credentials. After MAX_FAILED_ATTEMPTS failures the device is locked out,
+     * and each further lockout doubles in length up to MAX_LOCKOUT_MS. With a hub, the hub
+     * does all of this and the device keeps only the token it hands out.
+     */
+    async login(username: string, password: string): Promise<LoginResult> {
+      if (store.hub) {
+        const result = await store.hub.openSession(username, password);
+        if (!result.ok) return result;
+        const session: AdminSession = { token: result.token, accountId: result.accountId, username: result.username, expiresAt: result.expiresAt };
+        await store.setLocal(SESSION_KEY, session);
+        return { ok: true, session };
+      }
+
+      const lockout = await readLockout();
+      if (lockout.lockedUntil > now()) return { ok: false, reason: 'LOCKED', retryAt: lockout.lockedUntil };
+
+      const account = (await store.loadAccounts()).find(a => a.username === normalizeUsername(username));
+      // Hash even for unknown usernames so response time doesn't reveal which accounts exist.
+      const candidate = await derivePasswordHash(password, account?.salt || randomHex(16), account?.iterations || PBKDF2_ITERATIONS);
+
+      if (!account || !constantTimeEquals(candidate, account.passwordHash)) {
+        const failures = lockout.failures + 1;
+        if (failures >= MAX_FAILED_ATTEMPTS) {
+          const duration = Math.min(BASE_LOCKOUT_MS * 2 ** lockout.lockouts, MAX_LOCKOUT_MS);
+          const next = { failures: 0, lockouts: lockout.lockouts + 1, lockedUntil: now() + duration };
+          await store.setLocal(LOCKOUT_KEY, next);
+          return { ok: false, reason: 'LOCKED', retryAt: next.lockedUntil };
+        }
+        await store.setLocal(LOCKOUT_KEY, { ...lockout, failures });
+        return { ok: false, reason: 'INVALID', attemptsLeft: MAX_FAILED_ATTEMPTS - failures };
+      }
+
+      await store.setLocal(LOCKOUT_KEY, { failures: 0, lockouts: 0, lockedUntil: 0 });
+      const session: AdminSession = {
+        token: randomHex(32),
+        accountId: account.id,
+        username: account.username,
+        expiresAt: now() + SESSION_TTL_MS,
+      };
+      await store.setLocal(SESSION_KEY, session);
+      return { ok: true, session };
+    },
+
+    /**
+     * Re-checks a signed-in admin's password before it is used for something else, such as
+     * wrapping a key. Does not touch the lockout counter.
+     */
+    async verifyPassword(account: AdminAccount, password: string): Promise<boolean> {
+      return constantTimeEquals(await derivePasswordHash(password, account.salt, account.iterations), account.passwordHash);
+    },
+
+    /**
+     * Returns the stored session if it hasn't expired and its account still exists.
+     * With a hub, the hub has to accept the token too.
+     */
+    async restoreSession(): Promise<AdminSession | null> {
+      const session = await store.getLocal<AdminSession>(SESSION_KEY);
+      if (!session || session.expiresAt <= now()) return null;
+      if (store.hub) return (await store.hub.resumeSession(session.token).catch(() => false)) ? session : null;
+      const accounts = await store.loadAccounts();
+      return accounts.some(a => a.id === session.accountId) ? session : null;
+    },
+
+    isSessionValid(session: AdminSession | null): boolean {
+      return !!session && session.expiresAt > now();
+    },
+
+    async logout(): Promise<void> {
+      await store.hub?.closeSession();
+      await store.setLocal(SESSION_KEY, null);
+    },
+  };
+
+  return service;
+};
+
+/**
+ * In-memory AuthStore for exercising the auth flow without IndexedDB or the hub.
+ */
+export const createMemoryAuthStore = (accounts: AdminAccount[] = [], options: { hub?: HubAuth; bootstrapAllowed?: boolean } = {}): AuthStore => {
+  let stored = [...accounts];
+  const local = new Map<string, any>();
+  return {
+    bootstrapAllowed: options.bootstrapAllowed ?? true,
+    hub: options.hub,
+    async loadAccounts() { return stored; },
+    async saveFirstAccount(account) { stored = [account]; return true; },
+    async getLocal<T>(key: string) { return (local.get(key) ?? null) as T | null; },
+    async setLocal(key, value) { local.set(key, value); },
+  };
+};
+
+const persistenceAuthStore: AuthStore = {
+  // Without a hub that checks a setup secret, anyone could claim an empty deployment; only one-off setup builds may.
+  bootstrapAllowed: process.env.ADMIN_BOOTSTRAP === 'true',
+  hub: PersistenceService.backend.auth,
+  async loadAccounts() {
+    return (await PersistenceService.loadData()).adminAccounts || [];
+  },
+  async saveFirstAccount(account) {
+    const data = await PersistenceService.loadData();
+    return (await PersistenceService.saveData({ ...data, adminAccounts: [account] })).status === 'SAVED';
+  },
+  getLocal: (key) => PersistenceService.getLocal(key),
+  setLocal: (key, value) => PersistenceService.setLocal(key, value),
+};
+
+export const AuthService = createAuthService(persistenceAuthStore);
@@ -0,0 +1,124 @@
+import { AppData } from "../types";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import { RECORD_COLLECTIONS, RecordCollection, stableStringify } from "./mergeService";
+import { looksLikeAppData, prepareDocument } from "./schemaService";
+
+/**
+ * BACKUPS
+ * The whole dataset as a versioned JSON bundle that can be carried to a fresh deployment.
+ * Bundles are signed with HMAC-SHA256 under a passphrase the admin picks at export, so an
+ * import can tell a genuine backup from an edited or corrupted one.
+ */
+const BUNDLE_FORMAT = 'quadx-backup';
+const BUNDLE_VERSION = 1;
+const PBKDF2_ITERATIONS = 210000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export type BackupKey = RecordCollection | 'campusMap';
+
+export const BACKUP_KEYS: BackupKey[] = [...RECORD_COLLECTIONS, 'campusMap'];
+
+export interface BackupSignature {
+  algorithm: 'HMAC-SHA256';
+  salt: string;
+  iterations: number;
+  value: string;
+}
+
+export interface BackupBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  exportedBy: string;
+  revision: number; // hub revision the export was taken at
+  includesImages: boolean;
+  data: AppData;
+  signature: BackupSignature;
+}
+
+export interface BackupSummaryRow {
+  key: BackupKey;
+  incoming: number;
+  current: number;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+async function signingKey(passphrase: string, saltHex: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+// Everything but the signature, in a key order that survives a round trip through any JSON tool.
+const signedBytes = (bundle: Omit<BackupBundle, 'signature'> & { signature?: BackupSignature }) => {
+  const { signature, ...unsigned } = bundle;
+  return new TextEncoder().encode(stableStringify(unsigned));
+};
+
+export async function createBackup(data: AppData, options: { passphrase: string; includeImages: boolean; exportedBy: string }): Promise<BackupBundle> {
+  if (options.passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  const { campusMapImage, stylizedMapImage, ...rest } = data;
+  const unsigned = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: options.exportedBy,
+    revision: data.revision,
+    includesImages: options.includeImages,
+    data: (options.includeImages ? data : rest) as AppData,
+  } as const;
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await signingKey(options.passphrase, salt, PBKDF2_ITERATIONS);
+  const value = toHex(await crypto.subtle.sign('HMAC', key, signedBytes(unsigned)));
+  return { ...unsigned, signature: { algorithm: 'HMAC-SHA256', salt, iterations: PBKDF2_ITERATIONS, value } };
+}
+
+export const backupFileName = (bundle: BackupBundle) =>
+  `quadx-backup-rev${bundle.revision}-${bundle.exportedAt.slice(0, 10)}${bundle.includesImages ? '' : '-no-images'}.json`;
+
+/**
+ * Parses and verifies a bundle. Throws with a message for the admin when the file isn't a backup,
+ * comes from a newer format, or the passphrase doesn't match the signature.
+ * The data is migrated and validated like a hub load; `quarantined` counts records that didn't pass.
+ */
+export async function readBackup(text: string, passphrase: string): Promise<{ bundle: BackupBundle; data: AppData; quarantined: number }> {
+  let bundle: BackupBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Not a JSON file');
+  }
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) throw new Error('Not a QuadX backup');
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) throw new Error(`Backup format v${bundle.version} is newer than this app`);
+
+  const signature = bundle.signature;
+  if (!signature || signature.algorithm !== 'HMAC-SHA256' || !signature.salt || !signature.value) throw new Error('Backup is not signed');
+  // A tampered iteration count could otherwise hang the tab.
+  if (!Number.isInteger(signature.iterations) || signature.iterations < 1 || signature.iterations > 1000000) throw new Error('Backup signature is malformed');
+  const key = await signingKey(passphrase, signature.salt, signature.iterations);
+  const valid = await crypto.subtle.verify('HMAC', key, fromHex(signature.value), signedBytes(bundle));
+  if (!valid) throw new Error('Wrong passphrase, or the backup was modified');
+
+  if (!looksLikeAppData(bundle.data)) throw new Error('Backup contains no campus data');
+  const { data, quarantined } = prepareDocument(bundle.data);
+  return { bundle, data, quarantined: quarantined.length };
+}
+
+/** Record counts per collection in the backup and in the live dataset. */
+export const summarizeBackup = (current: AppData, incoming: AppData, includesImages: boolean): BackupSummaryRow[] =>
+  BACKUP_KEYS
+    .filter(key => key !== 'campusMap' || includesImages)
+    .map(key => key === 'campusMap'
+      ? { key, incoming: incoming.campusMapImage ? 1 : 0, current: current.campusMapImage ? 1 : 0 }
+      : { key, incoming: (incoming[key] as any[]).length, current: (current[key] as any[]).length });
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { changesSince, emptyLog, recordChanges } from '../shared/changeLog';
+import { applyChangeSet, createChangeLog } from './changeFeed';
+import { INITIAL_DATA } from '../constants';
+import { AppData } from '../types';
+
+const doc = (revision: number, eventIds: string[]): AppData => ({
+  ...INITIAL_DATA,
+  revision,
+  events: eventIds.map(id => ({ id, title: id, date: '2026-05-12', venue: 'Hall', description: '', category: 'General' })),
+});
+
+describe('change log', () => {
+  it('sends only what changed, tombstones included', () => {
+    const log = createChangeLog();
+    const v1 = doc(1, ['a', 'b']);
+    const v2 = doc(2, ['a', 'c']);
+    log.record(null, v1, 1);
+    log.record(v1, v2, 2);
+    const changes = log.since(1, v2);
+    expect(changes.collections.events).toEqual({ upserted: [v2.events[1]], removed: ['b'] });
+    expect(applyChangeSet(v1, changes).events.map(e => e.id)).toEqual(['a', 'c']);
+  });
+
+  it('diffs the first logged write against the stored document', () => {
+    // A hub upgraded with data already on disk starts its log at the stored revision.
+    const stored = doc(7, ['a', 'b']);
+    const log = emptyLog(stored.revision);
+    const next = doc(8, ['a']);
+    recordChanges(log, stored, next, 8);
+    expect(changesSince(log, next, 7).collections.events).toEqual({ upserted: [], removed: ['b'] });
+    expect(changesSince(log, next, 5).reset).toEqual(next);
+  });
+});
@@ -0,0 +1,92 @@
+import { AppData } from "../types";
+import { RECORD_COLLECTIONS, RecordCollection, SCALAR_FIELDS, ScalarField, stableStringify } from "./mergeService";
+import { ChangeLogState, changesSince, emptyLog, recordChanges } from "../shared/changeLog";
+
+/**
+ * CHANGE FEED
+ * Per-collection deltas between two revisions of the shared document, so clients that are
+ * already up to date download only what changed instead of the whole blob (and its images).
+ */
+export type DocumentField = ScalarField | 'rawKnowledge' | 'schemaVersion';
+
+export const DOCUMENT_FIELDS: DocumentField[] = [...SCALAR_FIELDS, 'rawKnowledge', 'schemaVersion'];
+
+export interface CollectionChanges {
+  upserted: any[];
+  removed: string[];
+}
+
+export interface ChangeSet {
+  revision: number;
+  /** Full document, sent instead of deltas when the requested revision can't be served incrementally. */
+  reset?: AppData;
+  collections: Partial<Record<RecordCollection, CollectionChanges>>;
+  /** Changed top-level fields; null means the field was cleared. */
+  fields: Partial<Record<DocumentField, any>>;
+}
+
+export const isEmptyChangeSet = (changes: ChangeSet) =>
+  !changes.reset && !Object.keys(changes.collections).length && !Object.keys(changes.fields).length;
+
+/**
+ * Computes what changed from `prev` to `next`. Used where the hub can't produce a feed itself.
+ */
+export function diffAppData(prev: AppData | null, next: AppData): ChangeSet {
+  if (!prev) return { revision: next.revision, reset: next, collections: {}, fields: {} };
+
+  const changes: ChangeSet = { revision: next.revision, collections: {}, fields: {} };
+  for (const collection of RECORD_COLLECTIONS) {
+    const before = new Map<string, any>((prev[collection] as any[] || []).map(r => [r.id, r]));
+    const after: any[] = next[collection] as any[] || [];
+    const upserted = after.filter(r => stableStringify(before.get(r.id)) !== stableStringify(r));
+    const afterIds = new Set(after.map(r => r.id));
+    const removed = [...before.keys()].filter(id => !afterIds.has(id));
+    if (upserted.length || removed.length) changes.collections[collection] = { upserted, removed };
+  }
+  for (const field of DOCUMENT_FIELDS) {
+    if (stableStringify(prev[field]) !== stableStringify(next[field])) changes.fields[field] = next[field] ?? null;
+  }
+  return changes;
+}
+
+/**
+ * Applies a change set onto a local copy. Upserts replace records in place; new records are appended.
+ */
+export function applyChangeSet(doc: AppData, changes: ChangeSet): AppData {
+  if (changes.reset) return { ...changes.reset, revision: changes.revision };
+
+  const next: AppData = { ...doc, revision: changes.revision };
+  for (const [collection, delta] of Object.entries(changes.collections) as [RecordCollection, CollectionChanges][]) {
+    const removed = new Set(delta.removed);
+    const upserts = new Map(delta.upserted.map(r => [r.id, r]));
+    const items = (doc[collection] as any[] || [])
+      .filter(r => !removed.has(r.id))
+      .map(r => (upserts.has(r.id) ? upserts.get(r.id) : r));
+    const existing = new Set(items.map(r => r.id));
+    (next as any)[collection] = [...items, ...delta.upserted.filter(r => !existing.has(r.id))];
+  }
+  for (const [field, value] of Object.entries(changes.fields)) {
+    (next as any)[field] = value === null ? undefined : value;
+  }
+  return next;
+}
+
+/**
+ * Revision bookkeeping a hub keeps so it can answer "what changed since N".
+ * The same log as the sync hub's (shared/changeLog.js); plain JSON so it can be persisted alongside the document.
+ */
+export type { ChangeLogState };
+
+export const createChangeLog = (state: ChangeLogState = emptyLog()) => ({
+  state,
+
+  /** Stamps every record and field that differs between `prev` and `next` with `revision`. */
+  record(prev: AppData | null, next: AppData, revision: number) {
+    recordChanges(state, prev, next, revision);
+  },
+
+  /** Everything stamped after `since`, read from the current document. */
+  since(since: number, doc: AppData): ChangeSet {
+    return changesSince(state, doc, since) as ChangeSet;
+  },
+});
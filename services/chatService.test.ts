@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatSession, chatHistory, newSession, pendingSummary } from './chatService';
+
+const chat = (count: number, summarizedCount = 0): ChatSession => ({
+  ...newSession(),
+  messages: Array.from({ length: count }, (_, i): ChatMessage => ({ text: `m${i}`, sender: i % 2 ? 'AI' : 'USER' })),
+  summary: summarizedCount ? 'earlier' : '',
+  summarizedCount,
+});
+
+describe('chatHistory', () => {
+  it('sends every message the summary does not cover', () => {
+    // 10 messages: 2 left the recent window but are too few to summarise yet.
+    const session = chat(10);
+    expect(pendingSummary(session)).toEqual([]);
+    expect(chatHistory(session).turns.map(m => m.text)).toEqual(session.messages.map(m => m.text));
+  });
+
+  it('starts after the summary once there is one', () => {
+    const history = chatHistory(chat(14, 4));
+    expect(history.summary).toBe('earlier');
+    expect(history.turns.map(m => m.text)[0]).toBe('m4');
+    expect(history.turns).toHaveLength(10);
+  });
+
+  it('caps the turns it sends while the summary keeps failing', () => {
+    const turns = chatHistory(chat(30)).turns;
+    expect(turns).toHaveLength(12);
+    expect(turns[0]).toEqual({ text: 'm18', sender: 'USER' });
+  });
+});
@@ -0,0 +1,91 @@
+import { PersistenceService } from "./persistenceService";
+
+/**
+ * VPAI CHAT SESSIONS
+ * Conversations with VPai are kept on this device only. The model sees recent messages
+ * word for word; anything older is folded into a short running summary (see
+ * geminiService.summarizeVPaiChat), so follow-up questions keep working without the prompt
+ * growing with every turn.
+ */
+const SESSIONS_KEY = 'QUADX_VPAI_SESSIONS_V1';
+const MAX_SESSIONS = 20;
+const RECENT_MESSAGES = 8;
+// Older messages are summarised in batches rather than one call per turn.
+const SUMMARY_BATCH = 4;
+// More than the summary ever leaves behind, so only a summary that keeps failing cuts turns.
+const MAX_TURNS = RECENT_MESSAGES + SUMMARY_BATCH;
+const TITLE_LENGTH = 40;
+
+export interface ChatMessage {
+  text: string;
+  sender: 'USER' | 'AI';
+}
+
+export interface ChatSession {
+  id: string;
+  title: string; // the first question, shortened
+  messages: ChatMessage[];
+  summary: string; // what was said in messages[0, summarizedCount)
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+export interface ChatHistory {
+  summary: string;
+  turns: ChatMessage[]; // always starts with a USER message
+}
+
+export const newSession = (): ChatSession => ({
+  id: Math.random().toString(36).substr(2, 9),
+  title: '',
+  messages: [],
+  summary: '',
+  summarizedCount: 0,
+  updatedAt: new Date().toISOString(),
+});
+
+export function withMessage(session: ChatSession, message: ChatMessage): ChatSession {
+  return {
+    ...session,
+    title: session.title || (message.sender === 'USER' ? message.text.trim().slice(0, TITLE_LENGTH) : ''),
+    messages: [...session.messages, message],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * What the model gets to see of `session`: the running summary and the messages after it. That is
+ * the last RECENT_MESSAGES plus any waiting for the next summary batch. While a summary keeps failing,
+ * only the last MAX_TURNS are sent and the ones in between are left out until it succeeds.
+ */
+export function chatHistory(session: ChatSession): ChatHistory {
+  const turns = session.messages.slice(Math.max(session.summarizedCount, session.messages.length - MAX_TURNS));
+  const start = turns.findIndex(m => m.sender === 'USER');
+  return { summary: session.summary, turns: start < 0 ? [] : turns.slice(start) };
+}
+
+/** Messages that have scrolled out of the recent window but aren't in the summary yet, once there are enough to summarise. */
+export function pendingSummary(session: ChatSession): ChatMessage[] {
+  const pending = session.messages.slice(session.summarizedCount, Math.max(0, session.messages.length - RECENT_MESSAGES));
+  return pending.length >= SUMMARY_BATCH ? pending : [];
+}
+
+/** Chat sessions saved on this device, most recently used first. */
+export const ChatSessions = {
+  async list(): Promise<ChatSession[]> {
+    return (await PersistenceService.getLocal<ChatSession[]>(SESSIONS_KEY)) || [];
+  },
+
+  async save(session: ChatSession): Promise<void> {
+    const others = (await this.list()).filter(s => s.id !== session.id);
+    await PersistenceService.setLocal(SESSIONS_KEY, [session, ...others].slice(0, MAX_SESSIONS));
+  },
+
+  async remove(id: string): Promise<void> {
+    await PersistenceService.setLocal(SESSIONS_KEY, (await this.list()).filter(s => s.id !== id));
+  },
+
+  async clear(): Promise<void> {
+    await PersistenceService.setLocal(SESSIONS_KEY, []);
+  },
+};
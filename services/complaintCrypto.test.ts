@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { approveAccess, isSealed, keyFingerprint, sealingKey } from './complaintCrypto';
+
+const RSA = { name: 'RSA-OAEP', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' } as const;
+
+const exportSpki = async (key: CryptoKey) =>
+  btoa(String.fromCharCode(...new Uint8Array(await crypto.subtle.exportKey('spki', key)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('sealingKey', () => {
+  it('prefers the pinned key and only trusts the hub key on a hub that checks writers', () => {
+    expect(sealingKey({ complaintPublicKey: 'hub' }, false, 'pinned')).toEqual({ publicKey: 'pinned', verified: true });
+    expect(sealingKey({ complaintPublicKey: 'hub' }, true, '')).toEqual({ publicKey: 'hub', verified: true });
+    expect(sealingKey({ complaintPublicKey: 'hub' }, false, '')).toEqual({ publicKey: 'hub', verified: false });
+    expect(sealingKey({}, true, '')).toBeNull();
+  });
+});
+
+describe('approveAccess', () => {
+  it('only seals the group key to a request whose code was read out', async () => {
+    const group = await crypto.subtle.generateKey(RSA, true, ['encrypt', 'decrypt']);
+    const personal = await crypto.subtle.generateKey(RSA, true, ['encrypt', 'decrypt']);
+    const request = { publicKey: await exportSpki(personal.publicKey), wrap: { salt: '', iv: '', iterations: 1, data: '' } };
+    const code = await keyFingerprint(request.publicKey);
+    expect(code).toMatch(/^[0-9a-f]{4}( [0-9a-f]{4}){3}$/);
+
+    await expect(approveAccess(group.privateKey, request, '0000 0000 0000 0000')).rejects.toThrow("doesn't match");
+    expect(isSealed(await approveAccess(group.privateKey, request, code.toUpperCase().replace(/ /g, '-')))).toBe(true);
+  });
+});
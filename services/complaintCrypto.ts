@@ -0,0 +1,184 @@
+import { AdminAccount, AppData, KeyWrap } from "../types";
+
+declare var process: { env: { [key: string]: string | undefined } };
+
+/**
+ * COMPLAINT ENCRYPTION
+ * Complaint bodies and student replies are sealed on the student's device to the admin group's
+ * RSA-OAEP public key (hybrid: a fresh AES-GCM key per message, wrapped with RSA). The group
+ * private key never leaves an admin device unencrypted: each admin holds a copy wrapped with a
+ * key derived from their own password. Admins without a copy request access with a personal key
+ * pair, and any admin who can already read complaints approves by sealing the group key to it.
+ */
+const SEALED_PREFIX = 'e2e1.';
+const RSA = { name: 'RSA-OAEP', modulusLength: 3072, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' } as const;
+const RSA_IMPORT = { name: 'RSA-OAEP', hash: 'SHA-256' } as const;
+const WRAP_ITERATIONS = 310000;
+
+/** Group public key built into the app (COMPLAINT_PUBLIC_KEY). When set, students seal to it whatever the hub holds. */
+export const PINNED_PUBLIC_KEY = process.env.COMPLAINT_PUBLIC_KEY || '';
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+export const isSealed = (text: string) => text.startsWith(SEALED_PREFIX);
+
+const importPublicKey = (spki: string) => crypto.subtle.importKey('spki', fromBase64Url(spki), RSA_IMPORT, false, ['encrypt']);
+
+async function sealBytes(spki: string, plain: Uint8Array): Promise<string> {
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, contentKey, plain);
+  const wrapped = await crypto.subtle.encrypt(RSA_IMPORT, await importPublicKey(spki), await crypto.subtle.exportKey('raw', contentKey));
+  return SEALED_PREFIX + [wrapped, iv, data].map(toBase64Url).join('.');
+}
+
+async function openBytes(privateKey: CryptoKey, sealed: string): Promise<ArrayBuffer> {
+  const [wrapped, iv, data] = sealed.slice(SEALED_PREFIX.length).split('.').map(fromBase64Url);
+  const raw = await crypto.subtle.decrypt(RSA_IMPORT, privateKey, wrapped);
+  const contentKey = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['decrypt']);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, contentKey, data);
+}
+
+export interface SealingKey {
+  publicKey: string;
+  verified: boolean; // pinned in the build, or published on a hub that only lets admins change it
+}
+
+/**
+ * The key a student device seals to. A pinned key always wins. Otherwise the dataset's key is used,
+ * but on a hub anyone can write (`hubEnforcesWrites` false) it may have been planted, so it is unverified.
+ */
+export function sealingKey(data: Pick<AppData, 'complaintPublicKey'>, hubEnforcesWrites: boolean, pinned = PINNED_PUBLIC_KEY): SealingKey | null {
+  if (pinned) return { publicKey: pinned, verified: true };
+  return data.complaintPublicKey ? { publicKey: data.complaintPublicKey, verified: hubEnforcesWrites } : null;
+}
+
+/** Short code for a public key, read aloud to compare a key across devices, e.g. "3f2a 91c0 7b4e 0d18". */
+export async function keyFingerprint(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64Url(publicKey)));
+  const hex = Array.from(digest.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/** Encrypts text so only holders of the group private key can read it. */
+export const seal = (publicKey: string, text: string) => sealBytes(publicKey, new TextEncoder().encode(text));
+
+/** Plaintext of a sealed body. Text that was never sealed (from before encryption) is returned as is. */
+export async function unseal(privateKey: CryptoKey, text: string): Promise<string> {
+  return isSealed(text) ? new TextDecoder().decode(await openBytes(privateKey, text)) : text;
+}
+
+type ComplaintTexts = Pick<AppData, 'complaints' | 'complaintMessages'>;
+
+// Admin replies stay readable: the student has no key to open them with.
+const needsSealing = (text: string, author: 'STUDENT' | 'ADMIN' = 'STUDENT') => author === 'STUDENT' && !isSealed(text);
+
+/**
+ * Complaints, staff notes and student replies still stored readable: written before encryption,
+ * or queued offline before it was enabled.
+ */
+export const unsealedCount = (data: ComplaintTexts) =>
+  data.complaints.reduce((n, c) => n + (needsSealing(c.text) ? 1 : 0) + c.notes.filter(note => needsSealing(note.text)).length, 0)
+  + data.complaintMessages.filter(m => needsSealing(m.text, m.author)).length;
+
+/** Seals everything `unsealedCount` counts. Student signatures on sealed-later replies then cover the plaintext. */
+export async function sealExisting(data: ComplaintTexts, publicKey: string): Promise<ComplaintTexts> {
+  return {
+    complaints: await Promise.all(data.complaints.map(async c => ({
+      ...c,
+      text: needsSealing(c.text) ? await seal(publicKey, c.text) : c.text,
+      notes: await Promise.all(c.notes.map(async n => (needsSealing(n.text) ? { ...n, text: await seal(publicKey, n.text) } : n))),
+    }))),
+    complaintMessages: await Promise.all(data.complaintMessages.map(async m => (needsSealing(m.text, m.author) ? { ...m, text: await seal(publicKey, m.text) } : m))),
+  };
+}
+
+async function passwordKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+async function wrapPrivateKey(privateKey: CryptoKey, password: string): Promise<KeyWrap> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await passwordKey(password, salt, WRAP_ITERATIONS), pkcs8);
+  return { salt: toBase64Url(salt), iv: toBase64Url(iv), iterations: WRAP_ITERATIONS, data: toBase64Url(data) };
+}
+
+// Extractable, so an unlocked admin can re-wrap it for others.
+const importPrivateKey = (pkcs8: ArrayBuffer) => crypto.subtle.importKey('pkcs8', pkcs8, RSA_IMPORT, true, ['decrypt']);
+
+/** Throws when the password is wrong (AES-GCM refuses to decrypt). */
+async function unwrapPrivateKey(wrap: KeyWrap, password: string): Promise<CryptoKey> {
+  const key = await passwordKey(password, fromBase64Url(wrap.salt), wrap.iterations);
+  return importPrivateKey(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(wrap.iv) }, key, fromBase64Url(wrap.data)));
+}
+
+const newKeyPair = () => crypto.subtle.generateKey(RSA, true, ['encrypt', 'decrypt']);
+
+const exportPublicKey = async (key: CryptoKey) => toBase64Url(await crypto.subtle.exportKey('spki', key));
+
+/** Creates the group key. Returns the public key for the dataset and the creator's wrapped copy. */
+export async function createGroupKey(password: string): Promise<{ publicKey: string; wrap: KeyWrap; privateKey: CryptoKey }> {
+  const pair = await newKeyPair();
+  return { publicKey: await exportPublicKey(pair.publicKey), wrap: await wrapPrivateKey(pair.privateKey, password), privateKey: pair.privateKey };
+}
+
+/** The group key wrapped for a new account, from an admin who has it unlocked. */
+export const wrapForPassword = wrapPrivateKey;
+
+/** A personal key pair for an admin asking to be let in; the private half is wrapped with their password. */
+export async function requestAccess(password: string): Promise<NonNullable<AdminAccount['complaintAccessRequest']>> {
+  const pair = await newKeyPair();
+  return { publicKey: await exportPublicKey(pair.publicKey), wrap: await wrapPrivateKey(pair.privateKey, password) };
+}
+
+/**
+ * Seals the group private key to a requesting admin's personal public key. Requests sit in the
+ * dataset, where they can be planted, so `code` must be the fingerprint the requester reads out
+ * from their own screen.
+ */
+export async function approveAccess(groupKey: CryptoKey, request: NonNullable<AdminAccount['complaintAccessRequest']>, code: string): Promise<string> {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^0-9a-f]/g, '');
+  if (normalize(code) !== normalize(await keyFingerprint(request.publicKey))) {
+    throw new Error("The code doesn't match this request. Ask the admin to read it from their own screen.");
+  }
+  return sealBytes(request.publicKey, new Uint8Array(await crypto.subtle.exportKey('pkcs8', groupKey)));
+}
+
+export type UnlockResult =
+  | { status: 'UNLOCKED'; key: CryptoKey; account: AdminAccount } // `account` differs from the input when a grant was redeemed
+  | { status: 'REQUESTED'; account: AdminAccount }
+  | { status: 'WAITING' };
+
+/**
+ * Opens the group key for `account` with its password. A pending grant is redeemed into the
+ * account's own wrapped copy; an account with neither gets an access request to save.
+ * Throws on a wrong password.
+ */
+export async function unlockGroupKey(account: AdminAccount, password: string): Promise<UnlockResult> {
+  if (account.complaintKeyWrap) {
+    return { status: 'UNLOCKED', key: await unwrapPrivateKey(account.complaintKeyWrap, password), account };
+  }
+  const request = account.complaintAccessRequest;
+  if (request && account.complaintAccessGrant) {
+    const personal = await unwrapPrivateKey(request.wrap, password);
+    const key = await importPrivateKey(await openBytes(personal, account.complaintAccessGrant));
+    const { complaintAccessRequest, complaintAccessGrant, ...rest } = account;
+    return { status: 'UNLOCKED', key, account: { ...rest, complaintKeyWrap: await wrapPrivateKey(key, password) } };
+  }
+  if (request) {
+    await unwrapPrivateKey(request.wrap, password); // still checks the password
+    return { status: 'WAITING' };
+  }
+  return { status: 'REQUESTED', account: { ...account, complaintAccessRequest: await requestAccess(password) } };
+}
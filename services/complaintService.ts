@@ -0,0 +1,90 @@
+import { Complaint, ComplaintCategory, ComplaintStatus } from "../types";
+
+/**
+ * COMPLAINT WORKFLOW
+ * Complaints are tickets: triaged into a category, assigned to staff, moved through a fixed set
+ * of statuses with every transition timestamped, and answered with a public response.
+ * Each category has a response target; open tickets past it are flagged as breached.
+ */
+export const COMPLAINT_CATEGORIES: Record<ComplaintCategory, { label: string; slaHours: number }> = {
+  HOSTEL: { label: 'Hostel', slaHours: 48 },
+  CANTEEN: { label: 'Canteen', slaHours: 24 },
+  ACADEMICS: { label: 'Academics', slaHours: 72 },
+  INFRASTRUCTURE: { label: 'Infrastructure', slaHours: 120 },
+  OTHER: { label: 'Other', slaHours: 72 },
+};
+
+// Untriaged tickets should at least be looked at within a day.
+const TRIAGE_SLA_HOURS = 24;
+const DUE_SOON_SHARE = 0.75;
+
+export const COMPLAINT_STATUSES: Record<ComplaintStatus, { label: string; next: ComplaintStatus[] }> = {
+  PENDING: { label: 'Pending', next: ['IN_PROGRESS', 'RESOLVED', 'DISMISSED'] },
+  IN_PROGRESS: { label: 'In Progress', next: ['RESOLVED', 'DISMISSED'] },
+  RESOLVED: { label: 'Resolved', next: ['IN_PROGRESS'] }, // reopen
+  DISMISSED: { label: 'Dismissed', next: ['IN_PROGRESS'] },
+};
+
+export type SlaState = 'OK' | 'DUE_SOON' | 'BREACHED' | 'CLOSED';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const isOpen = (c: Complaint) => c.status === 'PENDING' || c.status === 'IN_PROGRESS';
+
+/** A fresh ticket as a student submits it. */
+export function createComplaint(text: string, now = new Date()): Complaint {
+  const timestamp = now.toISOString();
+  return { id: newId(), text, timestamp, status: 'PENDING', notes: [], history: [{ status: 'PENDING', at: timestamp, by: '' }] };
+}
+
+export const slaHoursOf = (c: Complaint) => (c.category ? COMPLAINT_CATEGORIES[c.category].slaHours : TRIAGE_SLA_HOURS);
+
+/** Hours since submission, or null for legacy tickets whose timestamp can't be read. */
+export function ageHours(c: Complaint, now = new Date()): number | null {
+  const submitted = Date.parse(c.timestamp);
+  return Number.isNaN(submitted) ? null : (now.getTime() - submitted) / 3600000;
+}
+
+export function slaState(c: Complaint, now = new Date()): SlaState {
+  if (!isOpen(c)) return 'CLOSED';
+  const age = ageHours(c, now);
+  if (age === null) return 'OK';
+  const target = slaHoursOf(c);
+  return age >= target ? 'BREACHED' : age >= target * DUE_SOON_SHARE ? 'DUE_SOON' : 'OK';
+}
+
+export const formatAge = (hours: number) =>
+  hours < 1 ? `${Math.max(0, Math.round(hours * 60))}m` : hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+
+/** Moves the ticket to `status`, recording who and when. Throws on a transition the workflow doesn't allow. */
+export function transition(c: Complaint, status: ComplaintStatus, by: string, now = new Date()): Complaint {
+  if (!COMPLAINT_STATUSES[c.status].next.includes(status)) {
+    throw new Error(`Cannot move a ${COMPLAINT_STATUSES[c.status].label} complaint to ${COMPLAINT_STATUSES[status].label}`);
+  }
+  return { ...c, status, history: [...c.history, { status, at: now.toISOString(), by }] };
+}
+
+export const addNote = (c: Complaint, author: string, text: string, now = new Date()): Complaint =>
+  ({ ...c, notes: [...c.notes, { id: newId(), author, text, timestamp: now.toISOString() }] });
+
+export const respond = (c: Complaint, response: string, now = new Date()): Complaint =>
+  ({ ...c, response, respondedAt: now.toISOString() });
+
+export interface ComplaintFilter {
+  status: ComplaintStatus | 'OPEN' | ''; // '' for all
+  category: ComplaintCategory | 'UNTRIAGED' | '';
+  assignee: string;
+  query: string;
+}
+
+/** Matching tickets, breached and oldest first so the queue reads as a to-do list. */
+export function filterComplaints(complaints: Complaint[], filter: ComplaintFilter, now = new Date()): Complaint[] {
+  const query = filter.query.trim().toLowerCase();
+  const rank: Record<SlaState, number> = { BREACHED: 0, DUE_SOON: 1, OK: 2, CLOSED: 3 };
+  return complaints
+    .filter(c => (!filter.status || (filter.status === 'OPEN' ? isOpen(c) : c.status === filter.status))
+      && (!filter.category || (filter.category === 'UNTRIAGED' ? !c.category : c.category === filter.category))
+      && (!filter.assignee || c.assignee === filter.assignee)
+      && (!query || [c.text, c.response, c.assignee, ...c.notes.map(n => n.text)].some(v => v?.toLowerCase().includes(query))))
+    .sort((a, b) => rank[slaState(a, now)] - rank[slaState(b, now)] || a.timestamp.localeCompare(b.timestamp));
+}
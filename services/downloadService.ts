@@ -0,0 +1,11 @@
+/**
+ * Saves generated content (exports, backups) as a file through a temporary object URL.
+ */
+export function downloadFile(content: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
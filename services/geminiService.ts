@@ -1,6 +1,8 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AppData } from "../types";
+import { AppData, ComplaintCategory } from "../types";
+import { ComplaintTriage, URGENCY_RANK } from "./triageService";
+import { ChatHistory, ChatMessage } from "./chatService";
 
 declare var process: { env: { [key: string]: string | undefined } };
 
@@ -8,38 +10,57 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Lets the model flag fields it guessed so the staging review can highlight them.
+const withUncertainty = (schema: any) => ({
+  ...schema,
+  items: {
+    ...schema.items,
+    properties: { ...schema.items.properties, uncertainFields: { type: Type.ARRAY, items: { type: Type.STRING } } },
+  },
+});
+
 /**
  * VPai Chat Assistant
  * Context-aware AI that strictly uses the provided AppData to answer questions.
+ * `history` carries the conversation so far, so follow-ups like "what about Tuesday?" resolve.
+ * Returns null on failure, so an error is never kept in the chat as if VPai had said it.
  */
-export async function askVPai(question: string, context: AppData) {
+export async function askVPai(question: string, context: AppData, student: string, history: ChatHistory = { summary: '', turns: [] }): Promise<string | null> {
   try {
-    // Clean context to remove large image strings for token efficiency
+    // Clean context to remove large image strings for token efficiency.
+    // Complaints and their threads are never sent: only admins may read them. Attendance is
+    // limited to the asking student's own rows (`student` is their studentTag, '' without a profile).
     const cleanContext = {
-      attendance: context.attendance,
+      attendance: student ? context.attendance.filter(a => a.student === student) : [],
       timetable: context.timetable,
       exams: context.exams,
       scholarships: context.scholarships,
       internships: context.internships,
       events: context.events,
-      complaints: context.complaints.map(c => ({ text: c.text, status: c.status }))
     };
     
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: question,
+      contents: [
+        ...history.turns.map(m => ({ role: m.sender === 'USER' ? 'user' : 'model', parts: [{ text: m.text }] })),
+        { role: 'user', parts: [{ text: question }] },
+      ],
       config: {
         systemInstruction: `You are VPai, the official AI for QuadX College. 
         
         KNOWLEDGE BASE (This is your ONLY source of truth):
         ${JSON.stringify(cleanContext, null, 2)}
-        
+        ${history.summary ? `
+        EARLIER IN THIS CONVERSATION:
+        ${history.summary}
+        ` : ''}
         PROTOCOLS:
         1. SEARCH: Scan ALL categories in the KNOWLEDGE BASE (timetable, scholarships, exams, etc.) to find the answer.
         2. STRICTNESS: If the info is NOT in the JSON above, say: "I don't have that in my records. Please ask the office."
         3. FORMATTING: Use **bold** for key dates, names, or room numbers.
         4. BREVITY: Max 2-3 sentences. 
-        5. TONE: Professional, helpful, and energetic.`,
+        5. TONE: Professional, helpful, and energetic.
+        6. FOLLOW-UPS: Read short questions in light of the conversation (e.g. "what about Tuesday?" after a timetable question).`,
         temperature: 0.1,
       }
     });
@@ -49,13 +70,45 @@ export async function askVPai(question: string, context: AppData) {
     return text;
   } catch (error) {
     console.error("VPai Error:", error);
-    return "I'm having a connection issue with the campus database. Please try again in a moment.";
+    return null;
+  }
+}
+
+const SUMMARY_LIMIT = 1200;
+
+/**
+ * VPai Conversation Summary
+ * Folds `messages` into the running summary of a chat, so older turns stay in context without
+ * being sent in full. Returns null on failure; the caller keeps the old summary and retries later.
+ */
+export async function summarizeVPaiChat(summary: string, messages: ChatMessage[]): Promise<string | null> {
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Update the summary of a conversation between a student and VPai, the college assistant.
+  - Keep what the student asked about and any specifics they gave (branch, year, division, day, subject, exam).
+  - Keep the key facts VPai answered with.
+  - At most 80 words, plain sentences, no preamble.
+
+SUMMARY SO FAR:
+${summary || '(none)'}
+
+NEW MESSAGES:
+${messages.map(m => `${m.sender === 'USER' ? 'Student' : 'VPai'}: ${m.text}`).join('\n')}`,
+      config: { temperature: 0 },
+    });
+    const text = response.text?.trim();
+    return text ? text.slice(0, SUMMARY_LIMIT) : null;
+  } catch (error) {
+    console.error("VPai summary failed:", error);
+    return null;
   }
 }
 
 /**
  * Robust JSON Extraction for Admin Portal
  * This turns messy text/images/spreadsheets into the exact JSON format the app needs.
+ * Each item carries `uncertainFields` from the model; it is stripped before publishing.
  */
 export async function extractCategoryData(category: string, content: string, mimeType: string = "text/plain") {
   const schema = CATEGORY_SCHEMAS[category];
@@ -66,6 +119,8 @@ export async function extractCategoryData(category: string, content: string, mim
   - Normalise terminology: 'FE'->'1st Year', 'SE'->'2nd Year', 'TE'->'3rd Year', 'BE'->'4th Year'.
   - Terminology: 'Comp' / 'CS' / 'Computer' -> 'Comp'.
   - If it's a Timetable, identify Day, Branch, Year, Div and then ALL Lecture slots.
+  - If it's Attendance (a muster roll), produce one row per student (rollNo) per subject with the number of lectures held (totalClasses) and attended (attendedClasses). Do NOT calculate percentages.
+  - In 'uncertainFields' list the names of any fields you inferred, guessed or could not read clearly (empty if none).
   - Return an empty array [] if no relevant data is found.`;
 
   const parts: any[] = [{ text: prompt }];
@@ -87,7 +142,7 @@ export async function extractCategoryData(category: string, content: string, mim
       contents: { parts },
       config: {
         responseMimeType: "application/json",
-        responseSchema: schema,
+        responseSchema: withUncertainty(schema),
       },
     });
 
@@ -124,7 +179,81 @@ export async function stylizeMapImage(imageBase64: string): Promise<string | nul
   } catch (e) { return null; }
 }
 
+const TRIAGE_BATCH = 40;
+const TRIAGE_CATEGORIES: ComplaintCategory[] = ['HOSTEL', 'CANTEEN', 'ACADEMICS', 'INFRASTRUCTURE', 'OTHER'];
+const TRIAGE_SENTIMENTS = ['NEGATIVE', 'NEUTRAL', 'POSITIVE'];
+
+const TRIAGE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      category: { type: Type.STRING, enum: TRIAGE_CATEGORIES },
+      urgency: { type: Type.STRING, enum: Object.keys(URGENCY_RANK) },
+      sentiment: { type: Type.STRING, enum: TRIAGE_SENTIMENTS },
+      topic: { type: Type.STRING },
+    },
+    required: ["id", "category", "urgency", "sentiment", "topic"]
+  }
+};
+
+/**
+ * Complaint Triage
+ * Classifies complaints for the admin insights dashboard and names each one's problem with a
+ * short shared topic, so near-duplicates can be grouped. Callers leave out complaints that mention anyone.
+ * Returns null when the model can't be reached; callers fall back to the keyword rules.
+ */
+export async function triageComplaints(items: { id: string; text: string }[]): Promise<Record<string, ComplaintTriage> | null> {
+  const results: Record<string, ComplaintTriage> = {};
+  try {
+    for (let i = 0; i < items.length; i += TRIAGE_BATCH) {
+      const batch = items.slice(i, i + TRIAGE_BATCH);
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: `Triage these anonymous college complaints. For each one return:
+  - category: HOSTEL, CANTEEN, ACADEMICS, INFRASTRUCTURE or OTHER.
+  - urgency: CRITICAL for safety, harassment or health risks; HIGH when something essential is broken; MEDIUM for ordinary problems; LOW for suggestions.
+  - sentiment of the writer.
+  - topic: 2-4 lowercase words naming the problem (e.g. "library wifi down"). Use the SAME topic for complaints about the same problem.
+
+COMPLAINTS:
+${JSON.stringify(batch)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: TRIAGE_SCHEMA,
+          temperature: 0,
+        },
+      });
+      const ids = new Set(batch.map(b => b.id));
+      for (const r of JSON.parse(response.text || '[]')) {
+        if (!ids.has(r?.id) || !TRIAGE_CATEGORIES.includes(r.category) || !(r.urgency in URGENCY_RANK) || !TRIAGE_SENTIMENTS.includes(r.sentiment)) continue;
+        results[r.id] = { category: r.category, urgency: r.urgency, sentiment: r.sentiment, topic: String(r.topic || '').toLowerCase(), method: 'AI' };
+      }
+    }
+    return results;
+  } catch (error) {
+    console.error("Complaint triage failed:", error);
+    return null;
+  }
+}
+
 const CATEGORY_SCHEMAS: Record<string, any> = {
+  'ATTENDANCE': {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        rollNo: { type: Type.STRING },
+        subject: { type: Type.STRING },
+        totalClasses: { type: Type.INTEGER },
+        attendedClasses: { type: Type.INTEGER },
+        branch: { type: Type.STRING },
+        year: { type: Type.STRING }
+      },
+      required: ["rollNo", "subject", "totalClasses", "attendedClasses", "branch", "year"]
+    }
+  },
   'TIMETABLE': {
     type: Type.ARRAY,
     items: {
@@ -0,0 +1,128 @@
+import { RecordCollection, stableStringify } from "./mergeService";
+
+/**
+ * IMPORT PLANNING
+ * Decides how a batch of uploaded records lands on an existing collection. Records are matched on
+ * a natural key per collection (not on the random ids the extractor assigns), so re-uploading a
+ * corrected sheet updates rows in place instead of duplicating them.
+ */
+export type ImportMode = 'REPLACE_SCOPE' | 'UPSERT' | 'APPEND';
+
+export const IMPORT_MODES: Record<ImportMode, { label: string; description: string }> = {
+  REPLACE_SCOPE: { label: 'Replace Scope', description: 'Remove existing records for the same classes, then add these' },
+  UPSERT: { label: 'Upsert', description: 'Update matching records, add the rest' },
+  APPEND: { label: 'Append', description: 'Add everything as new records' },
+};
+
+const norm = (value: any) => String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+const keyOf = (...fields: string[]) => (r: any) => fields.map(f => norm(r[f])).join('|');
+
+/** What makes two records "the same thing" in each collection. */
+export const NATURAL_KEYS: Partial<Record<RecordCollection, (record: any) => string>> = {
+  timetable: keyOf('day', 'branch', 'year', 'division'),
+  exams: keyOf('subject', 'date', 'branch', 'year', 'division'),
+  internships: keyOf('company', 'role'),
+  attendance: keyOf('student', 'subject'),
+  scholarships: keyOf('name'),
+  events: keyOf('title', 'date'),
+};
+
+/** Which existing records an upload is taken to describe in full, for REPLACE_SCOPE. */
+const SCOPE_KEYS: Partial<Record<RecordCollection, (record: any) => string>> = {
+  timetable: keyOf('branch', 'year', 'division'),
+  exams: keyOf('branch', 'year', 'division'),
+  internships: keyOf('branch', 'year'),
+  attendance: keyOf('subject', 'branch', 'year'),
+  scholarships: keyOf('category'),
+  events: keyOf('category'),
+};
+
+export const supportsMode = (collection: RecordCollection, mode: ImportMode) =>
+  mode === 'APPEND' || (mode === 'UPSERT' ? !!NATURAL_KEYS[collection] : !!SCOPE_KEYS[collection]);
+
+export const defaultImportMode = (collection: RecordCollection): ImportMode => (NATURAL_KEYS[collection] ? 'UPSERT' : 'APPEND');
+
+export interface RecordChange {
+  before: any;
+  after: any;
+  fields: string[]; // top-level fields that differ
+}
+
+export interface ImportPlan {
+  added: any[];
+  updated: RecordChange[];
+  removed: any[];
+  unchanged: number;
+  duplicatesInUpload: number; // later rows with the same natural key win
+  result: any[];
+}
+
+// Provenance says where a record was last read from; a re-upload from another file isn't a change by itself.
+export const changedFields = (before: any, after: any) =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(k => k !== 'id' && k !== 'provenance' && stableStringify(before[k]) !== stableStringify(after[k]));
+
+// Slot ids are regenerated on every extraction; ignore them when deciding whether anything changed.
+const withoutNestedIds = (record: any) =>
+  Array.isArray(record.slots) ? { ...record, slots: record.slots.map(({ id, ...slot }: any) => slot) } : record;
+
+/**
+ * Works out the collection after importing `incoming` with `mode`.
+ * `editable` limits which existing records may be updated or removed (role scope); others are never touched.
+ */
+export function planImport(
+  collection: RecordCollection,
+  existing: any[],
+  incoming: any[],
+  mode: ImportMode,
+  editable: (record: any) => boolean = () => true,
+): ImportPlan {
+  const naturalKey = NATURAL_KEYS[collection];
+  if (mode === 'APPEND' || !naturalKey) {
+    return { added: incoming, updated: [], removed: [], unchanged: 0, duplicatesInUpload: 0, result: [...existing, ...incoming] };
+  }
+
+  const uploads = new Map<string, any>();
+  incoming.forEach(r => uploads.set(naturalKey(r), r));
+  const duplicatesInUpload = incoming.length - uploads.size;
+
+  const scopeKey = SCOPE_KEYS[collection];
+  const scopes = new Set(mode === 'REPLACE_SCOPE' && scopeKey ? [...uploads.values()].map(scopeKey) : []);
+
+  const plan: ImportPlan = { added: [], updated: [], removed: [], unchanged: 0, duplicatesInUpload, result: [] };
+  const matched = new Set<string>();
+
+  for (const record of existing) {
+    const key = naturalKey(record);
+    const upload = editable(record) ? uploads.get(key) : undefined;
+    if (upload && matched.has(key)) {
+      plan.removed.push(record); // an older duplicate of a record this upload already covers
+    } else if (upload) {
+      matched.add(key);
+      // Keep the existing id so bookmarks and RSVPs pointing at it stay valid.
+      const next = { ...upload, id: record.id };
+      const fields = changedFields(withoutNestedIds(record), withoutNestedIds(next));
+      if (fields.length) plan.updated.push({ before: record, after: next, fields });
+      else plan.unchanged++;
+      plan.result.push(fields.length ? next : record);
+    } else if (scopeKey && scopes.has(scopeKey(record)) && editable(record)) {
+      plan.removed.push(record);
+    } else {
+      plan.result.push(record);
+    }
+  }
+
+  for (const [key, upload] of uploads) {
+    if (matched.has(key)) continue;
+    plan.added.push(upload);
+    plan.result.push(upload);
+  }
+  return plan;
+}
+
+/** One-line label for previews and lists. */
+export const describeRecord = (r: any): string => {
+  const title = r.student ? `#${r.student.slice(0, 6)} ${r.subject}` : r.subject || r.name || r.title || r.company || r.day || r.id;
+  const scope = [r.branch || r.category, r.year, r.division].filter(Boolean).join(' • ');
+  return scope ? `${title} (${scope})` : String(title);
+};
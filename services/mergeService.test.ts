@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_DATA } from '../constants';
+import { AppData, ExamSchedule } from '../types';
+import { applyResolutions, mergeAppData } from './mergeService';
+
+const exam = (id: string, venue = 'Hall A'): ExamSchedule => ({
+  id, subject: 'Maths', date: '2026-05-12', time: '10:00', venue, branch: 'Comp', year: '2nd Year', division: 'A',
+});
+
+const doc = (exams: ExamSchedule[], revision = 1): AppData => ({ ...INITIAL_DATA, revision, exams });
+
+describe('mergeAppData', () => {
+  it('keeps edits to different records from both sides', () => {
+    const base = doc([exam('1'), exam('2')]);
+    const local = doc([exam('1', 'Hall B'), exam('2')]);
+    const remote = doc([exam('1'), exam('2', 'Hall C'), exam('3')], 2);
+    const { merged, conflicts } = mergeAppData(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.exams.map(e => e.venue)).toEqual(['Hall B', 'Hall C', 'Hall A']);
+    expect(merged.revision).toBe(2);
+  });
+
+  it('keeps a deletion made on one side', () => {
+    const base = doc([exam('1'), exam('2')]);
+    const { merged } = mergeAppData(base, doc([exam('1')]), doc([exam('1'), exam('2')], 2));
+    expect(merged.exams.map(e => e.id)).toEqual(['1']);
+  });
+
+  it('reports a conflict when both sides changed the same record, hub first', () => {
+    const base = doc([exam('1')]);
+    const { merged, conflicts } = mergeAppData(base, doc([exam('1', 'Hall B')]), doc([exam('1', 'Hall C')], 2));
+    expect(conflicts).toHaveLength(1);
+    expect(merged.exams[0].venue).toBe('Hall C');
+    expect(applyResolutions(merged, conflicts, { [conflicts[0].key]: 'LOCAL' }).exams[0].venue).toBe('Hall B');
+  });
+});
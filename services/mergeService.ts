@@ -0,0 +1,146 @@
+import { AppData } from "../types";
+import { stableStringify } from "../shared/stableStringify";
+
+/**
+ * THREE-WAY MERGE
+ * Reconciles a local edit with whatever reached the hub since that edit's base revision.
+ * Collections are merged record-by-record on `id`; a record only conflicts when both sides changed it differently.
+ */
+export const RECORD_COLLECTIONS = [
+  'attendance',
+  'attendancePolicies',
+  'timetable',
+  'exams',
+  'scholarships',
+  'internships',
+  'events',
+  'complaints',
+  'complaintMessages',
+  'rsvps',
+  'bookmarks',
+  'uploadLogs',
+  'adminAccounts',
+  'quarantine',
+] as const satisfies readonly (keyof AppData)[];
+
+export type RecordCollection = typeof RECORD_COLLECTIONS[number];
+
+export const SCALAR_FIELDS = ['campusMapImage', 'stylizedMapImage', 'complaintPublicKey'] as const satisfies readonly (keyof AppData)[];
+
+export type ScalarField = typeof SCALAR_FIELDS[number];
+
+export interface MergeConflict {
+  key: string; // stable identifier used when resolving
+  collection: RecordCollection | ScalarField;
+  id?: string;
+  base?: any;
+  local?: any;
+  remote?: any;
+}
+
+export type ConflictChoice = 'LOCAL' | 'REMOTE';
+
+export { stableStringify };
+
+const same = (a: any, b: any) => stableStringify(a) === stableStringify(b);
+
+const byId = (items: any[] = []) => new Map(items.map(i => [i.id, i]));
+
+function mergeCollection(collection: RecordCollection, base: any[] | undefined, local: any[] = [], remote: any[] = []) {
+  const baseMap = byId(base);
+  const localMap = byId(local);
+  const remoteMap = byId(remote);
+  const conflicts: MergeConflict[] = [];
+  const keep = new Map<string, any>();
+
+  const ids = new Set([...localMap.keys(), ...remoteMap.keys(), ...baseMap.keys()]);
+  for (const id of ids) {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+
+    let winner: any;
+    if (same(l, r)) winner = r;
+    else if (base && same(l, b)) winner = r; // only the hub changed it
+    else if (base && same(r, b)) winner = l; // only we changed it
+    else if (!base && (l === undefined || r === undefined)) winner = l ?? r; // no ancestor: treat one-sided records as additions
+    else {
+      conflicts.push({ key: `${collection}:${id}`, collection, id, base: b, local: l, remote: r });
+      winner = r;
+    }
+    if (winner !== undefined) keep.set(id, winner);
+  }
+
+  // Hub order first, then our additions in the order we made them.
+  const merged = [
+    ...remote.filter(r => keep.has(r.id)).map(r => keep.get(r.id)),
+    ...local.filter(l => keep.has(l.id) && !remoteMap.has(l.id)).map(l => keep.get(l.id)),
+  ];
+  return { merged, conflicts };
+}
+
+/**
+ * Merges `local` and `remote` against their common ancestor `base`.
+ * Conflicting records take the hub's version in `merged`; callers may override via applyResolutions().
+ * Without an ancestor, records present on only one side are kept and any differing record conflicts.
+ */
+export function mergeAppData(base: AppData | null, local: AppData, remote: AppData): { merged: AppData; conflicts: MergeConflict[] } {
+  const merged: AppData = { ...remote };
+  const conflicts: MergeConflict[] = [];
+
+  for (const collection of RECORD_COLLECTIONS) {
+    const result = mergeCollection(collection, base?.[collection], local[collection], remote[collection]);
+    (merged as any)[collection] = result.merged;
+    conflicts.push(...result.conflicts);
+  }
+
+  for (const field of SCALAR_FIELDS) {
+    const b = base?.[field];
+    const l = local[field];
+    const r = remote[field];
+    if (same(l, r) || (base && same(l, b))) merged[field] = r;
+    else if (base && same(r, b)) merged[field] = l;
+    else {
+      conflicts.push({ key: field, collection: field, base: b, local: l, remote: r });
+      merged[field] = r;
+    }
+  }
+
+  // rawKnowledge is a list of plain strings: keep the hub's set plus our additions, minus our removals.
+  const baseKnowledge = new Set(base?.rawKnowledge || []);
+  const localKnowledge = new Set(local.rawKnowledge || []);
+  const added = (local.rawKnowledge || []).filter(k => !baseKnowledge.has(k));
+  merged.rawKnowledge = [
+    ...(remote.rawKnowledge || []).filter(k => localKnowledge.has(k) || !baseKnowledge.has(k)),
+    ...added.filter(k => !(remote.rawKnowledge || []).includes(k)),
+  ];
+
+  merged.revision = remote.revision;
+  return { merged, conflicts };
+}
+
+/**
+ * Applies the admin's per-conflict choices on top of a merge result.
+ */
+export function applyResolutions(merged: AppData, conflicts: MergeConflict[], choices: Record<string, ConflictChoice>): AppData {
+  const next: AppData = { ...merged };
+  for (const conflict of conflicts) {
+    if (choices[conflict.key] !== 'LOCAL') continue;
+    if (conflict.id === undefined) {
+      (next as any)[conflict.collection] = conflict.local;
+      continue;
+    }
+    const collection = conflict.collection as RecordCollection;
+    const items = [...(next[collection] as any[])];
+    const index = items.findIndex(i => i.id === conflict.id);
+    if (conflict.local === undefined) {
+      if (index >= 0) items.splice(index, 1);
+    } else if (index >= 0) {
+      items[index] = conflict.local;
+    } else {
+      items.push(conflict.local);
+    }
+    (next as any)[collection] = items;
+  }
+  return next;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateDocument } from './migrations';
+import { studentTag } from './attendanceService';
+import { prepareDocument } from './schemaService';
+
+describe('migrateDocument', () => {
+  it('upgrades an unversioned document step by step', () => {
+    const migrated = migrateDocument({
+      attendance: [
+        { id: 'a', rollNo: '21CE1045', percentage: '80', totalClasses: '10', attendedClasses: '8' },
+        { id: 'b', percentage: '75' },
+      ],
+      scholarships: [{ id: 's' }],
+      adminAccounts: [{ id: 'x' }],
+      complaints: [{ id: 'c', text: 'Hi', timestamp: '2026-05-12T10:00:00.000Z', status: 'RESOLVED' }],
+    });
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.attendance[0]).toEqual({ id: 'a', student: studentTag('21ce1045'), percentage: 80, totalClasses: 10, attendedClasses: 8 });
+    expect(migrated.attendance[1]).toEqual({ id: 'b', percentage: 75 });
+    expect(migrated.scholarships[0].category).toBe('GENERAL');
+    expect(migrated.adminAccounts[0].role).toBe('SUPER_ADMIN');
+    expect(migrated.complaints[0].history.map((h: any) => h.status)).toEqual(['PENDING', 'RESOLVED']);
+    expect(migrated.complaints[0].notes).toEqual([]);
+  });
+
+  it('keeps class-wide attendance rows without a student instead of quarantining them', () => {
+    const row = { id: 'b', rollNo: '', subject: 'Maths', percentage: 75, totalClasses: 40, attendedClasses: 30, branch: 'Civil', year: 'SE' };
+    const { data, quarantined } = prepareDocument({ schemaVersion: 5, attendance: [row] });
+    expect(quarantined).toEqual([]);
+    expect(data.attendance).toEqual([{ id: 'b', subject: 'Maths', percentage: 75, totalClasses: 40, attendedClasses: 30, branch: 'Civil', year: 'SE' }]);
+  });
+
+  it('only runs the steps the document has not had yet', () => {
+    const doc = { schemaVersion: 1, attendance: [{ id: 'a', percentage: 'n/a' }], scholarships: [] };
+    expect(migrateDocument(doc).attendance[0].percentage).toBe('n/a');
+  });
+
+  it('leaves documents from a newer build alone', () => {
+    const doc = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, scholarships: [{ id: 's' }] };
+    expect(migrateDocument(doc)).toBe(doc);
+  });
+
+  it('reads day-first complaint timestamps and keeps ones it cannot read', () => {
+    const migrated = migrateDocument({
+      schemaVersion: 3,
+      complaints: [
+        { id: 'a', text: 'Hi', timestamp: '3/4/2026, 10:30:00 am', status: 'PENDING' },
+        { id: 'b', text: 'Hi', timestamp: '25/12/2025, 4:05:09 pm', status: 'PENDING' },
+        { id: 'c', text: 'Hi', timestamp: 'yesterday', status: 'PENDING' },
+      ],
+    });
+    expect(migrated.complaints.map((c: any) => c.timestamp)).toEqual([
+      new Date(2026, 3, 3, 10, 30).toISOString(),
+      new Date(2025, 11, 25, 16, 5, 9).toISOString(),
+      'yesterday',
+    ]);
+  });
+});
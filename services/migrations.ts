@@ -0,0 +1,126 @@
+import { studentTag } from "../shared/studentTag";
+
+/**
+ * SCHEMA MIGRATIONS
+ * Ordered upgrades for the shared document. Each step takes the raw JSON at `version - 1`
+ * and returns it at `version`; documents without `schemaVersion` predate versioning (0).
+ * Add new steps at the end and never edit a released one — old documents still replay them.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (doc: any) => any;
+}
+
+const toNumber = (value: any) => (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value);
+
+const mapList = (list: any, fn: (item: any) => any) => (Array.isArray(list) ? list.map(item => (item && typeof item === 'object' ? fn(item) : item)) : list);
+
+/**
+ * Older clients stored `toLocaleString()` in the en-IN format, day first ("12/5/2026, 10:30:00 am"),
+ * which Date.parse would read month first. ISO and en-IN text become ISO; anything else is kept as it is.
+ */
+const legacyTimestamp = (value: any) => {
+  if (typeof value !== 'string') return value;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+  }
+  const m = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?$/i);
+  if (!m) return value;
+  const [, day, month, year, hour, minute, second = '0', meridiem] = m;
+  const h = meridiem ? (+hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0) : +hour;
+  // Written in the device's local time, which is all we can assume here.
+  const date = new Date(+year, +month - 1, +day, h, +minute, +second);
+  return date.getDate() === +day && date.getMonth() === +month - 1 ? date.toISOString() : value;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Numeric attendance fields stored as text by early AI extractions become numbers',
+    migrate: (doc) => ({
+      ...doc,
+      attendance: mapList(doc.attendance, r => ({
+        ...r,
+        percentage: toNumber(r.percentage),
+        totalClasses: toNumber(r.totalClasses),
+        attendedClasses: toNumber(r.attendedClasses),
+      })),
+      attendancePolicies: mapList(doc.attendancePolicies, p => ({ ...p, threshold: toNumber(p.threshold) })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Fields the UI used to infer are made explicit: scholarship category, admin role',
+    migrate: (doc) => ({
+      ...doc,
+      scholarships: mapList(doc.scholarships, s => ({ ...s, category: s.category || 'GENERAL' })),
+      adminAccounts: mapList(doc.adminAccounts, a => ({ ...a, role: a.role || 'SUPER_ADMIN' })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Upload logs record who did what: action, actor, category, counts and source hash',
+    migrate: (doc) => ({
+      ...doc,
+      uploadLogs: mapList(doc.uploadLogs, l => ({
+        action: 'EXTRACT',
+        actor: '',
+        category: '',
+        sourceHash: '',
+        ...l,
+        counts: { added: 0, updated: 0, removed: 0, skipped: 0, ...l.counts },
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Complaints become tickets: ISO timestamps, internal notes and a status history',
+    migrate: (doc) => ({
+      ...doc,
+      complaints: mapList(doc.complaints, c => {
+        const timestamp = legacyTimestamp(c.timestamp);
+        return {
+          notes: [],
+          history: [{ status: 'PENDING', at: timestamp, by: '' }, ...(c.status === 'RESOLVED' ? [{ status: 'RESOLVED', at: timestamp, by: '' }] : [])],
+          ...c,
+          timestamp,
+        };
+      }),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Complaints sent before the moderation queue existed count as already released',
+    migrate: (doc) => ({
+      ...doc,
+      complaints: mapList(doc.complaints, c => ({ moderation: { status: 'RELEASED', by: '', at: c.timestamp }, ...c })),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Attendance rows name the student by studentTag instead of the roll number, which anyone can read on the hub',
+    migrate: (doc) => ({
+      ...doc,
+      attendance: mapList(doc.attendance, ({ rollNo, ...r }) => {
+        const student = typeof rollNo === 'string' ? studentTag(rollNo) : '';
+        return student ? { ...r, student } : r;
+      }),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs every migration newer than the document's version. Documents from a newer client are left as they are.
+ */
+export function migrateDocument(doc: any): any {
+  const from = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Schema: document is v${from}, this build understands up to v${CURRENT_SCHEMA_VERSION}.`);
+    return doc;
+  }
+  return MIGRATIONS.filter(m => m.version > from).reduce((current, m) => ({ ...m.migrate(current), schemaVersion: m.version }), doc);
+}
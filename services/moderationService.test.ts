@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Complaint } from '../types';
+import { isNearDuplicate, isTrustedModeration, moderationDecision, redact, reviewFlags, scanText, solveProof, verifyProof } from './moderationService';
+import { studentTag } from './attendanceService';
+
+const complaint = (id: string, text: string, timestamp = '2026-05-12T10:00:00.000Z'): Complaint => ({
+  id, text, timestamp, status: 'PENDING', notes: [], history: [{ status: 'PENDING', at: timestamp, by: '' }],
+});
+
+describe('scanText', () => {
+  it('finds profanity, contact details, known roll numbers and cued names', () => {
+    const { flags } = scanText('sh1t service, call 98765 43210 or mail a.b@college.edu, my roommate Rahul Verma and 21CE1045', [studentTag('21ce1045')]);
+    expect(flags.sort()).toEqual(['EMAIL', 'PERSON_NAME', 'PHONE', 'PROFANITY', 'ROLL_NO']);
+  });
+
+  it('leaves ordinary complaints alone', () => {
+    expect(scanText('The Library WiFi has been down since Monday.').flags).toEqual([]);
+  });
+
+  it('redacts the personal details it finds', () => {
+    expect(redact('Ask Prof. Sharma at a.b@college.edu')).toBe('Ask [redacted] at [redacted]');
+  });
+});
+
+describe('isNearDuplicate', () => {
+  it('matches the same report in slightly different words', () => {
+    expect(isNearDuplicate('The library wifi is down again', 'the library wifi is down again!')).toBe(true);
+    expect(isNearDuplicate('The library wifi is down again', 'Canteen food was cold today')).toBe(false);
+  });
+});
+
+describe('proof of work', () => {
+  it('verifies a solved proof and rejects a tampered complaint', async () => {
+    const c = complaint('c1', 'Fan broken');
+    const sent = { ...c, proof: await solveProof(c) };
+    expect(await verifyProof(sent)).toBe(true);
+    expect(await verifyProof({ ...sent, text: 'Something else' })).toBe(false);
+  });
+
+  it('holds complaints without a proof and flags repeats', async () => {
+    const first = complaint('c1', 'The library wifi is down again');
+    const second = complaint('c2', 'The library wifi is down again!', '2026-05-13T10:00:00.000Z');
+    const readable = new Map([[first.id, first.text], [second.id, second.text]]);
+    expect((await reviewFlags(second, readable, [first, second])).sort()).toEqual(['DUPLICATE', 'NO_PROOF']);
+  });
+});
+
+describe('isTrustedModeration', () => {
+  const RSA = { name: 'RSA-OAEP', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' } as const;
+  const decided = (by: string) => ({ ...complaint('c1', 'Fan broken'), moderation: { status: 'RELEASED' as const, by, at: '2026-05-12T11:00:00.000Z' } });
+
+  it('needs a signature under the complaint key once the admin holds it', async () => {
+    const { privateKey: groupKey } = await crypto.subtle.generateKey(RSA, true, ['encrypt', 'decrypt']);
+    const { privateKey: otherKey } = await crypto.subtle.generateKey(RSA, true, ['encrypt', 'decrypt']);
+    const trust = { hubEnforcesWrites: false, groupKey, admins: ['warden'] };
+    const signed = { ...complaint('c1', 'Fan broken'), moderation: await moderationDecision('c1', 'RELEASED', 'warden', groupKey) };
+
+    expect(await isTrustedModeration(signed, trust)).toBe(true);
+    expect(await isTrustedModeration(decided('warden'), trust)).toBe(false);
+    expect(await isTrustedModeration({ ...signed, id: 'c2' }, trust)).toBe(false);
+    expect(await isTrustedModeration({ ...signed, moderation: { ...signed.moderation, status: 'REJECTED' } }, trust)).toBe(false);
+    expect(await isTrustedModeration(signed, { ...trust, groupKey: otherKey })).toBe(false);
+  });
+
+  it('trusts a hub that checks writers, and falls back to admin names while locked', async () => {
+    expect(await isTrustedModeration(decided('anyone'), { hubEnforcesWrites: true, groupKey: null, admins: [] })).toBe(true);
+    const locked = { hubEnforcesWrites: false, groupKey: null, admins: ['warden'] };
+    expect(await isTrustedModeration(decided('warden'), locked)).toBe(true);
+    expect(await isTrustedModeration(decided('someone'), locked)).toBe(false);
+    expect(await isTrustedModeration(complaint('c2', 'Fan broken'), locked)).toBe(false);
+  });
+
+  it('only excuses the missing proof on complaints released by the upgrade', async () => {
+    const migrated = decided('');
+    expect(await reviewFlags(migrated, new Map(), [migrated])).toEqual([]);
+    expect(await reviewFlags(migrated, new Map([['c1', 'Call 98765 43210']]), [migrated])).toEqual(['PHONE']);
+    expect(await reviewFlags(decided('warden'), new Map(), [])).toEqual(['NO_PROOF']);
+  });
+});
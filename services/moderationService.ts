@@ -0,0 +1,223 @@
+import { Complaint, ComplaintModeration, ComplaintProof, ModerationFlag } from "../types";
+import { PersistenceService } from "./persistenceService";
+import { stableStringify } from "./mergeService";
+import { studentTag } from "./attendanceService";
+
+/**
+ * COMPLAINT MODERATION
+ * Layered abuse protection for the anonymous complaint box. The submitting device enforces a
+ * rate limit, refuses repeats of its own recent reports and solves a small proof of work. It
+ * also scans the text for profanity and personal details before it is encrypted. None of that
+ * can be trusted on its own (the limits live on the device), so admins re-check every complaint
+ * and hold anything flagged, or without a valid proof, in a moderation queue.
+ */
+const LIMIT_KEY = 'QUADX_COMPLAINT_LIMIT_V1';
+const RATE_LIMITS = [
+  { windowMs: 60 * 60 * 1000, max: 3 },
+  { windowMs: 24 * 60 * 60 * 1000, max: 10 },
+];
+const DUPLICATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const DUPLICATE_SIMILARITY = 0.8;
+
+// About 65k SHA-256 rounds on average: a second or two on a phone, expensive at flood volume.
+export const PROOF_BITS = 16;
+
+export const FLAG_LABELS: Record<ModerationFlag, string> = {
+  PROFANITY: 'Profanity',
+  PHONE: 'Phone number',
+  EMAIL: 'Email address',
+  ROLL_NO: 'Roll number',
+  PERSON_NAME: 'Possible name',
+  DUPLICATE: 'Duplicate',
+  NO_PROOF: 'No proof of work',
+};
+
+export const PERSONAL_FLAGS: ModerationFlag[] = ['PHONE', 'EMAIL', 'ROLL_NO', 'PERSON_NAME'];
+
+const PROFANITY = [
+  'fuck', 'fucking', 'shit', 'bitch', 'bastard', 'asshole', 'dick', 'slut', 'whore', 'cunt',
+  'chutiya', 'madarchod', 'bhenchod', 'behenchod', 'gaand', 'randi', 'harami', 'kamina', 'bsdk',
+];
+
+// Leetspeak folded back so "sh1t" still matches.
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '@': 'a', '$': 's' };
+
+const PHONE = /(?:\+?\d[\s-]?){10,13}/g;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const TITLED_NAME = /\b(?:Mr|Ms|Mrs|Miss|Dr|Prof|Sir|Madam)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g;
+const CUED_NAME = /\b([A-Za-z]+)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
+
+// A capitalised word right after one of these is most likely someone's name.
+const NAME_CUES = new Set([
+  'named', 'called', 'student', 'classmate', 'roommate', 'batchmate', 'senior', 'junior', 'friend', 'boy', 'girl', 'guy', 'bro',
+]);
+
+export interface TextScan {
+  flags: ModerationFlag[];
+  personal: string[]; // matched personal details, for redaction
+}
+
+const personalMatches = (text: string, students: Set<string>) => {
+  const found: { flag: ModerationFlag; match: string }[] = [];
+  for (const m of text.match(PHONE) || []) {
+    if (m.replace(/\D/g, '').length >= 10) found.push({ flag: 'PHONE', match: m.trim() });
+  }
+  for (const m of text.match(EMAIL) || []) found.push({ flag: 'EMAIL', match: m });
+  for (const word of text.split(/[^\w]+/)) {
+    if (word && students.has(studentTag(word))) found.push({ flag: 'ROLL_NO', match: word });
+  }
+  for (const m of text.match(TITLED_NAME) || []) found.push({ flag: 'PERSON_NAME', match: m });
+  for (const [, cue, name] of text.matchAll(CUED_NAME)) {
+    if (NAME_CUES.has(cue.toLowerCase())) found.push({ flag: 'PERSON_NAME', match: name });
+  }
+  return found;
+};
+
+/** Profanity and personal details in `text`. `students` are the studentTags known from attendance. */
+export function scanText(text: string, students: string[] = []): TextScan {
+  const known = new Set(students.filter(Boolean));
+  const words = text.toLowerCase().split(/\s+/).map(w => w.replace(/[013@$45]/g, c => LEET[c]).replace(/[^a-z]/g, ''));
+  const personal = personalMatches(text, known);
+  const flags = new Set<ModerationFlag>(personal.map(p => p.flag));
+  if (words.some(w => PROFANITY.includes(w))) flags.add('PROFANITY');
+  return { flags: [...flags], personal: [...new Set(personal.map(p => p.match))] };
+}
+
+/** `text` with every personal detail `scanText` finds replaced. */
+export function redact(text: string, students: string[] = []): string {
+  return scanText(text, students).personal
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, match) => result.split(match).join('[redacted]'), text);
+}
+
+const wordsOf = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2));
+
+/** Same report in different words: most of the words in common. */
+export function isNearDuplicate(a: string, b: string): boolean {
+  const left = wordsOf(a);
+  const right = wordsOf(b);
+  if (!left.size || !right.size) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = [...left].filter(w => right.has(w)).length;
+  return shared / (left.size + right.size - shared) >= DUPLICATE_SIMILARITY;
+}
+
+const proofInput = (c: Complaint, nonce: number) =>
+  new TextEncoder().encode(stableStringify({ id: c.id, text: c.text, timestamp: c.timestamp, nonce }));
+
+const leadingZeroBits = (hash: ArrayBuffer) => {
+  let bits = 0;
+  for (const byte of new Uint8Array(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+/** Finds a nonce for the complaint as it will be sent (after encryption). */
+export async function solveProof(c: Complaint, bits = PROOF_BITS): Promise<ComplaintProof> {
+  for (let nonce = 0; ; nonce++) {
+    if (leadingZeroBits(await crypto.subtle.digest('SHA-256', proofInput(c, nonce))) >= bits) return { nonce, bits };
+  }
+}
+
+export async function verifyProof(c: Complaint): Promise<boolean> {
+  if (!c.proof || c.proof.bits < PROOF_BITS) return false;
+  return leadingZeroBits(await crypto.subtle.digest('SHA-256', proofInput(c, c.proof.nonce))) >= c.proof.bits;
+}
+
+/**
+ * Everything the moderation queue holds a complaint for. `readable` maps complaint ids to
+ * plaintext where the admin can read it; sealed complaints are only checked for their proof
+ * and any flags older devices sent with them.
+ */
+export async function reviewFlags(c: Complaint, readable: Map<string, string>, complaints: Complaint[], students: string[] = []): Promise<ModerationFlag[]> {
+  const flags = new Set<ModerationFlag>(c.flags || []);
+  if (!isMigratedRelease(c) && !(await verifyProof(c))) flags.add('NO_PROOF');
+  const text = readable.get(c.id);
+  if (text !== undefined) {
+    scanText(text, students).flags.forEach(f => flags.add(f));
+    const since = Date.parse(c.timestamp) - DUPLICATE_WINDOW_MS;
+    const earlier = complaints.filter(o => o.id !== c.id && o.timestamp < c.timestamp && Date.parse(o.timestamp) >= since);
+    if (earlier.some(o => readable.has(o.id) && isNearDuplicate(text, readable.get(o.id)!))) flags.add('DUPLICATE');
+  }
+  return [...flags];
+}
+
+/**
+ * Complaints from before the queue had no proof of work, and migration v5 released them with an
+ * empty `by`. Anyone can mark a complaint that way, so it only excuses the missing proof: the
+ * content checks still hold it.
+ */
+export const isMigratedRelease = (c: Complaint) => !c.proof && c.moderation?.status === 'RELEASED' && c.moderation.by === '';
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Derived from the complaint key, so only admins who unlocked it can sign or check a decision.
+async function moderationKey(groupKey: CryptoKey): Promise<CryptoKey> {
+  const secret = await crypto.subtle.digest('SHA-256', await crypto.subtle.exportKey('pkcs8', groupKey));
+  return crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+const moderationInput = (complaintId: string, { status, by, at }: ComplaintModeration) =>
+  new TextEncoder().encode(stableStringify({ id: complaintId, status, by, at }));
+
+/** A moderation decision by `by`, signed when the admin holds the complaint key (`groupKey`). */
+export async function moderationDecision(complaintId: string, status: ComplaintModeration['status'], by: string, groupKey: CryptoKey | null): Promise<ComplaintModeration> {
+  const decision: ComplaintModeration = { status, by, at: new Date().toISOString() };
+  if (!groupKey) return decision;
+  const signature = await crypto.subtle.sign('HMAC', await moderationKey(groupKey), moderationInput(complaintId, decision));
+  return { ...decision, signature: toHex(signature) };
+}
+
+export interface ModerationTrust {
+  hubEnforcesWrites: boolean; // a `rest` hub only lets signed-in admins set `moderation`
+  groupKey: CryptoKey | null;
+  admins: string[];
+}
+
+/**
+ * Whether a complaint's moderation decision stands. On a hub anyone can write, the field can be
+ * forged to skip the queue, so there it must carry a valid signature. Without the complaint key
+ * nothing can be checked, and a decision naming an existing admin is the best there is.
+ */
+export async function isTrustedModeration(c: Complaint, trust: ModerationTrust): Promise<boolean> {
+  if (!c.moderation) return false;
+  if (trust.hubEnforcesWrites) return true;
+  if (!trust.groupKey) return trust.admins.includes(c.moderation.by);
+  if (!c.moderation.signature || !/^[0-9a-f]{64}$/.test(c.moderation.signature)) return false;
+  const signature = new Uint8Array((c.moderation.signature.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+  return crypto.subtle.verify('HMAC', await moderationKey(trust.groupKey), signature, moderationInput(c.id, c.moderation));
+}
+
+interface Submission {
+  at: number;
+  text: string;
+}
+
+export type LimitCheck = { ok: true } | { ok: false; reason: 'RATE_LIMIT'; retryAt: number } | { ok: false; reason: 'DUPLICATE' };
+
+/** Device-local submission history behind the rate limit and repeat check. */
+export const ComplaintLimiter = {
+  async recent(now = Date.now()): Promise<Submission[]> {
+    const stored = (await PersistenceService.getLocal<Submission[]>(LIMIT_KEY)) || [];
+    const horizon = Math.max(DUPLICATE_WINDOW_MS, ...RATE_LIMITS.map(l => l.windowMs));
+    return stored.filter(s => s.at > now - horizon);
+  },
+
+  async check(text: string, now = Date.now()): Promise<LimitCheck> {
+    const recent = await this.recent(now);
+    if (recent.some(s => isNearDuplicate(s.text, text))) return { ok: false, reason: 'DUPLICATE' };
+    for (const limit of RATE_LIMITS) {
+      const inWindow = recent.filter(s => s.at > now - limit.windowMs).sort((a, b) => a.at - b.at);
+      if (inWindow.length >= limit.max) return { ok: false, reason: 'RATE_LIMIT', retryAt: inWindow[inWindow.length - limit.max].at + limit.windowMs };
+    }
+    return { ok: true };
+  },
+
+  async record(text: string, now = Date.now()): Promise<void> {
+    await PersistenceService.setLocal(LIMIT_KEY, [...(await this.recent(now)), { at: now, text }]);
+  },
+};
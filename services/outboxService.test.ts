@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_DATA } from '../constants';
+import { AppData, Complaint } from '../types';
+import { createOutbox, toggleRsvp } from './outboxService';
+import { studentTag } from './attendanceService';
+import { createMemoryLocalStore, createPersistenceService } from './persistenceService';
+import { createInMemoryBackend } from './syncBackends';
+
+const complaint = (id: string): Complaint => ({
+  id, text: 'Fan broken', timestamp: '2026-05-12T10:00:00.000Z', status: 'PENDING', notes: [],
+  history: [{ status: 'PENDING', at: '2026-05-12T10:00:00.000Z', by: '' }],
+});
+
+const setup = (initial: AppData = { ...INITIAL_DATA, revision: 1 }) => {
+  const backend = createInMemoryBackend(initial);
+  const persistence = createPersistenceService(backend, createMemoryLocalStore());
+  return { backend, persistence, outbox: createOutbox(persistence) };
+};
+
+describe('Outbox', () => {
+  it('sends queued writes and marks them sent', async () => {
+    const { backend, outbox } = setup();
+    await outbox.enqueue({ type: 'UPSERT', collection: 'complaints', record: complaint('c1') });
+    const saved = await outbox.flush({ ...INITIAL_DATA, revision: 1 });
+    expect(saved?.complaints.map(c => c.id)).toEqual(['c1']);
+    expect(backend.peek()?.complaints.map(c => c.id)).toEqual(['c1']);
+    expect((await outbox.list()).map(e => e.status)).toEqual(['SENT']);
+  });
+
+  it('keeps writes queued while the hub is offline and replays them later', async () => {
+    const { backend, outbox } = setup();
+    backend.setOnline(false);
+    await outbox.enqueue({ type: 'UPSERT', collection: 'complaints', record: complaint('c1') });
+    expect(await outbox.flush({ ...INITIAL_DATA, revision: 1 })).toBeNull();
+    expect((await outbox.list())[0]).toMatchObject({ status: 'PENDING', attempts: 1 });
+    backend.setOnline(true);
+    expect(await outbox.flush({ ...INITIAL_DATA, revision: 1 })).not.toBeNull();
+    expect(backend.peek()?.complaints).toHaveLength(1);
+  });
+
+  it('lands on top of writes made by others since the local copy', async () => {
+    const { backend, persistence, outbox } = setup();
+    await persistence.saveData({ ...INITIAL_DATA, revision: 1, complaints: [complaint('other')] });
+    await outbox.enqueue({ type: 'UPSERT', collection: 'complaints', record: complaint('mine') });
+    await outbox.flush({ ...INITIAL_DATA, revision: 1 });
+    expect(backend.peek()?.complaints.map(c => c.id).sort()).toEqual(['mine', 'other']);
+  });
+
+  it('overlays pending writes on a freshly pulled copy', async () => {
+    const { backend, outbox } = setup();
+    backend.setOnline(false);
+    await outbox.enqueue({ type: 'UPSERT', collection: 'rsvps', record: { id: 'e1:x', eventId: 'e1', student: 'x', timestamp: '' } });
+    expect((await outbox.overlay({ ...INITIAL_DATA })).rsvps).toHaveLength(1);
+  });
+
+  it('settles an RSVP toggled on and off again before it was sent', async () => {
+    const { backend, outbox } = setup();
+    const data = { ...INITIAL_DATA, revision: 1 };
+    const student = studentTag('21CE1045');
+    const on = toggleRsvp(data, 'e1', student);
+    await outbox.enqueue(on);
+    await outbox.enqueue(toggleRsvp(await outbox.overlay(data), 'e1', student));
+    expect(await outbox.flush(data)).not.toBeNull();
+    expect(backend.peek()?.rsvps).toEqual([]);
+    expect((await outbox.list()).map(e => [e.mutation.type, e.status])).toEqual([['REMOVE', 'SENT']]);
+  });
+
+  it('never puts the roll number on an RSVP', () => {
+    const student = studentTag('21CE1045');
+    expect(student).toBe(studentTag(' 21ce1045 '));
+    expect(JSON.stringify(toggleRsvp(INITIAL_DATA, 'e1', student))).not.toMatch(/21ce1045/i);
+  });
+
+  it('sends removals that prove whose RSVP it is in a write of their own', async () => {
+    const student = studentTag('21CE1045');
+    const rsvp = { id: `e1:${student}`, eventId: 'e1', student, timestamp: '' };
+    const { backend, outbox } = setup({ ...INITIAL_DATA, revision: 1, rsvps: [rsvp] });
+    const owners: (string | undefined)[] = [];
+    const push = backend.push;
+    backend.push = (data: AppData, baseRevision: number, label?: string, owner?: string) => {
+      owners.push(owner);
+      return push(data, baseRevision, label);
+    };
+    await outbox.enqueue({ type: 'UPSERT', collection: 'complaints', record: complaint('c1') });
+    await outbox.enqueue({ type: 'REMOVE', collection: 'rsvps', recordId: rsvp.id, owner: '21CE1045' });
+    expect(await outbox.flush({ ...INITIAL_DATA, revision: 1, rsvps: [rsvp] })).not.toBeNull();
+    expect(owners).toEqual(['', '21CE1045']);
+    expect(backend.peek()?.rsvps).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { AppData, Bookmark, BookmarkKind, Complaint, ComplaintMessage, EventRsvp } from "../types";
+import { PersistenceService } from "./persistenceService";
+
+/**
+ * STUDENT OUTBOX
+ * Student writes (complaints, their follow-up messages, RSVPs, bookmarks) are queued on the device first and replayed
+ * against the hub until it accepts them, so nothing is lost while offline or when a pull
+ * overwrites the local copy. Mutations are keyed by record id, which makes replays idempotent.
+ */
+const OUTBOX_KEY = 'QUADX_OUTBOX_V1';
+const MAX_SENT_KEPT = 20;
+const MAX_REPLAY_ATTEMPTS = 3;
+
+export type OutboxCollection = 'complaints' | 'complaintMessages' | 'rsvps' | 'bookmarks';
+
+export type OutboxMutation =
+  | { type: 'UPSERT'; collection: 'complaints'; record: Complaint }
+  | { type: 'UPSERT'; collection: 'complaintMessages'; record: ComplaintMessage }
+  | { type: 'UPSERT'; collection: 'rsvps'; record: EventRsvp }
+  | { type: 'UPSERT'; collection: 'bookmarks'; record: Bookmark }
+  // `owner`: the roll number proving an RSVP or bookmark is the student's own. Sent to the hub, never stored in the document.
+  | { type: 'REMOVE'; collection: OutboxCollection; recordId: string; owner?: string };
+
+export interface OutboxEntry {
+  id: string;
+  mutation: OutboxMutation;
+  status: 'PENDING' | 'SENT';
+  createdAt: string;
+  attempts: number;
+  sentAt?: string;
+}
+
+type Persistence = Pick<typeof PersistenceService, 'saveData' | 'getLocal' | 'setLocal'>;
+
+const recordIdOf = (mutation: OutboxMutation) => (mutation.type === 'UPSERT' ? mutation.record.id : mutation.recordId);
+
+export function applyMutation(data: AppData, mutation: OutboxMutation): AppData {
+  const id = recordIdOf(mutation);
+  const rest = (data[mutation.collection] as { id: string }[]).filter(r => r.id !== id);
+  if (mutation.type === 'REMOVE') return { ...data, [mutation.collection]: rest };
+  // Complaints are listed newest first everywhere else, so keep that order.
+  const items = mutation.collection === 'complaints' ? [mutation.record, ...rest] : [...rest, mutation.record];
+  return { ...data, [mutation.collection]: items };
+}
+
+const isApplied = (data: AppData, mutation: OutboxMutation) => {
+  const found = (data[mutation.collection] as { id: string }[]).some(r => r.id === recordIdOf(mutation));
+  return mutation.type === 'UPSERT' ? found : !found;
+};
+
+const recordKey = (mutation: OutboxMutation) => `${mutation.collection}:${recordIdOf(mutation)}`;
+
+const ownerOf = (mutation: OutboxMutation) => (mutation.type === 'REMOVE' ? mutation.owner || '' : '');
+
+// Only the newest mutation of each record decides what the hub should end up with.
+const latestPerRecord = (mutations: OutboxMutation[]) => [...new Map(mutations.map(m => [recordKey(m), m])).values()];
+
+export const rsvpId = (eventId: string, student: string) => `${eventId}:${student}`;
+
+export const bookmarkId = (kind: BookmarkKind, itemId: string, student: string) => `${kind}:${itemId}:${student}`;
+
+/** RSVP on, or off again if the student already has one. `student` comes from studentTag(). */
+export function toggleRsvp(data: AppData, eventId: string, student: string): OutboxMutation {
+  const id = rsvpId(eventId, student);
+  if (data.rsvps.some(r => r.id === id)) return { type: 'REMOVE', collection: 'rsvps', recordId: id };
+  return { type: 'UPSERT', collection: 'rsvps', record: { id, eventId, student, timestamp: new Date().toISOString() } };
+}
+
+export function toggleBookmark(data: AppData, kind: BookmarkKind, itemId: string, student: string): OutboxMutation {
+  const id = bookmarkId(kind, itemId, student);
+  if (data.bookmarks.some(b => b.id === id)) return { type: 'REMOVE', collection: 'bookmarks', recordId: id };
+  return { type: 'UPSERT', collection: 'bookmarks', record: { id, kind, itemId, student, timestamp: new Date().toISOString() } };
+}
+
+/** Record ids with a mutation still waiting for the hub, for "pending" badges. */
+export const pendingRecordIds = (entries: OutboxEntry[]) =>
+  new Set(entries.filter(e => e.status === 'PENDING').map(e => recordIdOf(e.mutation)));
+
+const notifyChanged = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('quadx_outbox_change'));
+};
+
+export const createOutbox = (persistence: Persistence = PersistenceService) => {
+  let flushing: Promise<AppData | null> | null = null;
+
+  const read = async () => (await persistence.getLocal<OutboxEntry[]>(OUTBOX_KEY)) || [];
+
+  const write = async (entries: OutboxEntry[]) => {
+    const pending = entries.filter(e => e.status === 'PENDING');
+    const sent = entries.filter(e => e.status === 'SENT').slice(-MAX_SENT_KEPT);
+    await persistence.setLocal(OUTBOX_KEY, [...sent, ...pending]);
+    notifyChanged();
+  };
+
+  const pendingMutations = (entries: OutboxEntry[]) => entries.filter(e => e.status === 'PENDING').map(e => e.mutation);
+
+  // Pushes `batch` on top of `current` and marks it sent, or counts a failed attempt.
+  const send = async (batch: OutboxEntry[], current: AppData, owner: string): Promise<AppData | null> => {
+    const mutations = batch.map(e => e.mutation);
+    const ids = new Set(batch.map(e => e.id));
+    let base = current;
+    for (let i = 0; i < MAX_REPLAY_ATTEMPTS; i++) {
+      const result = await persistence.saveData(mutations.reduce(applyMutation, base), undefined, owner);
+      if (result.status === 'FAILED') break;
+      // A merge can resolve against our records (hub wins); re-apply on top and go again until they stick.
+      if (result.status === 'SAVED' && latestPerRecord(mutations).every(m => isApplied(result.data, m))) {
+        const sentAt = new Date().toISOString();
+        await write((await read()).map(e => (ids.has(e.id) ? { ...e, status: 'SENT' as const, sentAt } : e)));
+        return result.data;
+      }
+      base = result.data;
+    }
+    await write((await read()).map(e => (ids.has(e.id) ? { ...e, attempts: e.attempts + 1 } : e)));
+    return null;
+  };
+
+  /*
+   * Removals that prove ownership name the student to the hub, so each owner's go in a write of
+   * their own, after everything else: a complaint never travels with a roll number.
+   */
+  const replay = async (current: AppData): Promise<AppData | null> => {
+    const pending = (await read()).filter(e => e.status === 'PENDING');
+    const owners = [...new Set(pending.map(e => ownerOf(e.mutation)).filter(Boolean))];
+    const batches = [pending.filter(e => !ownerOf(e.mutation)), ...owners.map(o => pending.filter(e => ownerOf(e.mutation) === o))];
+
+    let saved: AppData | null = null;
+    for (const batch of batches.filter(b => b.length)) {
+      const result = await send(batch, saved || current, ownerOf(batch[0].mutation));
+      if (!result) break;
+      saved = result;
+    }
+    return saved;
+  };
+
+  const outbox = {
+    async list(): Promise<OutboxEntry[]> {
+      return read();
+    },
+
+    /**
+     * Queues a mutation, replacing any still-pending one for the same record (toggling an RSVP on
+     * and off again leaves only the last). Call flush() afterwards to try sending it straight away.
+     */
+    async enqueue(mutation: OutboxMutation): Promise<OutboxEntry> {
+      const entry: OutboxEntry = {
+        id: Math.random().toString(36).substr(2, 9),
+        mutation,
+        status: 'PENDING',
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      };
+      const superseded = (e: OutboxEntry) => e.status === 'PENDING' && recordKey(e.mutation) === recordKey(mutation);
+      await write([...(await read()).filter(e => !superseded(e)), entry]);
+      return entry;
+    },
+
+    /** Re-applies still-pending mutations, e.g. after a pull replaced the local copy. */
+    async overlay(data: AppData): Promise<AppData> {
+      return pendingMutations(await read()).reduce(applyMutation, data);
+    },
+
+    /**
+     * Replays every pending mutation on top of `current` and pushes them, in one write unless some prove ownership.
+     * Concurrent calls share the flush already in flight. Returns the saved document, or null when nothing was pending or the hub is unreachable.
+     */
+    flush(current: AppData): Promise<AppData | null> {
+      if (!flushing) flushing = replay(current).finally(() => { flushing = null; });
+      return flushing;
+    },
+  };
+
+  return outbox;
+};
+
+export const Outbox = createOutbox();
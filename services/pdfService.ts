@@ -0,0 +1,59 @@
+import * as pdfjs from 'pdfjs-dist';
+import { RecordProvenance } from "../types";
+
+/**
+ * PDF READER
+ * Splits an uploaded PDF into pages for extraction. Pages with a usable text layer are sent as text;
+ * scanned pages (little or no text) are rendered to an image so the model can read them instead.
+ */
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+const MIN_TEXT_CHARS = 40; // below this a page is treated as scanned
+const RENDER_SCALE = 2; // ~144 dpi, enough for small print in circulars
+const MAX_PAGES = 30;
+
+export interface PdfPage {
+  page: number; // 1-based
+  method: RecordProvenance['method'];
+  content: string; // plain text, or a JPEG data URL for scanned pages
+  mimeType: string;
+}
+
+const pageText = async (page: pdfjs.PDFPageProxy) => {
+  const { items } = await page.getTextContent();
+  return items
+    .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+};
+
+const renderPage = async (page: pdfjs.PDFPageProxy) => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas unavailable');
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/** Reads up to MAX_PAGES pages; `pageCount` reports the full length so callers can warn about the rest. */
+export async function readPdfPages(data: ArrayBuffer): Promise<{ pages: PdfPage[]; pageCount: number }> {
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  try {
+    const pages: PdfPage[] = [];
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PAGES); n++) {
+      const page = await doc.getPage(n);
+      const text = await pageText(page);
+      pages.push(text.length >= MIN_TEXT_CHARS
+        ? { page: n, method: 'TEXT', content: text, mimeType: 'text/plain' }
+        : { page: n, method: 'SCANNED', content: await renderPage(page), mimeType: 'image/jpeg' });
+      page.cleanup();
+    }
+    return { pages, pageCount: doc.numPages };
+  } finally {
+    await doc.destroy();
+  }
+}
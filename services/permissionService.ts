@@ -0,0 +1,25 @@
+import { AdminAccount, AdminCategory } from "../types";
+import { canEditRecord, isBranchScoped } from "../shared/permissions";
+
+/**
+ * PERMISSIONS
+ * The role table and record checks live in shared/permissions.js, which the sync hub also enforces.
+ * This module adds the helpers only the admin UI needs.
+ */
+export { ROLE_DEFINITIONS, getRole, canAccessCategory, canManageAccounts, categoryOf, recordBranch, canEditRecord } from "../shared/permissions";
+
+/**
+ * Splits records into the ones this account may write and the ones it may not.
+ */
+export function partitionByPermission<T>(account: AdminAccount | null | undefined, category: AdminCategory, records: T[]): { allowed: T[]; denied: T[] } {
+  const allowed: T[] = [];
+  const denied: T[] = [];
+  records.forEach(r => (canEditRecord(account, category, r) ? allowed : denied).push(r));
+  return { allowed, denied };
+}
+
+/**
+ * The branch a scoped account is pinned to, or null when it can work across branches.
+ */
+export const scopedBranch = (account: AdminAccount | null | undefined): string | null =>
+  account && isBranchScoped(account) ? account.branch || '' : null;
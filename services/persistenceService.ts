@@ -1,14 +1,23 @@
 
-import { AppData } from "../types";
+import { AppData, StudentProfile } from "../types";
 import { INITIAL_DATA } from "../constants";
+import { SyncBackend, resolveSyncBackend } from "./syncBackends";
+import { MergeConflict, mergeAppData } from "./mergeService";
+import { applyChangeSet, diffAppData, isEmptyChangeSet } from "./changeFeed";
+import { looksLikeAppData, prepareDocument } from "./schemaService";
 
 /**
  * GLOBAL CAMPUS CLOUD HUB
- * Using npoint.io shared JSON bin for high-speed cross-device sync.
+ * The shared document is synced through a pluggable SyncBackend (see syncBackends.ts);
+ * IndexedDB keeps the last good copy and device-local state.
+ * Writes are compare-and-swap on `revision`; a stale write is three-way merged against
+ * the last document we know the hub held (BASE_KEY) and retried.
+ * Nothing reaches the UI without passing migrateDocument() and validation (see schemaService.ts).
  */
-const CLOUD_BIN_ID = '9307f5984f884a441416'; 
-const CLOUD_URL = `https://api.npoint.io/${CLOUD_BIN_ID}`;
 const STORAGE_KEY = 'QUADX_GLOBAL_STATE_V3';
+const BASE_KEY = 'QUADX_SYNC_BASE_V1';
+const MAX_MERGE_ATTEMPTS = 3;
+const PROFILE_KEY = 'QUADX_STUDENT_PROFILE_V1';
 const DB_NAME = 'QuadX_Global_IDB';
 const STORE_NAME = 'main_store';
 
@@ -49,51 +58,156 @@ const idbSet = async (key: string, value: any): Promise<void> => {
   } catch (e) {}
 };
 
-export const PersistenceService = {
-  /**
-   * Loads data from Cloud with local fallback.
-   * Forces cache-busting to ensure students see Admin updates immediately.
-   */
-  async loadData(): Promise<AppData> {
-    try {
-      const response = await fetch(`${CLOUD_URL}?cache_bust=${Date.now()}`);
-      if (response.ok) {
-        const cloudData = await response.json();
-        // Validation: Ensure the response is the full AppData object
-        if (cloudData && typeof cloudData === 'object' && cloudData.timetable !== undefined) {
-          await idbSet(STORAGE_KEY, cloudData);
-          return cloudData as AppData;
+/**
+ * Device-local key/value storage. IndexedDB in the browser; swap in createMemoryLocalStore() offline.
+ */
+export interface LocalStore {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+}
+
+export const idbLocalStore: LocalStore = { get: idbGet, set: idbSet };
+
+export const createMemoryLocalStore = (): LocalStore => {
+  const entries = new Map<string, any>();
+  return {
+    async get(key) { return entries.has(key) ? structuredClone(entries.get(key)) : undefined; },
+    async set(key, value) { entries.set(key, structuredClone(value)); },
+  };
+};
+
+export type SyncStatus = 'CHANGED' | 'UNCHANGED' | 'OFFLINE';
+
+export type SaveResult =
+  | { status: 'SAVED'; data: AppData; ignored?: string[] }
+  | { status: 'CONFLICT'; data: AppData; remote: AppData; conflicts: MergeConflict[] }
+  | { status: 'FAILED'; data: AppData };
+
+const notifySynced = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('quadx_data_sync'));
+};
+
+export const createPersistenceService = (backend: SyncBackend, local: LocalStore = idbLocalStore) => {
+  const service = {
+    backend,
+
+    /**
+     * Loads data from the sync backend with local fallback.
+     * Either way the document is migrated and invalid records are quarantined.
+     */
+    async loadData(): Promise<AppData> {
+      try {
+        const cloudData = await backend.pull();
+        if (looksLikeAppData(cloudData)) {
+          const { data } = prepareDocument(cloudData);
+          await local.set(STORAGE_KEY, data);
+          await local.set(BASE_KEY, data);
+          return data;
         }
+      } catch (e) {
+        console.warn("Sync: Hub offline. Using local persistence.");
       }
-    } catch (e) {
-      console.warn("Sync: Hub offline. Using local persistence.");
-    }
 
-    const cached = await idbGet(STORAGE_KEY);
-    return cached || INITIAL_DATA;
-  },
-
-  /**
-   * Pushes full state to the cloud hub.
-   */
-  async saveData(data: AppData): Promise<boolean> {
-    try {
-      await idbSet(STORAGE_KEY, data);
-
-      const response = await fetch(CLOUD_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
-
-      if (response.ok) {
-        window.dispatchEvent(new Event('quadx_data_sync'));
-        return true;
+      const cached = await local.get(STORAGE_KEY);
+      return looksLikeAppData(cached) ? prepareDocument(cached).data : INITIAL_DATA;
+    },
+
+    /**
+     * Brings `current` up to date using the backend's change feed when it has one,
+     * otherwise by diffing a full pull. Only changed records cross the wire with a feed.
+     */
+    async syncChanges(current: AppData): Promise<{ status: SyncStatus; data: AppData }> {
+      try {
+        let next: AppData;
+        if (backend.pullChanges) {
+          const changes = await backend.pullChanges(current.revision ?? 0);
+          if (!changes) return { status: 'OFFLINE', data: current };
+          if (changes.revision === current.revision && isEmptyChangeSet(changes)) return { status: 'UNCHANGED', data: current };
+          next = prepareDocument(applyChangeSet(current, changes)).data;
+        } else {
+          const remote = await backend.pull();
+          if (!looksLikeAppData(remote)) return { status: 'OFFLINE', data: current };
+          const changes = diffAppData(current, prepareDocument(remote).data);
+          if (isEmptyChangeSet(changes) && changes.revision === current.revision) return { status: 'UNCHANGED', data: current };
+          next = applyChangeSet(current, changes);
+        }
+        await local.set(STORAGE_KEY, next);
+        await local.set(BASE_KEY, next);
+        return { status: 'CHANGED', data: next };
+      } catch (e) {
+        console.warn("Sync: Hub offline. Keeping local copy.");
+        return { status: 'OFFLINE', data: current };
+      }
+    },
+
+    /**
+     * Pushes full state to the sync backend, based on `data.revision`.
+     * If someone else wrote first, their changes are merged in per record and the push is retried.
+     * Returns CONFLICT with the merged document (hub wins each conflict) when a human has to decide.
+     * `label` names the change in the hub's snapshot history; `owner` is passed on to SyncBackend.push.
+     */
+    async saveData(data: AppData, label?: string, owner?: string): Promise<SaveResult> {
+      let attempt = data;
+      try {
+        await local.set(STORAGE_KEY, data);
+        let base: AppData | null = (await local.get(BASE_KEY)) || null;
+
+        for (let i = 0; i < MAX_MERGE_ATTEMPTS; i++) {
+          const result = await backend.push(attempt, attempt.revision ?? 0, label, owner);
+          if (result.ok) {
+            let saved = { ...attempt, revision: result.revision };
+            // The hub kept its own version of what this writer may not change; take that instead.
+            if (result.ignored?.length) {
+              const remote = await backend.pull();
+              if (looksLikeAppData(remote)) saved = prepareDocument(remote).data;
+            }
+            await local.set(STORAGE_KEY, saved);
+            await local.set(BASE_KEY, saved);
+            notifySynced();
+            return { status: 'SAVED', data: saved, ignored: result.ignored };
+          }
+          if (!result.conflict) return { status: 'FAILED', data: attempt };
+
+          const remote = prepareDocument(result.conflict).data;
+          const ancestor = base && base.revision === attempt.revision ? base : null;
+          const { merged, conflicts } = mergeAppData(ancestor, attempt, remote);
+          await local.set(BASE_KEY, remote);
+          base = remote;
+
+          if (conflicts.length) return { status: 'CONFLICT', data: merged, remote, conflicts };
+          attempt = merged;
+        }
+        return { status: 'FAILED', data: attempt };
+      } catch (e) {
+        console.error("Sync Failure:", e);
+        return { status: 'FAILED', data: attempt };
       }
-      return false;
-    } catch (e) {
-      console.error("Sync Failure:", e);
-      return false;
+    },
+
+    /**
+     * Device-local key/value storage for state that must never be pushed to the hub.
+     */
+    async getLocal<T>(key: string): Promise<T | null> {
+      return (await local.get(key)) ?? null;
+    },
+
+    async setLocal(key: string, value: any): Promise<void> {
+      await local.set(key, value);
+    },
+
+    /**
+     * The student profile never leaves the device; it only scopes what each module shows.
+     */
+    async loadProfile(): Promise<StudentProfile | null> {
+      return service.getLocal<StudentProfile>(PROFILE_KEY);
+    },
+
+    async saveProfile(profile: StudentProfile): Promise<void> {
+      await service.setLocal(PROFILE_KEY, profile);
     }
-  }
+  };
+
+  return service;
 };
+
+export const PersistenceService = createPersistenceService(resolveSyncBackend());
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { recordDate } from './recordQuery';
+
+describe('recordDate', () => {
+  it('puts ISO, day-first and free-text dates on the same calendar day', () => {
+    const day = Date.UTC(2025, 4, 12);
+    expect(recordDate('2025-05-12')).toBe(day);
+    expect(recordDate('12/05/2025')).toBe(day);
+    expect(recordDate('12 May 2025')).toBe(day);
+  });
+
+  it('gives up on text that is not a date', () => {
+    expect(recordDate('next week')).toBeNull();
+    expect(recordDate('12/13/2025')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { AdminCategory } from "../types";
+import { describeRecord } from "./importService";
+import { STAGING_COLUMNS } from "./stagingService";
+
+/**
+ * RECORD QUERIES
+ * Search, filters and sorting for the admin record browser. Pure functions over a collection,
+ * so the list can hold a whole semester of timetables and still be paged on the device.
+ */
+export type RecordSort = 'LABEL' | 'DATE_ASC' | 'DATE_DESC' | 'SCOPE';
+
+export interface RecordFilter {
+  query: string; // matched against every text field
+  branch: string; // '' for all
+  year: string;
+  division: string;
+  from: string; // yyyy-mm-dd, inclusive; '' for open
+  to: string;
+  sort: RecordSort;
+}
+
+export const EMPTY_FILTER: RecordFilter = { query: '', branch: '', year: '', division: '', from: '', to: '', sort: 'LABEL' };
+
+// The field each category is dated by; categories without one have no date filter or date sort.
+const DATE_FIELDS: Partial<Record<AdminCategory, string>> = {
+  EXAM: 'date',
+  EVENT: 'date',
+  SCHOLARSHIP: 'deadline',
+};
+
+export const dateFieldOf = (category: AdminCategory) => DATE_FIELDS[category];
+
+/** Filters that make sense for the category: only fields its records actually have. */
+export const filterableFields = (category: AdminCategory) => {
+  const keys = new Set((STAGING_COLUMNS[category] || []).map(c => c.key));
+  return { branch: keys.has('branch'), year: keys.has('year'), division: keys.has('division'), date: !!DATE_FIELDS[category] };
+};
+
+/**
+ * Extracted dates are free text. ISO dates, dd/mm/yyyy (as written on Indian notices) and anything
+ * Date.parse understands ("12 May 2025") become midnight UTC of that calendar day, so every form
+ * compares alike; the rest is null and drops out of a date-range filter.
+ */
+export const recordDate = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return Date.UTC(+iso[1], +iso[2] - 1, +iso[3]);
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) return +dmy[1] >= 1 && +dmy[1] <= 31 && +dmy[2] >= 1 && +dmy[2] <= 12 ? Date.UTC(+dmy[3], +dmy[2] - 1, +dmy[1]) : null;
+  const parsed = new Date(text);
+  // Date.parse reads free text in local time; keep the day it names, not the instant.
+  return Number.isNaN(parsed.getTime()) ? null : Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+};
+
+const searchable = (record: any): string =>
+  Object.entries(record)
+    .filter(([key]) => key !== 'id' && key !== 'provenance')
+    .map(([, value]) => (Array.isArray(value) ? value.map(searchable).join(' ') : typeof value === 'object' && value ? searchable(value) : String(value ?? '')))
+    .join(' ')
+    .toLowerCase();
+
+export function queryRecords(category: AdminCategory, records: any[], filter: RecordFilter): any[] {
+  const query = filter.query.trim().toLowerCase();
+  const dateField = DATE_FIELDS[category];
+  const from = recordDate(filter.from);
+  const to = recordDate(filter.to);
+  const dateOf = (r: any) => (dateField ? recordDate(r[dateField]) : null);
+
+  const matched = records.filter(r => {
+    if (filter.branch && r.branch !== filter.branch) return false;
+    if (filter.year && r.year !== filter.year) return false;
+    if (filter.division && r.division !== filter.division) return false;
+    if (dateField && (from !== null || to !== null)) {
+      const date = dateOf(r);
+      if (date === null || (from !== null && date < from) || (to !== null && date > to)) return false;
+    }
+    return !query || searchable(r).includes(query);
+  });
+
+  const byLabel = (a: any, b: any) => describeRecord(a).localeCompare(describeRecord(b));
+  switch (filter.sort) {
+    case 'DATE_ASC':
+    case 'DATE_DESC': {
+      const sign = filter.sort === 'DATE_ASC' ? 1 : -1;
+      // Undated records go last either way.
+      return matched.sort((a, b) => {
+        const da = dateOf(a);
+        const db = dateOf(b);
+        if (da === null || db === null) return da === db ? byLabel(a, b) : da === null ? 1 : -1;
+        return (da - db) * sign || byLabel(a, b);
+      });
+    }
+    case 'SCOPE':
+      return matched.sort((a, b) =>
+        [a.branch || a.category, a.year, a.division].join('|').localeCompare([b.branch || b.category, b.year, b.division].join('|')) || byLabel(a, b));
+    default:
+      return matched.sort(byLabel);
+  }
+}
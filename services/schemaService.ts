@@ -0,0 +1,162 @@
+import {
+  AdminAccount, AppData, AttendancePolicy, AttendanceRecord, Bookmark, CampusEvent, Complaint, ComplaintMessage, ComplaintModeration, ComplaintNote,
+  ComplaintProof, ComplaintTransition, EventRsvp, ExamSchedule, InternshipItem, KeyWrap, QuarantinedRecord, RecordProvenance, ScholarshipItem,
+  TimetableEntry, TrackingKey, UploadCounts, UploadLog,
+} from "../types";
+import { INITIAL_DATA } from "../constants";
+import { RECORD_COLLECTIONS, RecordCollection, stableStringify } from "./mergeService";
+import { migrateDocument } from "./migrations";
+
+/**
+ * SCHEMA VALIDATION
+ * Runtime checks mirroring types.ts. Every document from the hub or the local cache is migrated,
+ * then validated record by record; anything that doesn't fit is moved to `quarantine` for admins
+ * to review instead of reaching the modules.
+ */
+type Check = (value: any, path: string) => string[];
+
+const fail = (path: string, message: string) => [`${path}: ${message}`];
+
+const text: Check = (v, path) => (typeof v === 'string' ? [] : fail(path, 'expected text'));
+const requiredText: Check = (v, path) => (typeof v === 'string' && v.trim() ? [] : fail(path, 'required'));
+const number: Check = (v, path) => (typeof v === 'number' && Number.isFinite(v) ? [] : fail(path, 'expected a number'));
+const integer: Check = (v, path) => (Number.isInteger(v) ? [] : fail(path, 'expected a whole number'));
+const anything: Check = () => [];
+
+const oneOf = (...options: string[]): Check => (v, path) =>
+  (options.includes(v) ? [] : fail(path, `expected one of ${options.join(', ')}`));
+
+const optional = (check: Check): Check => (v, path) => (v === undefined || v === null ? [] : check(v, path));
+
+const list = (check: Check): Check => (v, path) =>
+  (Array.isArray(v) ? v.flatMap((item, i) => check(item, `${path}[${i}]`)) : fail(path, 'expected a list'));
+
+// Keyed by the interface so a field added to types.ts without a check fails to compile.
+const shape = <T>(fields: { [K in keyof T]-?: Check }): Check => (v, path) => {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return fail(path || 'record', 'expected an object');
+  return Object.entries(fields).flatMap(([key, check]) => (check as Check)(v[key], path ? `${path}.${key}` : key));
+};
+
+const provenance = optional(shape<RecordProvenance>({ fileName: text, page: integer, method: oneOf('TEXT', 'SCANNED') }));
+
+const keyWrap = shape<KeyWrap>({ salt: requiredText, iv: requiredText, iterations: integer, data: requiredText });
+
+const complaintStatus = oneOf('PENDING', 'IN_PROGRESS', 'RESOLVED', 'DISMISSED');
+
+const RECORD_SCHEMAS: Record<RecordCollection, Check> = {
+  attendance: shape<AttendanceRecord>({
+    id: requiredText, student: optional(requiredText), subject: requiredText, percentage: number,
+    totalClasses: integer, attendedClasses: integer, branch: text, year: text, provenance,
+  }),
+  attendancePolicies: shape<AttendancePolicy>({ id: requiredText, subject: text, branch: text, year: text, threshold: number }),
+  timetable: shape<TimetableEntry>({
+    id: requiredText, day: requiredText, branch: text, year: text, division: text,
+    slots: list(shape<TimetableEntry['slots'][number]>({ id: requiredText, time: text, subject: text, room: text, color: optional(text) })),
+    provenance,
+  }),
+  exams: shape<ExamSchedule>({
+    id: requiredText, subject: requiredText, date: text, time: text, venue: text, branch: text, year: text, division: text, provenance,
+  }),
+  scholarships: shape<ScholarshipItem>({
+    id: requiredText, name: requiredText, amount: text, deadline: text, eligibility: text, category: oneOf('GIRLS', 'GENERAL'), provenance,
+  }),
+  internships: shape<InternshipItem>({
+    id: requiredText, company: requiredText, role: text, location: text, stipend: text, branch: text, year: text, provenance,
+  }),
+  events: shape<CampusEvent>({
+    id: requiredText, title: requiredText, date: text, venue: text, description: text,
+    category: oneOf('Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC', 'General'), imageUrl: optional(text), provenance,
+  }),
+  complaints: shape<Complaint>({
+    id: requiredText, text: requiredText, timestamp: text, status: complaintStatus,
+    category: optional(oneOf('HOSTEL', 'CANTEEN', 'ACADEMICS', 'INFRASTRUCTURE', 'OTHER')), assignee: optional(text),
+    notes: list(shape<ComplaintNote>({ id: requiredText, author: text, text: requiredText, timestamp: text })),
+    response: optional(text), respondedAt: optional(text),
+    history: list(shape<ComplaintTransition>({ status: complaintStatus, at: text, by: text })),
+    trackingKey: optional(shape<TrackingKey>({ x: requiredText, y: requiredText })),
+    proof: optional(shape<ComplaintProof>({ nonce: integer, bits: integer })),
+    flags: optional(list(oneOf('PROFANITY', 'PHONE', 'EMAIL', 'ROLL_NO', 'PERSON_NAME', 'DUPLICATE', 'NO_PROOF'))),
+    moderation: optional(shape<ComplaintModeration>({ status: oneOf('RELEASED', 'REJECTED'), by: text, at: text, signature: optional(text) })),
+  }),
+  complaintMessages: shape<ComplaintMessage>({
+    id: requiredText, complaintId: requiredText, author: oneOf('STUDENT', 'ADMIN'), by: text, text: requiredText, timestamp: text,
+    signature: optional(text),
+  }),
+  rsvps: shape<EventRsvp>({ id: requiredText, eventId: requiredText, student: requiredText, timestamp: text }),
+  bookmarks: shape<Bookmark>({
+    id: requiredText, kind: oneOf('EVENT', 'INTERNSHIP', 'SCHOLARSHIP'), itemId: requiredText, student: requiredText, timestamp: text,
+  }),
+  uploadLogs: shape<UploadLog>({
+    id: requiredText, action: oneOf('EXTRACT', 'PUBLISH', 'DELETE', 'CLEAR', 'MAP_UPLOAD', 'RESTORE', 'IMPORT', 'EDIT'), actor: text, category: text,
+    fileName: text, type: text, sourceHash: text, message: optional(text), timestamp: text, status: oneOf('SUCCESS', 'PARTIAL', 'FAILED', 'STAGED'),
+    counts: shape<UploadCounts>({ added: integer, updated: integer, removed: integer, skipped: integer }),
+  }),
+  adminAccounts: shape<AdminAccount>({
+    id: requiredText, username: requiredText, salt: requiredText, passwordHash: requiredText, iterations: integer,
+    createdAt: text, role: oneOf('SUPER_ADMIN', 'DEPT_COORDINATOR', 'TNP_CELL', 'SCHOLARSHIP_OFFICE'), branch: optional(text),
+    complaintKeyWrap: optional(keyWrap),
+    complaintAccessRequest: optional(shape<NonNullable<AdminAccount['complaintAccessRequest']>>({ publicKey: requiredText, wrap: keyWrap })),
+    complaintAccessGrant: optional(text),
+  }),
+  quarantine: shape<QuarantinedRecord>({
+    id: requiredText, collection: requiredText, record: anything, errors: list(text), quarantinedAt: text,
+  }),
+};
+
+export const validateRecord = (collection: RecordCollection, record: unknown): string[] => RECORD_SCHEMAS[collection](record, '');
+
+// Small deterministic hash so a bad record without an id is quarantined once, not on every load.
+const contentHash = (value: unknown) => {
+  let hash = 5381;
+  const str = stableStringify(value);
+  for (let i = 0; i < str.length; i++) hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+const quarantineId = (collection: string, record: any) =>
+  `${collection}:${record && typeof record.id === 'string' && record.id ? record.id : contentHash(record)}`;
+
+/** Anything that could plausibly be a campus document, as opposed to an error body or an empty bin. */
+export const looksLikeAppData = (raw: unknown): raw is object =>
+  !!raw && typeof raw === 'object' && !Array.isArray(raw) && RECORD_COLLECTIONS.some(c => Array.isArray((raw as any)[c]));
+
+/**
+ * Migrates and validates a raw document. Returns the clean document (with `quarantine` extended)
+ * and the records newly quarantined by this pass.
+ */
+export function prepareDocument(raw: object): { data: AppData; quarantined: QuarantinedRecord[] } {
+  const migrated = migrateDocument(raw);
+  const data: AppData = { ...INITIAL_DATA, ...migrated };
+  const quarantined: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+
+  const hold = (collection: string, record: unknown, errors: string[]) =>
+    quarantined.push({ id: quarantineId(collection, record), collection, record, errors, quarantinedAt });
+
+  for (const collection of RECORD_COLLECTIONS) {
+    const items = migrated[collection];
+    if (items === undefined) continue;
+    if (!Array.isArray(items)) {
+      hold(collection, items, [`${collection}: expected a list`]);
+      (data as any)[collection] = [];
+      continue;
+    }
+    (data as any)[collection] = items.filter(record => {
+      const errors = validateRecord(collection, record);
+      if (errors.length) hold(collection, record, errors);
+      return !errors.length;
+    });
+  }
+
+  data.rawKnowledge = Array.isArray(data.rawKnowledge) ? data.rawKnowledge.filter(k => typeof k === 'string') : [];
+  if (data.campusMapImage !== undefined && typeof data.campusMapImage !== 'string') data.campusMapImage = undefined;
+  if (data.stylizedMapImage !== undefined && typeof data.stylizedMapImage !== 'string') data.stylizedMapImage = undefined;
+  if (data.complaintPublicKey !== undefined && typeof data.complaintPublicKey !== 'string') data.complaintPublicKey = undefined;
+  if (typeof data.revision !== 'number') data.revision = 0;
+
+  if (quarantined.length) {
+    const known = new Set(data.quarantine.map(q => q.id));
+    data.quarantine = [...data.quarantine, ...quarantined.filter(q => !known.has(q.id))];
+  }
+  return { data, quarantined };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_DATA } from '../constants';
+import { AppData, CampusEvent } from '../types';
+import { revertChanges } from './snapshotService';
+
+const event = (id: string, title: string, category: CampusEvent['category'] = 'Comp'): CampusEvent =>
+  ({ id, title, date: '2026-05-12', venue: 'Hall', description: '', category });
+
+const doc = (events: CampusEvent[]): AppData => ({ ...INITIAL_DATA, revision: 1, events });
+const anyone = () => true;
+
+describe('revertChanges', () => {
+  it('undoes one action without touching later edits by others', () => {
+    const before = doc([event('a', 'Hackathon'), event('b', 'Quiz')]);
+    const written = doc([event('b', 'Quiz')]); // deleted "a"
+    const current = doc([event('b', 'Quiz night'), event('c', 'Expo')]); // others renamed "b" and added "c"
+    const { data, reverted, skipped } = revertChanges(current, before, ['events'], anyone, written);
+    expect(data.events.map(e => e.title)).toEqual(['Quiz night', 'Expo', 'Hackathon']);
+    expect({ reverted, skipped }).toEqual({ reverted: 1, skipped: 0 });
+  });
+
+  it('skips records the admin may not edit', () => {
+    const snapshot = doc([event('a', 'Hackathon'), event('b', 'Bridge design', 'Civil')]);
+    const current = doc([]);
+    const onlyComp = (_key: string, record: CampusEvent) => record.category === 'Comp';
+    const { data, reverted, skipped } = revertChanges(current, snapshot, ['events'], onlyComp);
+    expect(data.events.map(e => e.id)).toEqual(['a']);
+    expect({ reverted, skipped }).toEqual({ reverted: 1, skipped: 1 });
+  });
+});
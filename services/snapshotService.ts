@@ -0,0 +1,211 @@
+import { AppData } from "../types";
+import { PersistenceService } from "./persistenceService";
+import { RECORD_COLLECTIONS, RecordCollection, stableStringify } from "./mergeService";
+import { looksLikeAppData, prepareDocument } from "./schemaService";
+import { sealExisting, unsealedCount } from "./complaintCrypto";
+
+/**
+ * SNAPSHOTS
+ * The dataset is copied before every sync: on this device in IndexedDB, and on the hub when the
+ * backend keeps history. Admins can undo the last destructive action or restore chosen
+ * collections from any snapshot.
+ */
+const INDEX_KEY = 'QUADX_SNAPSHOTS_V1';
+const MAX_DEVICE_SNAPSHOTS = 20;
+
+export interface SnapshotMeta {
+  id: string;
+  revision: number; // revision of the copied document
+  label: string; // the change that replaced it
+  createdAt: string;
+  origin: 'DEVICE' | 'HUB';
+}
+
+// Accounts and the audit log are never rolled back: a restore must not lock anyone out or erase history.
+export type RestorableKey = Exclude<RecordCollection, 'adminAccounts' | 'uploadLogs'> | 'campusMap';
+
+export const RESTORABLE_KEYS: RestorableKey[] = [
+  ...RECORD_COLLECTIONS.filter((c): c is Exclude<RecordCollection, 'adminAccounts' | 'uploadLogs'> => c !== 'adminAccounts' && c !== 'uploadLogs'),
+  'campusMap',
+];
+
+export const DATASET_LABELS: Record<RecordCollection | 'campusMap', string> = {
+  attendance: 'Attendance',
+  attendancePolicies: 'Attendance Policies',
+  timetable: 'Timetable',
+  exams: 'Exams',
+  scholarships: 'Scholarships',
+  internships: 'Internships',
+  events: 'Events',
+  complaints: 'Complaints',
+  complaintMessages: 'Complaint Threads',
+  rsvps: 'RSVPs',
+  bookmarks: 'Bookmarks',
+  uploadLogs: 'Upload History',
+  adminAccounts: 'Admin Accounts',
+  quarantine: 'Quarantine',
+  campusMap: 'Campus Map',
+};
+
+export interface CollectionDiff {
+  key: RestorableKey;
+  restored: number; // in the snapshot, gone now
+  changed: number; // in both, different
+  dropped: number; // added since the snapshot
+}
+
+const snapshotKey = (id: string) => `QUADX_SNAPSHOT_${id}`;
+
+const deviceIndex = async () => (await PersistenceService.getLocal<SnapshotMeta[]>(INDEX_KEY)) || [];
+
+/** What restoring each key from `snapshot` would do to `current`. */
+export function diffSnapshot(current: AppData, snapshot: AppData): CollectionDiff[] {
+  return RESTORABLE_KEYS.map(key => {
+    if (key === 'campusMap') {
+      const changed = current.campusMapImage !== snapshot.campusMapImage || current.stylizedMapImage !== snapshot.stylizedMapImage;
+      return { key, restored: 0, changed: changed ? 1 : 0, dropped: 0 };
+    }
+    const now = new Map<string, any>((current[key] as any[]).map(r => [r.id, r]));
+    const then = new Map<string, any>(((snapshot[key] as any[]) || []).map(r => [r.id, r]));
+    let restored = 0;
+    let changed = 0;
+    for (const [id, record] of then) {
+      if (!now.has(id)) restored++;
+      else if (stableStringify(now.get(id)) !== stableStringify(record)) changed++;
+    }
+    const dropped = [...now.keys()].filter(id => !then.has(id)).length;
+    return { key, restored, changed, dropped };
+  });
+}
+
+export interface RevertResult {
+  data: AppData;
+  reverted: number; // records (or the campus map) put back
+  skipped: number; // changed again since, or not this admin's to touch
+}
+
+const same = (a: any, b: any) => stableStringify(a) === stableStringify(b);
+
+const campusMapOf = (data: AppData) => ({ campusMapImage: data.campusMapImage, stylizedMapImage: data.stylizedMapImage });
+
+/**
+ * Takes `keys` of `current` back to how they were in `target`, one record at a time: records
+ * removed since are re-added, changed ones reverted and added ones removed. Only records that
+ * still look as they did in `since` are touched, so undoing an action (with `since` = the
+ * document it wrote) leaves later edits by others alone. `canEdit` decides what this admin may touch.
+ */
+export function revertChanges(
+  current: AppData,
+  target: AppData,
+  keys: RestorableKey[],
+  canEdit: (key: RestorableKey, record: any) => boolean,
+  since: AppData = current,
+): RevertResult {
+  const next: any = { ...current };
+  let reverted = 0;
+  let skipped = 0;
+  for (const key of keys) {
+    if (key === 'campusMap') {
+      if (same(campusMapOf(since), campusMapOf(target))) continue;
+      if (!same(campusMapOf(current), campusMapOf(since)) || !canEdit(key, null)) skipped++;
+      else {
+        Object.assign(next, campusMapOf(target));
+        reverted++;
+      }
+      continue;
+    }
+    const records = new Map<string, any>((current[key] as any[]).map(r => [r.id, r]));
+    const wanted = new Map<string, any>(((target[key] as any[]) || []).map(r => [r.id, r]));
+    const written = new Map<string, any>(((since[key] as any[]) || []).map(r => [r.id, r]));
+    for (const id of new Set([...wanted.keys(), ...written.keys()])) {
+      const before = wanted.get(id);
+      if (same(before, written.get(id))) continue;
+      const now = records.get(id);
+      if (!same(now, written.get(id)) || [now, before].some(r => r !== undefined && !canEdit(key, r))) {
+        skipped++;
+        continue;
+      }
+      if (before === undefined) records.delete(id);
+      else records.set(id, before);
+      reverted++;
+    }
+    next[key] = [...records.values()];
+  }
+  return { data: next, reverted, skipped };
+}
+
+/**
+ * `current` with `keys` taken from the snapshot (or an imported backup).
+ * Keeps the current revision so the save is an ordinary write on top of the hub.
+ */
+export function restoreFromSnapshot(current: AppData, snapshot: AppData, keys: (RecordCollection | 'campusMap')[]): AppData {
+  const next: any = { ...current };
+  for (const key of keys) {
+    if (key === 'campusMap') {
+      next.campusMapImage = snapshot.campusMapImage;
+      next.stylizedMapImage = snapshot.stylizedMapImage;
+    } else {
+      next[key] = snapshot[key] || [];
+    }
+  }
+  return next;
+}
+
+export const Snapshots = {
+  /** Copies `data` on this device before it is replaced; the oldest copies beyond MAX_DEVICE_SNAPSHOTS are dropped. */
+  async capture(data: AppData, label: string): Promise<SnapshotMeta> {
+    const meta: SnapshotMeta = {
+      id: Math.random().toString(36).substr(2, 9),
+      revision: data.revision,
+      label,
+      createdAt: new Date().toISOString(),
+      origin: 'DEVICE',
+    };
+    const index = [meta, ...(await deviceIndex())];
+    const expired = index.splice(MAX_DEVICE_SNAPSHOTS);
+    await PersistenceService.setLocal(snapshotKey(meta.id), data);
+    await PersistenceService.setLocal(INDEX_KEY, index);
+    await Promise.all(expired.map(m => PersistenceService.setLocal(snapshotKey(m.id), null)));
+    return meta;
+  },
+
+  /** Device and hub snapshots, newest first. Hub history is skipped when the hub is offline. */
+  async list(): Promise<SnapshotMeta[]> {
+    const device = await deviceIndex();
+    let hub: SnapshotMeta[] = [];
+    try {
+      const remote = (await PersistenceService.backend.listSnapshots?.()) || [];
+      hub = remote.map(s => ({ ...s, id: `hub:${s.revision}`, origin: 'HUB' as const }));
+    } catch (e) {
+      console.warn("Snapshots: Hub history unavailable.");
+    }
+    return [...device, ...hub].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  /** The snapshot's document, migrated and validated like any other load. */
+  async load(meta: SnapshotMeta): Promise<AppData | null> {
+    const raw = meta.origin === 'DEVICE'
+      ? await PersistenceService.getLocal(snapshotKey(meta.id))
+      : await PersistenceService.backend.pullSnapshot?.(meta.revision);
+    return looksLikeAppData(raw) ? prepareDocument(raw).data : null;
+  },
+
+  /**
+   * Run once complaints are encrypted, so older copies don't keep them readable: this device's
+   * copies are re-sealed to `publicKey` and the hub drops its copies that hold readable text.
+   * `hub` is null when the hub keeps no history or refused.
+   */
+  async sealReadable(publicKey: string): Promise<{ device: number; hub: number | null }> {
+    let device = 0;
+    for (const meta of await deviceIndex()) {
+      const raw = await PersistenceService.getLocal(snapshotKey(meta.id));
+      if (!looksLikeAppData(raw)) continue;
+      const data = prepareDocument(raw).data;
+      if (!unsealedCount(data)) continue;
+      await PersistenceService.setLocal(snapshotKey(meta.id), { ...data, ...(await sealExisting(data, publicKey)) });
+      device++;
+    }
+    const hub = await PersistenceService.backend.purgeReadableSnapshots?.().catch(() => null) ?? null;
+    return { device, hub };
+  },
+};
@@ -0,0 +1,211 @@
+import * as XLSX from 'xlsx';
+import { AdminCategory } from "../types";
+import { PersistenceService } from "./persistenceService";
+
+/**
+ * SPREADSHEET IMPORTER
+ * Turns clean .xlsx/.csv sheets into records locally, without a model call: find the header row,
+ * map columns to fields (suggested from header names, or from a saved template) and read every row.
+ * Output feeds the same staging review as AI extraction.
+ */
+const TEMPLATES_KEY = 'QUADX_IMPORT_TEMPLATES_V1';
+const HEADER_SCAN_ROWS = 15;
+
+export interface SheetGrid {
+  name: string;
+  rows: any[][];
+}
+
+export interface ImportField {
+  key: string;
+  label: string;
+  aliases: string[]; // normalised header spellings seen in college sheets
+  required?: boolean;
+}
+
+/** Where a field's value comes from: a column (by header text) or a fixed value for the whole sheet. */
+export type FieldSource = { column: string } | { value: string } | null;
+
+export type ColumnMapping = Record<string, FieldSource>;
+
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  category: AdminCategory;
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+// Flat fields per category, mirroring CATEGORY_SCHEMAS in geminiService. Timetables are one row per slot.
+export const IMPORT_FIELDS: Partial<Record<AdminCategory, ImportField[]>> = {
+  ATTENDANCE: [
+    { key: 'rollNo', label: 'Roll No', aliases: ['roll no', 'roll number', 'roll', 'prn', 'enrollment no', 'seat no'], required: true },
+    { key: 'subject', label: 'Subject', aliases: ['subject', 'course', 'paper'], required: true },
+    { key: 'totalClasses', label: 'Total Lectures', aliases: ['total', 'total classes', 'total lectures', 'lectures held', 'held', 'conducted'], required: true },
+    { key: 'attendedClasses', label: 'Attended', aliases: ['attended', 'present', 'lectures attended', 'attended classes'], required: true },
+    { key: 'branch', label: 'Branch', aliases: ['branch', 'department', 'dept'] },
+    { key: 'year', label: 'Year', aliases: ['year', 'class', 'academic year'] },
+  ],
+  TIMETABLE: [
+    { key: 'day', label: 'Day', aliases: ['day', 'weekday'], required: true },
+    { key: 'time', label: 'Time', aliases: ['time', 'slot', 'timing', 'period'], required: true },
+    { key: 'subject', label: 'Subject', aliases: ['subject', 'course', 'lecture'], required: true },
+    { key: 'room', label: 'Room', aliases: ['room', 'room no', 'venue', 'lab', 'hall'] },
+    { key: 'branch', label: 'Branch', aliases: ['branch', 'department', 'dept'] },
+    { key: 'year', label: 'Year', aliases: ['year', 'class'] },
+    { key: 'division', label: 'Division', aliases: ['division', 'div', 'section', 'batch'] },
+  ],
+  SCHOLARSHIP: [
+    { key: 'name', label: 'Name', aliases: ['name', 'scholarship', 'scheme', 'scholarship name'], required: true },
+    { key: 'amount', label: 'Amount', aliases: ['amount', 'value', 'stipend'] },
+    { key: 'deadline', label: 'Deadline', aliases: ['deadline', 'last date', 'due date', 'closing date'] },
+    { key: 'eligibility', label: 'Eligibility', aliases: ['eligibility', 'criteria', 'who can apply'] },
+    { key: 'category', label: 'Category', aliases: ['category', 'type'] },
+  ],
+  EVENT: [
+    { key: 'title', label: 'Title', aliases: ['title', 'event', 'event name', 'name'], required: true },
+    { key: 'date', label: 'Date', aliases: ['date', 'event date', 'when'] },
+    { key: 'venue', label: 'Venue', aliases: ['venue', 'location', 'place', 'hall'] },
+    { key: 'description', label: 'Description', aliases: ['description', 'details', 'about'] },
+    { key: 'category', label: 'Category', aliases: ['category', 'department', 'branch', 'dept'] },
+  ],
+  EXAM: [
+    { key: 'subject', label: 'Subject', aliases: ['subject', 'course', 'paper', 'subject name'], required: true },
+    { key: 'date', label: 'Date', aliases: ['date', 'exam date'], required: true },
+    { key: 'time', label: 'Time', aliases: ['time', 'timing', 'session', 'slot'] },
+    { key: 'venue', label: 'Venue', aliases: ['venue', 'room', 'hall', 'centre', 'center'] },
+    { key: 'branch', label: 'Branch', aliases: ['branch', 'department', 'dept'] },
+    { key: 'year', label: 'Year', aliases: ['year', 'class'] },
+    { key: 'division', label: 'Division', aliases: ['division', 'div', 'section'] },
+  ],
+  INTERNSHIP: [
+    { key: 'company', label: 'Company', aliases: ['company', 'organisation', 'organization', 'employer', 'firm'], required: true },
+    { key: 'role', label: 'Role', aliases: ['role', 'position', 'profile', 'designation', 'title'], required: true },
+    { key: 'location', label: 'Location', aliases: ['location', 'city', 'place'] },
+    { key: 'stipend', label: 'Stipend', aliases: ['stipend', 'salary', 'pay', 'ctc'] },
+    { key: 'branch', label: 'Branch', aliases: ['branch', 'department', 'eligible branch'] },
+    { key: 'year', label: 'Year', aliases: ['year', 'eligible year', 'class'] },
+  ],
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const normalizeHeader = (value: any) => String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const cellText = (value: any) => (value === undefined || value === null ? '' : String(value).trim());
+
+/** Every sheet in the workbook, as rows of cells (dates formatted as shown in the sheet). */
+export function readWorkbook(data: ArrayBuffer): SheetGrid[] {
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', cellDates: true });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false }),
+  })).filter(sheet => sheet.rows.length);
+}
+
+const aliasScore = (header: string, field: ImportField) => {
+  if (!header) return 0;
+  if (field.aliases.includes(header)) return 3;
+  if (field.aliases.some(a => header.startsWith(a) || header.endsWith(a))) return 2;
+  if (field.aliases.some(a => header.includes(a))) return 1;
+  return 0;
+};
+
+/**
+ * Picks the row that looks most like a header: mostly non-numeric text, ideally matching known field names.
+ * Titles and blank banner rows above the table score low because they fill one or two cells.
+ */
+export function detectHeaderRow(rows: any[][], category: AdminCategory): number {
+  const fields = IMPORT_FIELDS[category] || [];
+  let best = 0;
+  let bestScore = -1;
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const cells = row.map(normalizeHeader).filter(Boolean);
+    const textual = cells.filter(c => isNaN(Number(c))).length;
+    const matches = fields.filter(f => cells.some(c => aliasScore(c, f) > 0)).length;
+    const score = matches * 3 + textual - (cells.length - textual);
+    if (cells.length >= 2 && score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+export const headersOf = (sheet: SheetGrid, headerRow: number) => (sheet.rows[headerRow] || []).map(cellText);
+
+/** Best column per field by header name; each column is used at most once. */
+export function suggestMapping(category: AdminCategory, headers: string[]): ColumnMapping {
+  const fields = IMPORT_FIELDS[category] || [];
+  const normalized = headers.map(normalizeHeader);
+  const candidates = fields.flatMap(field =>
+    normalized.map((h, i) => ({ field: field.key, column: headers[i], score: aliasScore(h, field) })).filter(c => c.score > 0),
+  ).sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = Object.fromEntries(fields.map(f => [f.key, null]));
+  const used = new Set<string>();
+  for (const c of candidates) {
+    if (mapping[c.field] || used.has(c.column)) continue;
+    mapping[c.field] = { column: c.column };
+    used.add(c.column);
+  }
+  return mapping;
+}
+
+/** A template applies when every column it reads exists in the sheet. */
+export const templateFits = (template: ImportTemplate, headers: string[]) =>
+  Object.values(template.mapping).every(source => !source || !('column' in source) || headers.includes(source.column));
+
+export const missingRequiredFields = (category: AdminCategory, mapping: ColumnMapping) =>
+  (IMPORT_FIELDS[category] || []).filter(f => f.required && !mapping[f.key]).map(f => f.label);
+
+/**
+ * Reads the rows under the header into records. Rows with every mapped cell empty are skipped.
+ */
+export function applyMapping(category: AdminCategory, sheet: SheetGrid, headerRow: number, mapping: ColumnMapping): any[] {
+  const headers = headersOf(sheet, headerRow);
+  const readers = Object.entries(mapping)
+    .filter((entry): entry is [string, NonNullable<FieldSource>] => !!entry[1])
+    .map(([key, source]) => {
+      if ('value' in source) {
+        const value = source.value.trim();
+        return { key, fromColumn: false, read: (_row: any[]) => value };
+      }
+      const index = headers.indexOf(source.column);
+      return { key, fromColumn: true, read: (row: any[]) => (index >= 0 ? cellText(row[index]) : '') };
+    });
+
+  const rows = sheet.rows.slice(headerRow + 1)
+    .map(row => Object.fromEntries(readers.map(r => [r.key, r.read(row)])))
+    .filter(record => readers.some(r => r.fromColumn && record[r.key]));
+
+  if (category === 'TIMETABLE') return groupTimetableRows(rows);
+  return rows.map(record => ({ ...record, id: generateId() }));
+}
+
+// One sheet row per lecture; the app stores one entry per day and class with its slots.
+function groupTimetableRows(rows: any[]) {
+  const entries = new Map<string, any>();
+  for (const { day, branch = '', year = '', division = '', time, subject, room = '' } of rows) {
+    const key = [day, branch, year, division].join('|');
+    if (!entries.has(key)) entries.set(key, { id: generateId(), day, branch, year, division, slots: [] });
+    entries.get(key).slots.push({ id: generateId(), time, subject, room, color: '' });
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Mapping templates are kept on this device. Saving under an existing name replaces it.
+ */
+export const TemplateStore = {
+  async list(): Promise<ImportTemplate[]> {
+    return (await PersistenceService.getLocal<ImportTemplate[]>(TEMPLATES_KEY)) || [];
+  },
+
+  async save(name: string, category: AdminCategory, mapping: ColumnMapping): Promise<ImportTemplate[]> {
+    const template: ImportTemplate = { id: generateId(), name: name.trim(), category, mapping, createdAt: new Date().toISOString() };
+    const templates = [...(await TemplateStore.list()).filter(t => !(t.category === category && t.name === template.name)), template];
+    await PersistenceService.setLocal(TEMPLATES_KEY, templates);
+    return templates;
+  },
+};
@@ -0,0 +1,180 @@
+import { AdminCategory, TimetableEntry } from "../types";
+import { BRANCHES, DIVISIONS, YEARS } from "../constants";
+import { PersistenceService } from "./persistenceService";
+import { RecordCollection } from "./mergeService";
+import { validateRecord } from "./schemaService";
+import { buildAttendanceRecords } from "./attendanceService";
+import { ImportMode } from "./importService";
+
+/**
+ * STAGING
+ * AI-extracted rows land in a per-category draft on this device. Admins edit, accept or reject
+ * each row, and only accepted rows that pass validation are published to the hub.
+ */
+const DRAFTS_KEY = 'QUADX_STAGING_DRAFTS_V1';
+
+export type StagedRowStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+export interface StagedRow {
+  id: string;
+  record: any;
+  status: StagedRowStatus;
+  uncertain: string[]; // fields the model said it guessed
+}
+
+export interface StagingDraft {
+  category: AdminCategory;
+  collection: RecordCollection;
+  source: string; // file name or "Manual text"
+  sourceType?: string; // MIME type of the upload, for the audit log
+  sourceHash?: string;
+  createdAt: string;
+  mode?: ImportMode; // how publishing lands on existing records; defaults per collection
+  rows: StagedRow[];
+}
+
+export type StagingDrafts = Partial<Record<AdminCategory, StagingDraft>>;
+
+export interface FieldIssue {
+  field: string | null; // null when the problem is with the row as a whole
+  message: string;
+}
+
+export type StagingColumn =
+  | { key: string; label: string; kind: 'text' | 'number' }
+  | { key: string; label: string; kind: 'select'; options: string[] }
+  | { key: 'slots'; label: string; kind: 'slots' };
+
+const EVENT_CATEGORIES = ['General', 'Comp', 'IT', 'Civil', 'Mech', 'Elect', 'AIDS', 'E&TC'];
+
+export const STAGING_COLUMNS: Partial<Record<AdminCategory, StagingColumn[]>> = {
+  ATTENDANCE: [
+    { key: 'rollNo', label: 'Roll No', kind: 'text' },
+    { key: 'subject', label: 'Subject', kind: 'text' },
+    { key: 'attendedClasses', label: 'Attended', kind: 'number' },
+    { key: 'totalClasses', label: 'Total', kind: 'number' },
+    { key: 'branch', label: 'Branch', kind: 'select', options: BRANCHES },
+    { key: 'year', label: 'Year', kind: 'select', options: YEARS },
+  ],
+  TIMETABLE: [
+    { key: 'day', label: 'Day', kind: 'text' },
+    { key: 'branch', label: 'Branch', kind: 'select', options: BRANCHES },
+    { key: 'year', label: 'Year', kind: 'select', options: YEARS },
+    { key: 'division', label: 'Div', kind: 'select', options: DIVISIONS },
+    { key: 'slots', label: 'Slots (time | subject | room)', kind: 'slots' },
+  ],
+  SCHOLARSHIP: [
+    { key: 'name', label: 'Name', kind: 'text' },
+    { key: 'amount', label: 'Amount', kind: 'text' },
+    { key: 'deadline', label: 'Deadline', kind: 'text' },
+    { key: 'eligibility', label: 'Eligibility', kind: 'text' },
+    { key: 'category', label: 'Category', kind: 'select', options: ['GENERAL', 'GIRLS'] },
+  ],
+  EVENT: [
+    { key: 'title', label: 'Title', kind: 'text' },
+    { key: 'date', label: 'Date', kind: 'text' },
+    { key: 'venue', label: 'Venue', kind: 'text' },
+    { key: 'description', label: 'Description', kind: 'text' },
+    { key: 'category', label: 'Category', kind: 'select', options: EVENT_CATEGORIES },
+  ],
+  EXAM: [
+    { key: 'subject', label: 'Subject', kind: 'text' },
+    { key: 'date', label: 'Date', kind: 'text' },
+    { key: 'time', label: 'Time', kind: 'text' },
+    { key: 'venue', label: 'Venue', kind: 'text' },
+    { key: 'branch', label: 'Branch', kind: 'select', options: BRANCHES },
+    { key: 'year', label: 'Year', kind: 'select', options: YEARS },
+    { key: 'division', label: 'Div', kind: 'select', options: DIVISIONS },
+  ],
+  INTERNSHIP: [
+    { key: 'company', label: 'Company', kind: 'text' },
+    { key: 'role', label: 'Role', kind: 'text' },
+    { key: 'location', label: 'Location', kind: 'text' },
+    { key: 'stipend', label: 'Stipend', kind: 'text' },
+    { key: 'branch', label: 'Branch', kind: 'select', options: BRANCHES },
+    { key: 'year', label: 'Year', kind: 'select', options: YEARS },
+  ],
+};
+
+type Slot = TimetableEntry['slots'][number];
+
+const isBlankSlot = (s: Slot) => !s.time && !s.subject && !s.room;
+
+export const slotsToText = (slots: Slot[] = []) =>
+  slots.map(s => (isBlankSlot(s) ? '' : [s.time, s.subject, s.room].join(' | '))).join('\n');
+
+/**
+ * Parses one slot per line, keeping ids and colours of slots that stay in place.
+ * Blank lines survive as blank slots so the textarea can be typed into; checkRecord() drops them.
+ */
+export const textToSlots = (text: string, previous: Slot[] = []): Slot[] =>
+  text.split('\n').map((line, i) => {
+    const [time = '', subject = '', room = ''] = line.split('|').map(part => part.trim());
+    const prev = previous[i];
+    return { id: prev?.id || Math.random().toString(36).substr(2, 9), time, subject, room, color: prev?.color ?? '' };
+  });
+
+/**
+ * Normalises a staged record the same way publishing will and reports what is wrong with it.
+ */
+export function checkRecord(draft: Pick<StagingDraft, 'category' | 'collection'>, record: any): { record: any; issues: FieldIssue[] } {
+  let normalized = record;
+  const issues: FieldIssue[] = [];
+
+  if (draft.category === 'ATTENDANCE') {
+    const { records, rejected } = buildAttendanceRecords([record]);
+    if (rejected.length) issues.push({ field: rejected[0].field, message: rejected[0].reason });
+    else normalized = records[0];
+  }
+  if (draft.category === 'TIMETABLE' && Array.isArray(record.slots)) {
+    normalized = { ...normalized, slots: record.slots.filter((s: Slot) => !isBlankSlot(s)).map((s: Slot) => ({ ...s, color: s.color ?? '' })) };
+    if (!normalized.slots.length) issues.push({ field: 'slots', message: 'At least one slot is required' });
+    normalized.slots.forEach((s: Slot, i: number) => {
+      if (!s.time.trim() || !s.subject.trim()) issues.push({ field: 'slots', message: `Slot ${i + 1} needs a time and a subject` });
+    });
+  }
+
+  if (!issues.length) {
+    for (const message of validateRecord(draft.collection, normalized)) {
+      const field = message.split(/[.[:]/)[0] || null;
+      issues.push({ field, message });
+    }
+  }
+  return { record: normalized, issues };
+}
+
+export function createDraft(category: AdminCategory, collection: RecordCollection, source: string, extracted: any[]): StagingDraft {
+  return {
+    category,
+    collection,
+    source,
+    createdAt: new Date().toISOString(),
+    rows: extracted.map(({ uncertainFields, ...record }) => ({
+      id: record.id,
+      record,
+      status: 'PENDING',
+      uncertain: Array.isArray(uncertainFields) ? uncertainFields : [],
+    })),
+  };
+}
+
+/** Accepted rows in their publishable form; rows that still have issues are left out. */
+export const publishableRecords = (draft: StagingDraft) =>
+  draft.rows
+    .filter(row => row.status === 'ACCEPTED')
+    .map(row => checkRecord(draft, row.record))
+    .filter(checked => !checked.issues.length)
+    .map(checked => checked.record);
+
+/**
+ * Drafts are device-local so a reload (or a crash mid-review) doesn't lose the admin's edits.
+ */
+export const StagingStore = {
+  async load(): Promise<StagingDrafts> {
+    return (await PersistenceService.getLocal<StagingDrafts>(DRAFTS_KEY)) || {};
+  },
+
+  async save(drafts: StagingDrafts): Promise<void> {
+    await PersistenceService.setLocal(DRAFTS_KEY, drafts);
+  },
+};
@@ -0,0 +1,255 @@
+import { AdminAccount, AppData } from "../types";
+import { ChangeSet, createChangeLog } from "./changeFeed";
+
+declare var process: { env: { [key: string]: string | undefined } };
+
+export type SyncBackendKind = 'npoint' | 'rest' | 'local' | 'memory';
+
+/**
+ * Outcome of a compare-and-swap write. `conflict` carries the hub's current document when
+ * the write was based on a stale revision, or null when the hub couldn't be reached.
+ * `ignored` lists the records and fields the hub refused to take from this writer.
+ */
+export type PushResult =
+  | { ok: true; revision: number; ignored?: string[] }
+  | { ok: false; conflict: AppData | null };
+
+/** A copy of the shared document the hub kept before a write replaced it. */
+export interface HubSnapshot {
+  revision: number;
+  label: string; // what the replacing write was
+  createdAt: string;
+}
+
+export type HubLoginResult =
+  | { ok: true; token: string; accountId: string; username: string; expiresAt: number }
+  | { ok: false; reason: 'INVALID' | 'LOCKED'; retryAt?: number; attemptsLeft?: number };
+
+/**
+ * Sign-in handled by the hub itself. The hub checks passwords, counts failures and issues session
+ * tokens; the backend remembers the open session and sends it with every write.
+ */
+export interface HubAuth {
+  /** Whether the first admin account exists. Accounts are left out of what anonymous readers pull. */
+  hasAccounts(): Promise<boolean>;
+  /** Creates the first admin account; `secret` must match the hub's SYNC_SETUP_SECRET. */
+  setup(secret: string, account: AdminAccount): Promise<boolean>;
+  openSession(username: string, password: string): Promise<HubLoginResult>;
+  /** Adopts a stored session token if the hub still accepts it. */
+  resumeSession(token: string): Promise<boolean>;
+  closeSession(): Promise<void>;
+}
+
+/**
+ * SYNC BACKEND
+ * Where the shared campus document lives. PersistenceService only talks to this interface,
+ * so the hub can move from the public npoint bin to a self-hosted server without touching the UI.
+ */
+export interface SyncBackend {
+  readonly kind: SyncBackendKind;
+  /** Latest shared document, or null when the hub is unreachable or has nothing stored yet. */
+  pull(): Promise<AppData | null>;
+  /**
+   * Replaces the shared document only if the hub is still at `baseRevision`. `label` describes the write for snapshots.
+   * `owner` is the roll number of the student whose RSVPs or bookmarks the write removes, for hubs that check it.
+   */
+  push(data: AppData, baseRevision: number, label?: string, owner?: string): Promise<PushResult>;
+  /** Records changed after `since`. Backends without a feed omit this and clients diff full pulls. */
+  pullChanges?(since: number): Promise<ChangeSet | null>;
+  /** Snapshots kept by the hub, newest first. Backends without history omit these. */
+  listSnapshots?(): Promise<HubSnapshot[] | null>;
+  pullSnapshot?(revision: number): Promise<AppData | null>;
+  /** Deletes hub snapshots that still hold readable complaint text; resolves to how many, or null if refused. */
+  purgeReadableSnapshots?(): Promise<number | null>;
+  /** Present when the hub authenticates admins; otherwise accounts are checked on the device. */
+  auth?: HubAuth;
+}
+
+const revisionOf = (data: AppData | null) => data?.revision ?? 0;
+
+/**
+ * npoint.io JSON bin. Anyone who knows the bin ID can overwrite any part of it, accounts included.
+ * npoint has no conditional writes, so the revision check is a read-then-write and still racy by a few ms.
+ */
+export const createNpointBackend = (binId: string): SyncBackend => {
+  const url = `https://api.npoint.io/${binId}`;
+  const pull = async (): Promise<AppData | null> => {
+    const response = await fetch(`${url}?cache_bust=${Date.now()}`);
+    return response.ok ? response.json() : null;
+  };
+  return {
+    kind: 'npoint',
+    pull,
+    async push(data, baseRevision) {
+      const current = await pull();
+      if (current && revisionOf(current) !== baseRevision) return { ok: false, conflict: current };
+      const revision = baseRevision + 1;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...data, revision }),
+      });
+      return response.ok ? { ok: true, revision } : { ok: false, conflict: null };
+    },
+  };
+};
+
+/**
+ * Self-hosted hub served by `npm run sync-server` (see server/syncServer.js).
+ * Writes carry the signed-in admin's session token, if any, as a bearer token, and `If-Match` with
+ * the base revision so the server can refuse stale writes with 412. The bundle holds no credential.
+ */
+export const createRestBackend = (baseUrl: string): SyncBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+  let session = '';
+  const headers = (): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(session ? { Authorization: `Bearer ${session}` } : {}),
+  });
+  const auth: HubAuth = {
+    async hasAccounts() {
+      const response = await fetch(`${root}/setup`, { cache: 'no-store' });
+      if (!response.ok) throw new Error('The hub could not be reached');
+      return (await response.json()).done;
+    },
+    async setup(secret, account) {
+      const response = await fetch(`${root}/setup`, { method: 'POST', headers: headers(), body: JSON.stringify({ secret, account }) });
+      return response.ok;
+    },
+    async openSession(username, password) {
+      const response = await fetch(`${root}/session`, { method: 'POST', headers: headers(), body: JSON.stringify({ username, password }) });
+      if (response.status !== 200 && response.status !== 401 && response.status !== 429) throw new Error('The hub could not check the password');
+      const result: HubLoginResult = await response.json();
+      if (result.ok) session = result.token;
+      return result;
+    },
+    async resumeSession(stored) {
+      const response = await fetch(`${root}/session`, { headers: { Authorization: `Bearer ${stored}` }, cache: 'no-store' });
+      if (response.ok) session = stored;
+      return response.ok;
+    },
+    async closeSession() {
+      if (session) await fetch(`${root}/session`, { method: 'DELETE', headers: headers() }).catch(() => undefined);
+      session = '';
+    },
+  };
+  return {
+    kind: 'rest',
+    auth,
+    // Reads carry the session too: only signed-in admins get the account records.
+    async pull() {
+      const response = await fetch(`${root}/data`, { headers: headers(), cache: 'no-store' });
+      return response.ok ? response.json() : null;
+    },
+    async pullChanges(since) {
+      const response = await fetch(`${root}/changes?since=${since}`, { headers: headers(), cache: 'no-store' });
+      return response.ok ? response.json() : null;
+    },
+    // Snapshots are admin-only: older copies can hold complaints from before encryption.
+    async listSnapshots() {
+      const response = await fetch(`${root}/snapshots`, { headers: headers(), cache: 'no-store' });
+      return response.ok ? response.json() : null;
+    },
+    async pullSnapshot(revision) {
+      const response = await fetch(`${root}/snapshots/${revision}`, { headers: headers(), cache: 'no-store' });
+      return response.ok ? response.json() : null;
+    },
+    async purgeReadableSnapshots() {
+      const response = await fetch(`${root}/snapshots?readable=complaints`, { method: 'DELETE', headers: headers() });
+      return response.ok ? (await response.json()).removed : null;
+    },
+    async push(data, baseRevision, label, owner) {
+      const response = await fetch(`${root}/data`, {
+        method: 'PUT',
+        headers: {
+          ...headers(),
+          'If-Match': `"${baseRevision}"`,
+          ...(label ? { 'X-Change-Label': encodeURIComponent(label) } : {}),
+          ...(owner ? { 'X-Student': encodeURIComponent(owner) } : {}),
+        },
+        body: JSON.stringify(data),
+      });
+      if (response.ok) {
+        const body = await response.json();
+        return { ok: true, revision: body.revision, ignored: body.ignored || [] };
+      }
+      if (response.status === 412) return { ok: false, conflict: await response.json() };
+      return { ok: false, conflict: null };
+    },
+  };
+};
+
+/**
+ * Single-device mode: nothing leaves IndexedDB. Pushes succeed trivially.
+ */
+export const createLocalOnlyBackend = (): SyncBackend => ({
+  kind: 'local',
+  async pull() { return null; },
+  async push(_data, baseRevision) { return { ok: true, revision: baseRevision + 1 }; },
+});
+
+/**
+ * In-memory fake for exercising persistence logic offline. `peek` exposes what was last pushed.
+ */
+export const createInMemoryBackend = (initial: AppData | null = null) => {
+  let stored: AppData | null = initial ? structuredClone(initial) : null;
+  let online = true;
+  const snapshots: (HubSnapshot & { data: AppData })[] = [];
+  const changeLog = createChangeLog();
+  if (stored) changeLog.record(null, stored, revisionOf(stored));
+  const backend = {
+    kind: 'memory' as const,
+    async pull() {
+      if (!online) throw new Error('In-memory backend is offline');
+      return stored ? structuredClone(stored) : null;
+    },
+    async push(data: AppData, baseRevision: number, label = ''): Promise<PushResult> {
+      if (!online) throw new Error('In-memory backend is offline');
+      if (stored && revisionOf(stored) !== baseRevision) return { ok: false, conflict: structuredClone(stored) };
+      if (stored) snapshots.unshift({ revision: revisionOf(stored), label, createdAt: new Date().toISOString(), data: stored });
+      const revision = baseRevision + 1;
+      const next = structuredClone({ ...data, revision });
+      changeLog.record(stored, next, revision);
+      stored = next;
+      return { ok: true, revision };
+    },
+    async pullChanges(since: number): Promise<ChangeSet | null> {
+      if (!online) throw new Error('In-memory backend is offline');
+      return stored ? structuredClone(changeLog.since(since, stored)) : null;
+    },
+    async listSnapshots(): Promise<HubSnapshot[]> {
+      return snapshots.map(({ data, ...meta }) => meta);
+    },
+    async pullSnapshot(revision: number): Promise<AppData | null> {
+      const snapshot = snapshots.find(s => s.revision === revision);
+      return snapshot ? structuredClone(snapshot.data) : null;
+    },
+    peek: () => stored,
+    setOnline: (value: boolean) => { online = value; },
+  };
+  return backend satisfies SyncBackend;
+};
+
+/**
+ * Picks the backend from build-time env (see vite.config.ts):
+ *   SYNC_BACKEND=local|rest|npoint, NPOINT_BIN_ID, SYNC_URL
+ * Nothing is shared unless a hub is configured explicitly.
+ */
+export function resolveSyncBackend(env: { [key: string]: string | undefined } = process.env): SyncBackend {
+  switch ((env.SYNC_BACKEND || 'local').toLowerCase()) {
+    case 'rest':
+      if (!env.SYNC_URL) {
+        console.warn('Sync: SYNC_BACKEND=rest without SYNC_URL. Falling back to local-only.');
+        return createLocalOnlyBackend();
+      }
+      return createRestBackend(env.SYNC_URL);
+    case 'npoint':
+      if (!env.NPOINT_BIN_ID) {
+        console.warn('Sync: SYNC_BACKEND=npoint without NPOINT_BIN_ID. Falling back to local-only.');
+        return createLocalOnlyBackend();
+      }
+      return createNpointBackend(env.NPOINT_BIN_ID);
+    default:
+      return createLocalOnlyBackend();
+  }
+}
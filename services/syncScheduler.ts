@@ -0,0 +1,84 @@
+import { SyncStatus } from "./persistenceService";
+
+/**
+ * ADAPTIVE POLLER
+ * Polls quickly while things are changing, slows down while idle or offline, spreads
+ * a campus of phones apart with jitter, and stops entirely while the tab is hidden.
+ */
+export interface PollerOptions {
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  idleFactor?: number; // growth per poll that found nothing new
+  offlineFactor?: number; // growth per failed poll
+}
+
+const DEFAULTS: Required<PollerOptions> = {
+  minDelayMs: 15000,
+  maxDelayMs: 5 * 60 * 1000,
+  idleFactor: 1.5,
+  offlineFactor: 2,
+};
+
+// "Equal jitter": half the delay is fixed, the other half random.
+const withJitter = (delay: number) => delay / 2 + Math.random() * (delay / 2);
+
+export const createPoller = (task: () => Promise<SyncStatus>, options: PollerOptions = {}) => {
+  const config = { ...DEFAULTS, ...options };
+  let delay = config.minDelayMs;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let inFlight = false;
+
+  const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!running || isHidden()) return;
+    timer = setTimeout(poll, withJitter(delay));
+  };
+
+  const poll = async () => {
+    if (inFlight || !running) return;
+    inFlight = true;
+    try {
+      const status = await task();
+      if (status === 'CHANGED') delay = config.minDelayMs;
+      else delay = Math.min(delay * (status === 'OFFLINE' ? config.offlineFactor : config.idleFactor), config.maxDelayMs);
+    } catch (e) {
+      delay = Math.min(delay * config.offlineFactor, config.maxDelayMs);
+    } finally {
+      inFlight = false;
+      schedule();
+    }
+  };
+
+  // Coming back to the tab (or back online) is a good moment to catch up straight away.
+  const resume = () => {
+    if (!running || isHidden()) {
+      schedule();
+      return;
+    }
+    delay = config.minDelayMs;
+    poll();
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      document.addEventListener('visibilitychange', resume);
+      window.addEventListener('online', resume);
+      schedule();
+    },
+    stop() {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      document.removeEventListener('visibilitychange', resume);
+      window.removeEventListener('online', resume);
+    },
+    /** Polls now and resets the backoff, e.g. right after this device wrote. */
+    trigger: resume,
+  };
+};
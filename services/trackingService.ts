@@ -0,0 +1,103 @@
+import { Complaint, ComplaintMessage, TrackingKey } from "../types";
+import { PersistenceService } from "./persistenceService";
+import { stableStringify } from "./mergeService";
+
+/**
+ * COMPLAINT TRACKING
+ * Each complaint gets its own ECDSA key pair. The public half is stored on the complaint; the
+ * private half, with the complaint id, is the student's tracking code and lives only on their
+ * device. Replies are signed with it, so admins can tell the original reporter's messages from
+ * anyone else's without ever learning who that is.
+ */
+const REPORTS_KEY = 'QUADX_MY_REPORTS_V1';
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNING = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface TrackedReport {
+  complaintId: string;
+  token: string;
+  savedAt: string;
+  // Plaintext copies: once sealed for the admins, the hub copy is unreadable on this device.
+  text?: string;
+  sent?: Record<string, string>; // message id -> text
+}
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+/** A fresh key pair: the public half for the complaint, the private scalar for the tracking code. */
+export async function issueTrackingKey(): Promise<{ publicKey: TrackingKey; secret: string }> {
+  const pair = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']);
+  const jwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  return { publicKey: { x: jwk.x!, y: jwk.y! }, secret: jwk.d! };
+}
+
+// Complaint ids are base36, so the first dot always separates the two parts.
+export const trackingToken = (complaintId: string, secret: string) => `${complaintId}.${secret}`;
+
+export function parseToken(token: string): { complaintId: string; secret: string } | null {
+  const match = token.trim().match(/^([a-z0-9]+)\.([A-Za-z0-9_-]{43})$/);
+  return match ? { complaintId: match[1], secret: match[2] } : null;
+}
+
+const signedBytes = (m: Omit<ComplaintMessage, 'signature'>) =>
+  new TextEncoder().encode(stableStringify({ id: m.id, complaintId: m.complaintId, author: m.author, text: m.text, timestamp: m.timestamp }));
+
+/** A student reply on `complaint`, signed with the tracking code. */
+export async function studentMessage(complaint: Complaint, token: string, text: string): Promise<ComplaintMessage> {
+  const parsed = parseToken(token);
+  if (!parsed || parsed.complaintId !== complaint.id || !complaint.trackingKey) throw new Error('Tracking code does not match this report');
+  const key = await crypto.subtle.importKey('jwk', { kty: 'EC', crv: 'P-256', ...complaint.trackingKey, d: parsed.secret }, ALGORITHM, false, ['sign']);
+  const message: ComplaintMessage = {
+    id: Math.random().toString(36).substr(2, 9),
+    complaintId: complaint.id,
+    author: 'STUDENT',
+    by: '',
+    text,
+    timestamp: new Date().toISOString(),
+  };
+  return { ...message, signature: toBase64Url(await crypto.subtle.sign(SIGNING, key, signedBytes(message))) };
+}
+
+/** True when a student message was signed by whoever holds the complaint's tracking code. */
+export async function verifyStudentMessage(complaint: Complaint | undefined, message: ComplaintMessage): Promise<boolean> {
+  if (!complaint?.trackingKey || !message.signature || message.complaintId !== complaint.id) return false;
+  try {
+    const key = await crypto.subtle.importKey('jwk', { kty: 'EC', crv: 'P-256', ...complaint.trackingKey }, ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGNING, key, fromBase64Url(message.signature), signedBytes(message));
+  } catch (e) {
+    return false;
+  }
+}
+
+/** Tracking codes saved on this device, newest first. */
+export const MyReports = {
+  async list(): Promise<TrackedReport[]> {
+    return (await PersistenceService.getLocal<TrackedReport[]>(REPORTS_KEY)) || [];
+  },
+
+  async add(token: string, text?: string): Promise<TrackedReport> {
+    const parsed = parseToken(token);
+    if (!parsed) throw new Error('That is not a tracking code');
+    const reports = await this.list();
+    const existing = reports.find(r => r.complaintId === parsed.complaintId);
+    const report: TrackedReport = {
+      ...existing, complaintId: parsed.complaintId, token: token.trim(), savedAt: new Date().toISOString(), ...(text ? { text } : {}),
+    };
+    await PersistenceService.setLocal(REPORTS_KEY, [report, ...reports.filter(r => r.complaintId !== report.complaintId)]);
+    return report;
+  },
+
+  /** Keeps the plaintext of a reply sent from this device. */
+  async remember(complaintId: string, messageId: string, text: string): Promise<void> {
+    const reports = (await this.list()).map(r => (r.complaintId === complaintId ? { ...r, sent: { ...r.sent, [messageId]: text } } : r));
+    await PersistenceService.setLocal(REPORTS_KEY, reports);
+  },
+
+  async remove(complaintId: string): Promise<void> {
+    await PersistenceService.setLocal(REPORTS_KEY, (await this.list()).filter(r => r.complaintId !== complaintId));
+  },
+};
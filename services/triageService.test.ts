@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Complaint } from '../types';
+import { clusterComplaints, keywordTriage, weeklyCounts } from './triageService';
+
+const complaint = (id: string, text: string, timestamp: string): Complaint => ({
+  id, text, timestamp, status: 'PENDING', notes: [], history: [{ status: 'PENDING', at: timestamp, by: '' }],
+});
+
+describe('keywordTriage', () => {
+  it('picks the category with the most keyword hits', () => {
+    expect(keywordTriage('Projector in room 204 is broken').category).toBe('INFRASTRUCTURE');
+    expect(keywordTriage('Mess food is cold at dinner').category).toBe('CANTEEN');
+    expect(keywordTriage('Nothing to see here').category).toBe('OTHER');
+  });
+
+  it('rates safety problems critical and broken things high', () => {
+    expect(keywordTriage('There was a fire near the lab').urgency).toBe('CRITICAL');
+    expect(keywordTriage('The fans are broken').urgency).toBe('HIGH');
+    expect(keywordTriage('Could we get more benches').urgency).toBe('LOW');
+  });
+
+  it('matches urgency words in any form', () => {
+    for (const text of ['A senior harassed me', 'Juniors were ragged last night', 'He threatened us', 'Two students injured in the lab']) {
+      expect(keywordTriage(text).urgency).toBe('CRITICAL');
+    }
+    expect(keywordTriage('The fan broke again').urgency).toBe('HIGH');
+    expect(keywordTriage('Rage about the timetable change').urgency).not.toBe('CRITICAL');
+  });
+});
+
+describe('clusterComplaints', () => {
+  it('groups reports of the same problem, largest first', () => {
+    const complaints = [
+      complaint('1', 'Library wifi is down', '2026-05-01T10:00:00.000Z'),
+      complaint('2', 'Canteen food is cold', '2026-05-02T10:00:00.000Z'),
+      complaint('3', 'The wifi in the library keeps dropping, down all day', '2026-05-03T10:00:00.000Z'),
+      complaint('4', 'Internet down in library again', '2026-05-04T10:00:00.000Z'),
+    ];
+    const clusters = clusterComplaints(complaints, {});
+    expect(clusters[0].complaintIds).toEqual(['1', '3', '4']);
+    expect(clusters[0].last).toBe('2026-05-04T10:00:00.000Z');
+    expect(clusters).toHaveLength(2);
+  });
+});
+
+describe('weeklyCounts', () => {
+  it('buckets complaints by week, oldest first', () => {
+    const now = new Date('2026-05-15T00:00:00.000Z');
+    const complaints = [
+      complaint('1', 'a', '2026-05-14T00:00:00.000Z'),
+      complaint('2', 'b', '2026-05-13T00:00:00.000Z'),
+      complaint('3', 'c', '2026-05-05T00:00:00.000Z'),
+      complaint('4', 'd', '2026-01-01T00:00:00.000Z'),
+    ];
+    expect(weeklyCounts(complaints, null, 3, now)).toEqual([0, 1, 2]);
+    expect(weeklyCounts(complaints, new Set(['3']), 3, now)).toEqual([0, 1, 0]);
+  });
+});
@@ -0,0 +1,154 @@
+import { Complaint, ComplaintCategory } from "../types";
+import { PersistenceService } from "./persistenceService";
+
+/**
+ * COMPLAINT TRIAGE
+ * Suggests a category, urgency and sentiment for each complaint and groups reports of the same
+ * problem into clusters for the insights dashboard. The keyword rules here always work, and
+ * give every admin the same answer. Results from the model (see geminiService.triageComplaints)
+ * replace them where an admin has run it. Those results stay on the admin's device, because
+ * topics and urgency would reveal what encrypted complaints say. Only the category is written
+ * back to the complaint.
+ */
+const TRIAGE_KEY = 'QUADX_COMPLAINT_TRIAGE_V1';
+
+export type ComplaintUrgency = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type ComplaintSentiment = 'NEGATIVE' | 'NEUTRAL' | 'POSITIVE';
+
+export interface ComplaintTriage {
+  category: ComplaintCategory;
+  urgency: ComplaintUrgency;
+  sentiment: ComplaintSentiment;
+  topic: string; // a few words naming the problem, used to label clusters
+  method: 'AI' | 'KEYWORDS';
+}
+
+export interface ComplaintCluster {
+  id: string; // id of the earliest complaint in it
+  label: string;
+  category: ComplaintCategory;
+  complaintIds: string[];
+  first: string; // ISO timestamps
+  last: string;
+}
+
+export const URGENCY_RANK: Record<ComplaintUrgency, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+const CATEGORY_KEYWORDS: Record<Exclude<ComplaintCategory, 'OTHER'>, string[]> = {
+  HOSTEL: ['hostel', 'warden', 'roommate', 'bed', 'mattress', 'laundry', 'curfew', 'dorm'],
+  CANTEEN: ['canteen', 'food', 'mess', 'meal', 'lunch', 'breakfast', 'dinner', 'menu', 'snack', 'tea', 'coffee', 'hygiene'],
+  ACADEMICS: ['exam', 'lecture', 'teacher', 'professor', 'faculty', 'mark', 'syllabus', 'assignment', 'practical', 'result', 'attendance', 'timetable', 'class'],
+  INFRASTRUCTURE: ['wifi', 'projector', 'fan', 'light', 'electricity', 'power', 'lift', 'library', 'toilet', 'water', 'leak', 'parking', 'road', 'bench', 'computer', 'ac'],
+};
+
+// A trailing * matches any ending, so "harass*" covers harassed, harassing and harassment.
+const URGENCY_KEYWORDS: Record<Exclude<ComplaintUrgency, 'LOW' | 'MEDIUM'>, string[]> = {
+  CRITICAL: ['fire', 'harass*', 'assault*', 'rag', 'ragg*', 'threat*', 'unsafe', 'injur*', 'blood*', 'shock*', 'emergenc*', 'suicid*', 'poison*', 'molest*', 'stalk*'],
+  HIGH: ['broke*', 'leak*', 'urgent*', 'sick*', 'dirt*', 'unhygien*', 'stuck', 'outage*', 'down', 'flood*', 'smell*'],
+};
+
+const NEGATIVE = ['bad', 'worst', 'terrible', 'horrible', 'poor', 'angry', 'disgusting', 'rude', 'useless', 'never', 'not', 'no', 'broken', 'dirty', 'cold', 'late'];
+const POSITIVE = ['thanks', 'thank', 'good', 'great', 'appreciate', 'helpful', 'nice', 'please'];
+
+// Words that say nothing about which problem it is.
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'has', 'have', 'had', 'this', 'that', 'with', 'from', 'there', 'since', 'been', 'not', 'but',
+  'our', 'your', 'they', 'them', 'its', 'all', 'any', 'very', 'too', 'also', 'still', 'again', 'every', 'day', 'days', 'today', 'morning',
+  'evening', 'night', 'week', 'please', 'sir', 'madam', 'problem', 'issue', 'working', 'work', 'does', 'doesnt', 'dont', 'cant',
+]);
+
+const SYNONYMS: Record<string, string> = {
+  'wi-fi': 'wifi', 'wi fi': 'wifi', internet: 'wifi', network: 'wifi', washroom: 'toilet', bathroom: 'toilet', restroom: 'toilet',
+  mess: 'canteen', cafeteria: 'canteen', professors: 'professor', teachers: 'teacher',
+};
+
+const CLUSTER_OVERLAP = 0.6;
+const CLUSTER_MIN_SHARED = 2;
+
+// Plurals folded so "fans" and "fan" match.
+const stem = (w: string) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w);
+
+export function tokens(text: string): string[] {
+  let normalized = text.toLowerCase();
+  for (const [from, to] of Object.entries(SYNONYMS)) normalized = normalized.split(from).join(to);
+  return [...new Set(normalized.split(/[^a-z0-9]+/).filter(w => w.length > 2 && !STOPWORDS.has(w)).map(stem))];
+}
+
+const matches = (word: string, keyword: string) => (keyword.endsWith('*') ? word.startsWith(keyword.slice(0, -1)) : word === keyword);
+
+const countHits = (words: string[], list: string[]) => words.filter(w => list.some(k => matches(w, k))).length;
+
+/** Deterministic triage from keyword lists; the fallback whenever the model isn't available. */
+export function keywordTriage(text: string): ComplaintTriage {
+  const words = text.toLowerCase().split(/[^a-z-]+/).map(w => stem(SYNONYMS[w] || w));
+  const scored = (Object.keys(CATEGORY_KEYWORDS) as (keyof typeof CATEGORY_KEYWORDS)[])
+    .map(category => ({ category, hits: countHits(words, CATEGORY_KEYWORDS[category]) }))
+    .filter(s => s.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+  const negative = countHits(words, NEGATIVE);
+  const positive = countHits(words, POSITIVE);
+  const urgency: ComplaintUrgency = countHits(words, URGENCY_KEYWORDS.CRITICAL) ? 'CRITICAL'
+    : countHits(words, URGENCY_KEYWORDS.HIGH) ? 'HIGH'
+    : negative ? 'MEDIUM' : 'LOW';
+  return {
+    category: scored[0]?.category || 'OTHER',
+    urgency,
+    sentiment: negative > positive ? 'NEGATIVE' : positive > negative ? 'POSITIVE' : 'NEUTRAL',
+    topic: tokens(text).slice(0, 3).join(' '),
+    method: 'KEYWORDS',
+  };
+}
+
+const overlaps = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter(w => b.has(w)).length;
+  return shared >= Math.min(CLUSTER_MIN_SHARED, a.size, b.size) && shared / Math.min(a.size, b.size) >= CLUSTER_OVERLAP;
+};
+
+/**
+ * Groups complaints about the same problem, oldest first. Each cluster is seeded by its first
+ * complaint; later ones join the first cluster whose seed shares most of their words (and the
+ * model's topic words, when there are any).
+ */
+export function clusterComplaints(complaints: Complaint[], triage: Record<string, ComplaintTriage>): ComplaintCluster[] {
+  const seeds: { words: Set<string>; cluster: ComplaintCluster; topics: Map<string, number> }[] = [];
+  for (const c of [...complaints].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    const t = triage[c.id] || keywordTriage(c.text);
+    const words = new Set([...tokens(c.text), ...tokens(t.topic)]);
+    if (!words.size) continue;
+    const match = seeds.find(s => s.cluster.category === t.category && overlaps(s.words, words));
+    if (match) {
+      match.cluster.complaintIds.push(c.id);
+      match.cluster.last = c.timestamp;
+      match.topics.set(t.topic, (match.topics.get(t.topic) || 0) + 1);
+    } else {
+      seeds.push({ words, topics: new Map([[t.topic, 1]]), cluster: { id: c.id, label: t.topic, category: t.category, complaintIds: [c.id], first: c.timestamp, last: c.timestamp } });
+    }
+  }
+  return seeds
+    .map(({ cluster, topics }) => ({ ...cluster, label: [...topics.entries()].sort((a, b) => b[1] - a[1])[0][0] || cluster.label }))
+    .sort((a, b) => b.complaintIds.length - a.complaintIds.length || b.last.localeCompare(a.last));
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Complaints per week for the last `weeks` weeks, oldest first, counting only `ids`. */
+export function weeklyCounts(complaints: Complaint[], ids: Set<string> | null, weeks: number, now = new Date()): number[] {
+  const counts = new Array(weeks).fill(0);
+  for (const c of complaints) {
+    if (ids && !ids.has(c.id)) continue;
+    const age = Math.floor((now.getTime() - Date.parse(c.timestamp)) / WEEK_MS);
+    if (age >= 0 && age < weeks) counts[weeks - 1 - age]++;
+  }
+  return counts;
+}
+
+/** Model results by complaint id, kept only on this admin's device. */
+export const TriageStore = {
+  async load(): Promise<Record<string, ComplaintTriage>> {
+    return (await PersistenceService.getLocal<Record<string, ComplaintTriage>>(TRIAGE_KEY)) || {};
+  },
+
+  async save(results: Record<string, ComplaintTriage>): Promise<void> {
+    await PersistenceService.setLocal(TRIAGE_KEY, results);
+  },
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { AdminAccount } from '../types';
+import { authorizeWrite } from '../shared/writePolicy';
+import { studentTag } from '../shared/studentTag';
+
+const admin = (id: string, role: AdminAccount['role'], branch?: string): AdminAccount => ({
+  id, username: id, salt: '', passwordHash: '', iterations: 1, createdAt: '', role, ...(branch ? { branch } : {}),
+});
+
+const timestamp = '2026-05-12T10:00:00.000Z';
+const submission = { id: 'c1', text: 'Fan broken', timestamp, status: 'PENDING', notes: [], history: [{ status: 'PENDING', at: timestamp, by: '' }] };
+const stored = {
+  timetable: [],
+  events: [{ id: 'e1', title: 'Hackathon', category: 'Comp' }, { id: 'e2', title: 'Bridge design', category: 'Civil' }],
+  complaints: [] as object[],
+  adminAccounts: [admin('root', 'SUPER_ADMIN'), admin('comp', 'DEPT_COORDINATOR', 'Comp')],
+};
+
+describe('authorizeWrite', () => {
+  it('lets students add a fresh complaint and nothing else', () => {
+    const { data, ignored } = authorizeWrite(stored, {
+      ...stored,
+      complaints: [submission, { ...submission, id: 'c2', status: 'RESOLVED' }],
+      events: [],
+      adminAccounts: [admin('me', 'SUPER_ADMIN')],
+    }, null);
+    expect(data.complaints).toEqual([submission]);
+    expect(data.events).toEqual(stored.events);
+    expect(data.adminAccounts).toEqual(stored.adminAccounts);
+    expect(ignored.sort()).toEqual(['adminAccounts', 'complaints:c2', 'events']);
+  });
+
+  it('lets students remove only the RSVPs they prove are theirs', () => {
+    const mine = { id: 'e1:mine', eventId: 'e1', student: studentTag('21CE1045'), timestamp };
+    const theirs = { id: 'e1:theirs', eventId: 'e1', student: studentTag('21CE1046'), timestamp };
+    const withRsvps = { ...stored, rsvps: [mine, theirs] };
+    const wiped = { ...withRsvps, rsvps: [] };
+    expect(authorizeWrite(withRsvps, wiped, null, studentTag('21ce1045'))).toMatchObject({ data: { rsvps: [theirs] }, ignored: ['rsvps:e1:theirs'] });
+    expect(authorizeWrite(withRsvps, wiped, null).data.rsvps).toEqual([mine, theirs]);
+  });
+
+  it('keeps coordinators to their own branch', () => {
+    const coordinator = stored.adminAccounts[1];
+    const { data, ignored } = authorizeWrite(stored, {
+      ...stored,
+      events: [{ id: 'e1', title: 'Hackathon 2.0', category: 'Comp' }],
+    }, coordinator);
+    expect(data.events).toEqual([{ id: 'e1', title: 'Hackathon 2.0', category: 'Comp' }, stored.events[1]]);
+    expect(ignored).toEqual(['events:e2']);
+  });
+
+  it('lets admins change only the key fields of their own account', () => {
+    const [root, comp] = stored.adminAccounts;
+    const { data, ignored } = authorizeWrite(stored, {
+      ...stored,
+      adminAccounts: [{ ...root, passwordHash: 'x' }, { ...comp, role: 'SUPER_ADMIN', complaintAccessGrant: 'sealed' }],
+    }, comp);
+    expect(data.adminAccounts).toEqual(stored.adminAccounts);
+    expect(ignored).toEqual(['adminAccounts:root', 'adminAccounts:comp']);
+
+    const request = authorizeWrite(stored, { ...stored, adminAccounts: [root, { ...comp, complaintAccessGrant: 'sealed' }] }, comp);
+    expect(request.ignored).toEqual([]);
+  });
+
+  it('lets super admins change everything', () => {
+    const next = { ...stored, events: [], campusMapImage: 'data:image/png;base64,' };
+    expect(authorizeWrite(stored, next, stored.adminAccounts[0])).toEqual({ data: next, ignored: [] });
+  });
+});
@@ -0,0 +1,17 @@
+export interface ChangeLogState {
+  start?: number;
+  records: Record<string, Record<string, number>>;
+  tombstones: Record<string, Record<string, number>>;
+  fields: Record<string, number>;
+}
+
+export declare const emptyLog: (start?: number) => ChangeLogState;
+
+export declare function recordChanges(log: ChangeLogState, prev: object | null, next: object, revision: number): void;
+
+export declare function changesSince<T extends { revision: number }>(log: ChangeLogState | null | undefined, doc: T, since: number): {
+  revision: number;
+  reset?: T;
+  collections: Record<string, { upserted: any[]; removed: string[] }>;
+  fields: Record<string, any>;
+};
@@ -0,0 +1,74 @@
+import { stableStringify } from './stableStringify.js';
+
+/**
+ * CHANGE LOG
+ * The revision at which each record and top-level field last changed, plus tombstones for deleted
+ * records, so a hub can answer "what changed since N". Used by the sync hub (server/syncServer.js)
+ * and the in-memory backend (services/changeFeed.ts). Any top-level array of `{ id }` objects is
+ * treated as a record collection; everything else is diffed as a whole field.
+ * `start` is the revision the log began at; clients older than that get the full document.
+ */
+export const emptyLog = (start = 0) => ({ start, records: {}, tombstones: {}, fields: {} });
+
+const isRecordList = (value) => Array.isArray(value) && value.every(r => r && typeof r === 'object' && typeof r.id === 'string');
+const isCollection = (prev, next) =>
+  isRecordList(prev ?? []) && isRecordList(next ?? []) && ((prev || []).length > 0 || (next || []).length > 0);
+
+/** Stamps every record and field that differs between `prev` (null for a first write) and `next` with `revision`. */
+export function recordChanges(log, prev, next, revision) {
+  const keys = new Set([...Object.keys(prev || {}), ...Object.keys(next)]);
+  keys.delete('revision');
+  for (const key of keys) {
+    const before = prev?.[key];
+    const after = next[key];
+    if (prev && stableStringify(before) === stableStringify(after)) continue;
+    if (!isCollection(before, after)) {
+      log.fields[key] = revision;
+      continue;
+    }
+    const records = (log.records[key] ||= {});
+    const tombstones = (log.tombstones[key] ||= {});
+    const previous = new Map((before || []).map(r => [r.id, r]));
+    const ids = new Set((after || []).map(r => r.id));
+    for (const r of after || []) {
+      if (stableStringify(previous.get(r.id)) === stableStringify(r)) continue;
+      records[r.id] = revision;
+      delete tombstones[r.id];
+    }
+    for (const id of previous.keys()) {
+      if (ids.has(id)) continue;
+      tombstones[id] = revision;
+      delete records[id];
+    }
+    delete log.fields[key];
+  }
+}
+
+/** Everything stamped after `since`, read from `doc` (the current document, with its revision). */
+export function changesSince(log, doc, since) {
+  if (!log || since <= 0 || since > doc.revision || since < (log.start || 0)) {
+    return { revision: doc.revision, reset: doc, collections: {}, fields: {} };
+  }
+
+  // Whatever has no stamp is as old as the log; without a start, send it to be safe.
+  const unstamped = log.start ?? Infinity;
+  const changes = { revision: doc.revision, collections: {}, fields: {} };
+  for (const [key, value] of Object.entries(doc)) {
+    if (key === 'revision') continue;
+    if (log.records[key] && isRecordList(value)) {
+      const upserted = value.filter(r => (log.records[key][r.id] ?? unstamped) > since);
+      if (upserted.length) changes.collections[key] = { upserted, removed: [] };
+    } else if ((log.fields[key] ?? unstamped) > since) {
+      changes.fields[key] = value ?? null;
+    }
+  }
+  for (const [key, tombstones] of Object.entries(log.tombstones)) {
+    const removed = Object.entries(tombstones).filter(([, rev]) => rev > since).map(([id]) => id);
+    if (!removed.length) continue;
+    (changes.collections[key] ||= { upserted: [], removed: [] }).removed = removed;
+  }
+  for (const [key, rev] of Object.entries(log.fields)) {
+    if (rev > since && !(key in doc)) changes.fields[key] = null;
+  }
+  return changes;
+}
@@ -0,0 +1,17 @@
+import { AdminAccount, AdminCategory, AdminRole } from "../types";
+
+export declare const ROLE_DEFINITIONS: Record<AdminRole, { label: string; categories: AdminCategory[]; branchScoped: boolean }>;
+
+export declare const getRole: (account: AdminAccount | null | undefined) => AdminRole | null;
+
+export declare const isBranchScoped: (account: AdminAccount | null | undefined) => boolean;
+
+export declare function canAccessCategory(account: AdminAccount | null | undefined, category: AdminCategory): boolean;
+
+export declare const canManageAccounts: (account: AdminAccount | null | undefined) => boolean;
+
+export declare const categoryOf: (key: string) => AdminCategory;
+
+export declare const recordBranch: (category: AdminCategory, record: any) => string | undefined;
+
+export declare function canEditRecord(account: AdminAccount | null | undefined, category: AdminCategory, record: any): boolean;
@@ -0,0 +1,60 @@
+/**
+ * ROLE DEFINITIONS
+ * Which Master Hub categories each role may manage, and whether edits are limited to the account's branch.
+ * Plain JavaScript so the sync hub (server/syncServer.js) enforces exactly what the admin UI shows;
+ * types are in permissions.d.ts and the app imports it through services/permissionService.ts.
+ */
+export const ROLE_DEFINITIONS = {
+  SUPER_ADMIN: {
+    label: 'Super Admin',
+    categories: ['ATTENDANCE', 'TIMETABLE', 'SCHOLARSHIP', 'EVENT', 'EXAM', 'INTERNSHIP', 'CAMPUS_MAP', 'COMPLAINTS', 'SYSTEM'],
+    branchScoped: false,
+  },
+  DEPT_COORDINATOR: {
+    label: 'Dept Coordinator',
+    categories: ['ATTENDANCE', 'TIMETABLE', 'EXAM', 'EVENT'],
+    branchScoped: true,
+  },
+  TNP_CELL: { label: 'T&P Cell', categories: ['INTERNSHIP'], branchScoped: false },
+  SCHOLARSHIP_OFFICE: { label: 'Scholarship Office', categories: ['SCHOLARSHIP'], branchScoped: false },
+};
+
+// Accounts created before roles existed were all-powerful; keep them that way rather than locking admins out.
+export const getRole = (account) => (account ? account.role || 'SUPER_ADMIN' : null);
+
+export const isBranchScoped = (account) => !!account && !!ROLE_DEFINITIONS[getRole(account)]?.branchScoped;
+
+export function canAccessCategory(account, category) {
+  const role = getRole(account);
+  return !!role && !!ROLE_DEFINITIONS[role]?.categories.includes(category);
+}
+
+export const canManageAccounts = (account) => getRole(account) === 'SUPER_ADMIN';
+
+// Which category governs each part of the shared document; anything unlisted is SYSTEM's.
+const DOCUMENT_CATEGORIES = {
+  attendance: 'ATTENDANCE',
+  attendancePolicies: 'ATTENDANCE',
+  timetable: 'TIMETABLE',
+  exams: 'EXAM',
+  scholarships: 'SCHOLARSHIP',
+  internships: 'INTERNSHIP',
+  events: 'EVENT',
+  complaints: 'COMPLAINTS',
+  complaintMessages: 'COMPLAINTS',
+  complaintPublicKey: 'COMPLAINTS',
+  campusMapImage: 'CAMPUS_MAP',
+  stylizedMapImage: 'CAMPUS_MAP',
+};
+
+export const categoryOf = (key) => DOCUMENT_CATEGORIES[key] || 'SYSTEM';
+
+/**
+ * Events keep their department in `category`; every other branch-aware record uses `branch`.
+ */
+export const recordBranch = (category, record) => (category === 'EVENT' ? record?.category : record?.branch);
+
+export function canEditRecord(account, category, record) {
+  if (!account || !canAccessCategory(account, category)) return false;
+  return !isBranchScoped(account) || recordBranch(category, record) === account.branch;
+}
@@ -0,0 +1 @@
+export declare const stableStringify: (value: any) => string;
@@ -0,0 +1,9 @@
+/**
+ * JSON with sorted keys, so equal values always compare equal as text. Shared by the app and the hub.
+ */
+export const stableStringify = (value) => {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  return `{${Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+};
@@ -0,0 +1,3 @@
+export declare const normalizeRollNo: (rollNo?: string) => string;
+
+export declare const studentTag: (rollNo?: string) => string;
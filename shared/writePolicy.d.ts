@@ -0,0 +1,3 @@
+import { AdminAccount } from "../types";
+
+export declare function authorizeWrite<T extends object>(prev: T | null, next: T, account: AdminAccount | null, student?: string): { data: T; ignored: string[] };
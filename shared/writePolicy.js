@@ -0,0 +1,117 @@
+import { canAccessCategory, canEditRecord, canManageAccounts, categoryOf } from './permissions.js';
+import { stableStringify } from './stableStringify.js';
+
+/**
+ * WRITE POLICY
+ * What a write to the sync hub may change, checked by the hub against the document it holds.
+ * Students write without signing in, so anonymous writes may only add complaints (as fresh
+ * submissions), add their own follow-up messages, add RSVPs and bookmarks, and remove the RSVPs
+ * and bookmarks of the student the write proves to be (see studentTag.js).
+ * Signed-in admins may change what their role and branch allow (see permissions.js).
+ * Anything else in the write is ignored: the hub keeps its own version of those records, which
+ * also absorbs the migration and quarantine differences every client's copy carries.
+ */
+const CATEGORY_COLLECTIONS = ['attendance', 'attendancePolicies', 'timetable', 'exams', 'scholarships', 'internships', 'events', 'complaints', 'complaintMessages'];
+
+// The audit log keeps its newest 500 entries (services/auditService.ts); older ones may fall off.
+const MAX_UPLOAD_LOGS = 500;
+
+// Account fields an admin may change on their own record while working with the complaint key.
+const KEY_FIELDS = ['complaintKeyWrap', 'complaintAccessRequest', 'complaintAccessGrant'];
+
+const same = (a, b) => stableStringify(a) === stableStringify(b);
+
+const isFreshComplaint = (c) =>
+  c.status === 'PENDING'
+  && Array.isArray(c.notes) && !c.notes.length
+  && Array.isArray(c.history) && c.history.length === 1 && c.history[0].status === 'PENDING' && c.history[0].by === ''
+  && c.moderation === undefined && c.response === undefined && c.respondedAt === undefined
+  && c.assignee === undefined && c.category === undefined;
+
+const withoutKeyFields = (account) => Object.fromEntries(Object.entries(account).filter(([k]) => !KEY_FIELDS.includes(k)));
+
+/**
+ * `may(before, after)` decides each added, changed or removed record; `before` is undefined for
+ * additions and `after` for removals.
+ */
+const rules = (account, next, student) => {
+  if (!account) {
+    const own = (before, after) => (!before && !!after) || (!!before && !after && !!student && before.student === student);
+    return {
+      complaints: (before, after) => !before && !!after && isFreshComplaint(after),
+      complaintMessages: (before, after) => !before && !!after && after.author === 'STUDENT' && after.by === '',
+      rsvps: own,
+      bookmarks: own,
+    };
+  }
+  const system = canAccessCategory(account, 'SYSTEM');
+  const byCategory = Object.fromEntries(CATEGORY_COLLECTIONS.map(key => [
+    key,
+    (before, after) => (!before || canEditRecord(account, categoryOf(key), before)) && (!after || canEditRecord(account, categoryOf(key), after)),
+  ]));
+  return {
+    ...byCategory,
+    uploadLogs: (before, after) => system
+      || (!before && !!after && after.actor === account.username)
+      || (!!before && !after && (next.uploadLogs || []).length >= MAX_UPLOAD_LOGS),
+    adminAccounts: (before, after) => canManageAccounts(account)
+      || (!!before && !!after && before.id === account.id && same(withoutKeyFields(before), withoutKeyFields(after))),
+    ...(system ? { rsvps: () => true, bookmarks: () => true, quarantine: () => true } : {}),
+  };
+};
+
+const filterCollection = (before = [], after = [], may) => {
+  const previous = new Map(before.map(r => [r.id, r]));
+  const incoming = new Set(after.map(r => r.id));
+  const records = [];
+  const ignored = [];
+  for (const r of after) {
+    const old = previous.get(r.id);
+    if (same(old, r) || may(old, r)) records.push(r);
+    else {
+      ignored.push(r.id);
+      if (old) records.push(old);
+    }
+  }
+  for (const old of before) {
+    if (incoming.has(old.id) || may(old, undefined)) continue;
+    ignored.push(old.id);
+    records.push(old);
+  }
+  return { records, ignored };
+};
+
+const isRecordList = (value) => Array.isArray(value) && value.every(r => r && typeof r === 'object' && typeof r.id === 'string');
+
+/**
+ * The document the hub should store when `account` (null for anonymous students) writes `next`
+ * over `prev`, and the records and fields that were ignored (`collection:id` or the field name).
+ * `student` is the studentTag an anonymous writer proved with their roll number, '' if none.
+ */
+export function authorizeWrite(prev, next, account, student = '') {
+  const allowed = rules(account, next, student);
+  const data = { ...(prev || {}) };
+  const ignored = [];
+  const keys = new Set([...Object.keys(prev || {}), ...Object.keys(next)]);
+  keys.delete('revision');
+  for (const key of keys) {
+    const before = prev?.[key];
+    const after = next[key];
+    if (same(before, after)) continue;
+    if (allowed[key] && isRecordList(before ?? []) && isRecordList(after ?? [])) {
+      const result = filterCollection(before, after, allowed[key]);
+      data[key] = result.records;
+      ignored.push(...result.ignored.map(id => `${key}:${id}`));
+      continue;
+    }
+    // Every signed-in admin may carry a newer schemaVersion; the data it describes is checked above.
+    const may = account && (key === 'schemaVersion' || canAccessCategory(account, categoryOf(key)));
+    if (may) {
+      if (after === undefined) delete data[key];
+      else data[key] = after;
+    } else {
+      ignored.push(key);
+    }
+  }
+  return { data, ignored };
+}
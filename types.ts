@@ -11,14 +11,42 @@ export type ModuleType =
   | 'INTERNSHIP' 
   | 'CAMPUS_MAP';
 
+export type AdminCategory = 'ATTENDANCE' | 'TIMETABLE' | 'SCHOLARSHIP' | 'EVENT' | 'EXAM' | 'INTERNSHIP' | 'CAMPUS_MAP' | 'COMPLAINTS' | 'SYSTEM';
+
+export type AdminRole = 'SUPER_ADMIN' | 'DEPT_COORDINATOR' | 'TNP_CELL' | 'SCHOLARSHIP_OFFICE';
+
+export interface StudentProfile {
+  rollNo: string;
+  branch: string;
+  year: string;
+  division: string;
+}
+
+/** Where an uploaded record was read from, when it came out of a multi-page document. */
+export interface RecordProvenance {
+  fileName: string;
+  page: number; // 1-based
+  method: 'TEXT' | 'SCANNED'; // text layer, or the page image for scans
+}
+
 export interface AttendanceRecord {
   id: string;
+  student?: string; // studentTag of the roll number, never the roll number itself; absent on class-wide rows uploaded before attendance was per student
   subject: string;
   percentage: number;
   totalClasses: number;
   attendedClasses: number;
   branch: string;
   year: string;
+  provenance?: RecordProvenance;
+}
+
+export interface AttendancePolicy {
+  id: string;
+  subject: string;
+  branch: string; // '' applies to every branch
+  year: string; // '' applies to every year
+  threshold: number; // minimum percentage, e.g. 75
 }
 
 export interface TimetableEntry {
@@ -32,8 +60,9 @@ export interface TimetableEntry {
     time: string;
     subject: string;
     room: string;
-    color: string;
+    color?: string; // the extractor doesn't always return one
   }[];
+  provenance?: RecordProvenance;
 }
 
 export interface ExamSchedule {
@@ -45,6 +74,7 @@ export interface ExamSchedule {
   branch: string;
   year: string;
   division: string;
+  provenance?: RecordProvenance;
 }
 
 export interface ScholarshipItem {
@@ -54,6 +84,7 @@ export interface ScholarshipItem {
   deadline: string;
   eligibility: string;
   category: 'GIRLS' | 'GENERAL';
+  provenance?: RecordProvenance;
 }
 
 export interface InternshipItem {
@@ -64,6 +95,7 @@ export interface InternshipItem {
   stipend: string;
   branch: string;
   year: string;
+  provenance?: RecordProvenance;
 }
 
 export interface CampusEvent {
@@ -74,33 +106,164 @@ export interface CampusEvent {
   description: string;
   category: 'Comp' | 'IT' | 'Civil' | 'Mech' | 'Elect' | 'AIDS' | 'E&TC' | 'General';
   imageUrl?: string;
+  provenance?: RecordProvenance;
+}
+
+export type ComplaintStatus = 'PENDING' | 'IN_PROGRESS' | 'RESOLVED' | 'DISMISSED';
+
+export type ComplaintCategory = 'HOSTEL' | 'CANTEEN' | 'ACADEMICS' | 'INFRASTRUCTURE' | 'OTHER';
+
+export interface ComplaintNote {
+  id: string;
+  author: string; // admin username
+  text: string;
+  timestamp: string; // ISO
+}
+
+export interface ComplaintTransition {
+  status: ComplaintStatus;
+  at: string; // ISO
+  by: string; // admin username, '' for the student's submission
+}
+
+// Public half of the student's tracking key (ECDSA P-256, JWK coordinates).
+export interface TrackingKey {
+  x: string;
+  y: string;
 }
 
 export interface Complaint {
   id: string;
   text: string;
+  timestamp: string; // ISO time of submission
+  status: ComplaintStatus;
+  category?: ComplaintCategory; // unset until triaged
+  assignee?: string; // staff member handling it
+  notes: ComplaintNote[]; // internal, never shown to students
+  response?: string; // public reply to the student
+  respondedAt?: string;
+  history: ComplaintTransition[]; // oldest first; the first entry is the submission
+  trackingKey?: TrackingKey; // lets the submitting device follow up without revealing who it is
+  proof?: ComplaintProof;
+  flags?: ModerationFlag[]; // raised on the submitting device; only on complaints sent before flags stayed on the device
+  moderation?: ComplaintModeration; // unset while a flagged complaint waits in the moderation queue
+}
+
+// Raised by the content filter, or by the moderation queue itself.
+export type ModerationFlag = 'PROFANITY' | 'PHONE' | 'EMAIL' | 'ROLL_NO' | 'PERSON_NAME' | 'DUPLICATE' | 'NO_PROOF';
+
+// Proof of work: SHA-256 over the complaint and `nonce` starts with `bits` zero bits.
+export interface ComplaintProof {
+  nonce: number;
+  bits: number;
+}
+
+export interface ComplaintModeration {
+  status: 'RELEASED' | 'REJECTED';
+  by: string;
+  at: string;
+  signature?: string; // HMAC under a key derived from the complaint key, see moderationDecision
+}
+
+export interface ComplaintMessage {
+  id: string;
+  complaintId: string;
+  author: 'STUDENT' | 'ADMIN';
+  by: string; // admin username, '' for the student
+  text: string;
+  timestamp: string; // ISO
+  signature?: string; // student messages, signed with the complaint's tracking key
+}
+
+export interface EventRsvp {
+  id: string; // `${eventId}:${student}` so a replayed RSVP never duplicates
+  eventId: string;
+  student: string; // studentTag of the roll number, never the roll number itself
   timestamp: string;
-  status: 'PENDING' | 'RESOLVED';
+}
+
+export type BookmarkKind = 'EVENT' | 'INTERNSHIP' | 'SCHOLARSHIP';
+
+export interface Bookmark {
+  id: string; // `${kind}:${itemId}:${student}`
+  kind: BookmarkKind;
+  itemId: string;
+  student: string; // hash of the roll number, as on RSVPs
+  timestamp: string;
+}
+
+export type UploadAction = 'EXTRACT' | 'PUBLISH' | 'DELETE' | 'CLEAR' | 'MAP_UPLOAD' | 'RESTORE' | 'IMPORT' | 'EDIT';
+
+export interface UploadCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  skipped: number; // rows rejected, invalid or outside the admin's scope
 }
 
 export interface UploadLog {
   id: string;
-  fileName: string;
-  type: string;
+  action: UploadAction;
+  actor: string; // admin username
+  category: string;
+  fileName: string; // source file, "Manual text", or the deleted record's label
+  type: string; // MIME type of the source, '' when there is none
+  counts: UploadCounts;
+  sourceHash: string; // SHA-256 of the uploaded content, '' when there is none
+  message?: string;
   timestamp: string;
-  status: 'SUCCESS' | 'PARTIAL' | 'FAILED';
+  status: 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'STAGED'; // STAGED: extracted rows waiting for review, nothing published
+}
+
+export interface AdminAccount {
+  id: string;
+  username: string;
+  salt: string;
+  passwordHash: string;
+  iterations: number;
+  createdAt: string;
+  role: AdminRole;
+  branch?: string; // required for DEPT_COORDINATOR
+  complaintKeyWrap?: KeyWrap; // this admin's copy of the complaint decryption key
+  complaintAccessRequest?: { publicKey: string; wrap: KeyWrap }; // personal key pair, waiting for approval
+  complaintAccessGrant?: string; // complaint key sealed to the request's public key
+}
+
+// A private key encrypted with AES-GCM under a PBKDF2 key from the owner's password (base64url).
+export interface KeyWrap {
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+export interface QuarantinedRecord {
+  id: string; // `${collection}:${record id or content hash}`
+  collection: string;
+  record: unknown; // exactly as received
+  errors: string[];
+  quarantinedAt: string;
 }
 
 export interface AppData {
+  revision: number; // bumped by the hub on every accepted write
+  schemaVersion: number; // see services/migrations.ts
   attendance: AttendanceRecord[];
+  attendancePolicies: AttendancePolicy[];
   timetable: TimetableEntry[];
   exams: ExamSchedule[];
   scholarships: ScholarshipItem[];
   internships: InternshipItem[];
   events: CampusEvent[];
   complaints: Complaint[];
+  complaintMessages: ComplaintMessage[]; // follow-up threads on tracked complaints
+  rsvps: EventRsvp[];
+  bookmarks: Bookmark[];
   rawKnowledge: string[];
   campusMapImage?: string;
   stylizedMapImage?: string;
+  complaintPublicKey?: string; // admins' RSA-OAEP key (base64url SPKI); complaint texts are sealed to it
   uploadLogs: UploadLog[];
+  adminAccounts: AdminAccount[];
+  quarantine: QuarantinedRecord[]; // records that failed validation, held back from the UI
 }
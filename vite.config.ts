@@ -1,25 +1,35 @@
-
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env': {
-      API_KEY: JSON.stringify(process.env.API_KEY),
-      NODE_ENV: JSON.stringify(process.env.NODE_ENV)
-    }
-  },
-  build: {
-    outDir: 'dist',
-    sourcemap: false,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          vendor: ['react', 'react-dom'],
-          genai: ['@google/genai']
+export default defineConfig(({ mode }) => {
+  // Sync settings come from .env / .env.local as well as the shell environment.
+  const env = { ...loadEnv(mode, '.', ''), ...process.env };
+
+  return {
+    plugins: [react()],
+    define: {
+      'process.env': {
+        API_KEY: JSON.stringify(process.env.API_KEY),
+        NODE_ENV: JSON.stringify(process.env.NODE_ENV),
+        SYNC_BACKEND: JSON.stringify(env.SYNC_BACKEND),
+        SYNC_URL: JSON.stringify(env.SYNC_URL),
+        NPOINT_BIN_ID: JSON.stringify(env.NPOINT_BIN_ID),
+        ADMIN_BOOTSTRAP: JSON.stringify(env.ADMIN_BOOTSTRAP),
+        COMPLAINT_PUBLIC_KEY: JSON.stringify(env.COMPLAINT_PUBLIC_KEY)
+      }
+    },
+    build: {
+      outDir: 'dist',
+      sourcemap: false,
+      rollupOptions: {
+        output: {
+          manualChunks: {
+            vendor: ['react', 'react-dom'],
+            genai: ['@google/genai'],
+            pdf: ['pdfjs-dist']
+          }
         }
       }
     }
-  }
+  };
 });